@@ -0,0 +1,137 @@
+// Type definitions for Uitsmijter tenant provider scripts.
+//
+// Provider scripts are the `providers` of a Tenant. Uitsmijter loads them into a JavaScript context with the globals
+// below, constructs the provider classes with the inputs and reads their properties after the first `commit`.
+// Reference this file from a provider script to type-check it before it is deployed:
+//
+//     // @ts-check
+//     /// <reference path="provider.d.ts" />
+//
+//     /** @implements {Uitsmijter.UserLoginProvider} */
+//     class UserLoginProvider {
+//         /** @param {Uitsmijter.Credentials} credentials */
+//         constructor(credentials) { ... }
+//     }
+//
+// Every Uitsmijter instance serves this file as `/types/provider.d.ts`.
+// See: https://docs.uitsmijter.io/providers/
+
+declare namespace Uitsmijter {
+
+    // MARK: - Inputs
+
+    /**
+     * The grant of the request that asks the provider.
+     *
+     * - `authorization_code`: the login page of an OAuth authorization
+     * - `interceptor`: the login page of the interceptor mode
+     * - `password`: the token endpoint with the password grant
+     * - `device_code`: the activation of a device authorization
+     */
+    type GrantType = 'authorization_code' | 'refresh_token' | 'password' | 'interceptor' | 'device_code'
+
+    /** Input of a `UserLoginProvider`, `JSInputCredentials` of the server */
+    interface Credentials {
+        /** Users username or email address */
+        username: string
+        /** Users password */
+        password: string
+        grant_type: GrantType
+    }
+
+    /** Input of a `UserValidationProvider`, `JSInputUsername` of the server */
+    interface Username {
+        /** Users username or email address */
+        username: string
+    }
+
+    // MARK: - Provider classes
+
+    /**
+     * Checks the credentials of a user.
+     *
+     * The class has to be named `UserLoginProvider`. Its constructor gets the `Credentials` and has to `commit` once
+     * when the result is known, the properties are read afterwards.
+     */
+    interface UserLoginProvider {
+        /** True if the user is allowed to log in */
+        readonly canLogin: boolean
+        /** The profile of the user, part of the token */
+        readonly userProfile?: object
+        /** The role of the user, `default` if not set */
+        readonly role?: string | null
+        /** Scopes the provider grants, filtered by the `allowedProviderScopes` of the client */
+        readonly scopes?: string[]
+    }
+
+    interface UserLoginProviderConstructor {
+        new(credentials: Credentials): UserLoginProvider
+    }
+
+    /**
+     * Checks on every token refresh that a user is still valid.
+     *
+     * The class has to be named `UserValidationProvider`. Its constructor gets the `Username` and has to `commit`
+     * once when the result is known.
+     */
+    interface UserValidationProvider {
+        /** False to end the session of the user */
+        readonly isValid: boolean
+    }
+
+    interface UserValidationProviderConstructor {
+        new(args: Username): UserValidationProvider
+    }
+
+    // MARK: - Globals
+
+    interface FetchSettings {
+        /** HTTP method, `get` by default, case-insensitive */
+        method?: string
+        /** Request headers, values are sent as strings */
+        headers?: Record<string, string | number | boolean>
+        /** Request body, only strings are sent as they are */
+        body?: string
+    }
+
+    /** The result of a successful `fetch` */
+    interface FetchResponse {
+        /** HTTP status code, always 2xx */
+        code: number
+        /** Content of the response, use `JSON.parse` for JSON responses */
+        body: string
+    }
+
+    /** A committed value that sets the `sub` claim of the token */
+    interface SubjectCommit {
+        subject: string
+    }
+}
+
+/**
+ * Ends the provider run with its result. Only the first commit counts, the server waits for it up to 30 seconds.
+ *
+ * Committed values are converted to JSON, an object with a `subject` sets the subject of the user.
+ */
+declare function commit(...values: unknown[]): void
+
+/**
+ * Requests a url. Redirects are followed, responses with another status than 2xx reject the promise.
+ */
+declare function fetch(url: string, settings?: Uitsmijter.FetchSettings): Promise<Uitsmijter.FetchResponse>
+
+/** Writes an info message to the log of the server */
+declare function say(...messages: unknown[]): void
+
+declare const console: {
+    /** Writes an info message to the log of the server */
+    log(...messages: unknown[]): void
+    /** Writes an error message to the log of the server */
+    error(...messages: unknown[]): void
+}
+
+/** The hex encoded MD5 digest of a string */
+declare function md5(value: string): string
+
+/** The hex encoded SHA-256 digest of a string */
+declare function sha256(value: string): string
@@ -14,6 +14,9 @@ actor MemoryAuthCodeStorage: AuthCodeStorageProtocol {
     /// Storage for LoginSessions
     private var loginSessions: [LoginSession] = []
 
+    /// Revoked access tokens with their expiration
+    private var revokedAccessTokens: [String: Date] = [:]
+
     /// Sort storage and restart garbage collection
     private func sortAndGc() {
         gcTimer?.cancel()
@@ -154,7 +157,9 @@ actor MemoryAuthCodeStorage: AuthCodeStorageProtocol {
     /// - Parameters:
     ///   - tenant: The tenant containing the user
     ///   - subject: The subject (user identifier) whose sessions should be removed
-    func wipe(tenant: Tenant, subject: String) async {
+    /// - Returns: The removed sessions
+    @discardableResult
+    func wipe(tenant: Tenant, subject: String) async -> [AuthSession] {
         Log.debug("Wipe called for tenant: \(tenant.name), subject: \(subject)")
         Log.debug("Total sessions in storage before wipe: \(storage.count)")
 
@@ -176,6 +181,7 @@ actor MemoryAuthCodeStorage: AuthCodeStorageProtocol {
 
         storage.removeAll(where: { $0.payload?.tenant == tenant.name && $0.payload?.subject.value == subject })
         Log.debug("Total sessions in storage after wipe: \(storage.count)")
+        return matchingSessions
     }
 
     /// Counts authorization sessions for a specific tenant and type.
@@ -282,6 +288,28 @@ actor MemoryAuthCodeStorage: AuthCodeStorageProtocol {
         storage[index] = .device(updated)
     }
 
+    /// Remembers a revoked access token until it expires.
+    ///
+    /// - Parameters:
+    ///   - accessToken: The hash of the revoked access token
+    ///   - expiration: The expiration of the access token
+    func revoke(accessToken: String, until expiration: Date) async throws {
+        // Expired tokens are forgotten when the next token is revoked
+        revokedAccessTokens = revokedAccessTokens.filter { $0.value > Date() }
+        revokedAccessTokens[accessToken] = expiration
+    }
+
+    /// Checks if an access token has been revoked and is not expired yet.
+    ///
+    /// - Parameter accessToken: The hash of the access token
+    /// - Returns: true if the access token has been revoked, false otherwise
+    func isRevoked(accessToken: String) async -> Bool {
+        guard let expiration = revokedAccessTokens[accessToken] else {
+            return false
+        }
+        return expiration > Date()
+    }
+
     /// Checks if the storage backend is healthy and operational.
     ///
     /// - Returns: Always returns true for memory storage (always available)
@@ -11,6 +11,9 @@ actor RedisAuthCodeStorage: AuthCodeStorageProtocol {
     /// Redis key prefix for secondary device-user-code index
     private static let deviceUserPrefix = "deviceuser~"
 
+    /// Redis key prefix for revoked access tokens
+    private static let revokedPrefix = "revoked~"
+
     /// Injected redis client
     let redis: RedisClient
 
@@ -68,7 +71,11 @@ actor RedisAuthCodeStorage: AuthCodeStorageProtocol {
     func count() async -> Int {
         do {
             let (_, keys) = try await redis.scan(startingFrom: 0).get()
-            return keys.count
+            // Count AuthSession keys only
+            return keys.filter { key in
+                key.hasPrefix("loginid~") == false && key.hasPrefix(Self.deviceUserPrefix) == false
+                    && key.hasPrefix(Self.revokedPrefix) == false
+            }.count
         } catch {
             Log.error("Failed to count redis keys: \(error)")
             return 0
@@ -131,15 +138,19 @@ actor RedisAuthCodeStorage: AuthCodeStorageProtocol {
         _ = try await redis.delete(key).get()
     }
 
-    func wipe(tenant: Tenant, subject: String) async {
+    @discardableResult
+    func wipe(tenant: Tenant, subject: String) async -> [AuthSession] {
         Log.debug("Wipe AuthSession for tenant: \(tenant.name) with subject: \(subject)")
         do {
             let (_, keys) = try await redis.scan(startingFrom: 0).get()
-            let keysToDelete: [RedisKey] = try await withThrowingTaskGroup(of: RedisKey?.self) { group in
+            let sessionsToDelete: [(RedisKey, AuthSession)] = try await withThrowingTaskGroup(
+                of: (RedisKey, AuthSession)?.self
+            ) { group in
                 for key in keys {
                     group.addTask {
                         // Skip non-AuthSession keys
-                        if key.hasPrefix("loginid~") || key.hasPrefix(Self.deviceUserPrefix) {
+                        if key.hasPrefix("loginid~") || key.hasPrefix(Self.deviceUserPrefix)
+                            || key.hasPrefix(Self.revokedPrefix) {
                             return nil
                         }
 
@@ -156,7 +167,7 @@ actor RedisAuthCodeStorage: AuthCodeStorageProtocol {
                                         Key: \(key)
                                         """
                                     )
-                                    return rKey
+                                    return (rKey, decoded)
                                 }
                             }
                         }
@@ -164,21 +175,24 @@ actor RedisAuthCodeStorage: AuthCodeStorageProtocol {
                     }
                 }
 
-                var result: [RedisKey] = []
-                for try await key in group {
-                    if let key = key {
-                        result.append(key)
+                var result: [(RedisKey, AuthSession)] = []
+                for try await session in group {
+                    if let session = session {
+                        result.append(session)
                     }
                 }
                 return result
             }
+            let keysToDelete = sessionsToDelete.map { key, _ in key }
             Log.debug("Found \(keysToDelete.count) sessions to wipe from Redis")
             if !keysToDelete.isEmpty {
                 _ = try await redis.delete(keysToDelete).get()
                 Log.debug("Successfully deleted \(keysToDelete.count) sessions from Redis")
             }
+            return sessionsToDelete.map { _, session in session }
         } catch {
             Log.error("Cannot get all redis keys. \(error)")
+            return []
         }
     }
 
@@ -190,7 +204,8 @@ actor RedisAuthCodeStorage: AuthCodeStorageProtocol {
                 for key in keys {
                     group.addTask {
                         // Skip non-AuthSession keys
-                        if key.hasPrefix("loginid~") || key.hasPrefix(Self.deviceUserPrefix) {
+                        if key.hasPrefix("loginid~") || key.hasPrefix(Self.deviceUserPrefix)
+                            || key.hasPrefix(Self.revokedPrefix) {
                             return 0
                         }
 
@@ -238,7 +253,8 @@ actor RedisAuthCodeStorage: AuthCodeStorageProtocol {
                 for key in keys {
                     group.addTask {
                         // Skip non-AuthSession keys
-                        if key.hasPrefix("loginid~") || key.hasPrefix(Self.deviceUserPrefix) {
+                        if key.hasPrefix("loginid~") || key.hasPrefix(Self.deviceUserPrefix)
+                            || key.hasPrefix(Self.revokedPrefix) {
                             return 0
                         }
 
@@ -323,6 +339,34 @@ actor RedisAuthCodeStorage: AuthCodeStorageProtocol {
         try await set(authSession: .device(updated))
     }
 
+    /// Stores the revoked access token with the remaining lifetime of the token as expiry.
+    ///
+    /// The key and its expiry are written with a single `SET ... EX`, a revoked token never stays without expiry.
+    func revoke(accessToken: String, until expiration: Date) async throws {
+        let secondsToExpire = Int(expiration.timeIntervalSinceNow.rounded(.up))
+        guard secondsToExpire > 0 else {
+            return
+        }
+        guard let key = RedisKey(rawValue: Self.revokedPrefix + accessToken) else {
+            throw AuthCodeStorageError.KEY_ERROR
+        }
+        _ = try await redis.set(key, to: "1", onCondition: .none, expiration: .seconds(secondsToExpire)).get()
+    }
+
+    /// Fails closed: a token is treated as revoked if Redis cannot be asked, a revoked token is never accepted again.
+    func isRevoked(accessToken: String) async -> Bool {
+        guard let key = RedisKey(rawValue: Self.revokedPrefix + accessToken) else {
+            Log.error("Cannot build the revocation key of an access token, treat it as revoked")
+            return true
+        }
+        do {
+            return try await redis.exists(key).get() > 0
+        } catch {
+            Log.error("Cannot check the revocation of an access token, treat it as revoked: \(error)")
+            return true
+        }
+    }
+
     func isHealthy() async -> Bool {
         if (try? await redis.ping().get()) == "PONG" {
             return true
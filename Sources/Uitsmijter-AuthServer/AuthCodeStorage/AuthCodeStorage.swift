@@ -2,6 +2,7 @@ import Foundation
 import Vapor
 @preconcurrency import Redis
 import Logger
+import FoundationExtensions
 
 /// A facade that manages authorization code session storage through pluggable backend implementations.
 ///
@@ -36,6 +37,11 @@ import Logger
 /// - ``push(loginId:)``
 /// - ``pull(loginUuid:)``
 ///
+/// ### Access Token Revocation
+///
+/// - ``revoke(accessToken:until:)``
+/// - ``isRevoked(accessToken:)``
+///
 /// ### Monitoring
 ///
 /// - ``count()``
@@ -215,6 +221,7 @@ struct AuthCodeStorage: AuthCodeStorageProtocol, Sendable {
     /// - Parameters:
     ///   - tenant: The tenant whose sessions should be wiped.
     ///   - subject: The subject (user identifier) whose sessions should be removed.
+    /// - Returns: The removed sessions, their audiences are the clients that received tokens for the user.
     ///
     /// ## Example
     ///
@@ -222,9 +229,10 @@ struct AuthCodeStorage: AuthCodeStorageProtocol, Sendable {
     /// // Logout: wipe all sessions for user
     /// await storage.wipe(tenant: currentTenant, subject: userId)
     /// ```
-    func wipe(tenant: Tenant, subject: String) async {
+    @discardableResult
+    func wipe(tenant: Tenant, subject: String) async -> [AuthSession] {
         Log.debug("Wipe AuthSession for tenant: \(tenant.name) with subject: \(subject)")
-        await implementation.wipe(tenant: tenant, subject: subject)
+        return await implementation.wipe(tenant: tenant, subject: subject)
     }
 
     /// Counts sessions for a specific tenant and type.
@@ -271,6 +279,29 @@ struct AuthCodeStorage: AuthCodeStorageProtocol, Sendable {
         )
     }
 
+    /// Remembers a revoked access token until it expires.
+    ///
+    /// Access tokens are stateless JWTs that stay valid until they expire. Endpoints that accept access tokens
+    /// ask ``isRevoked(accessToken:)`` to reject them earlier. Only a hash of the token is stored.
+    ///
+    /// - Parameters:
+    ///   - accessToken: The encoded JWT that is revoked.
+    ///   - expiration: The expiration of the token, after which it does not need to be remembered anymore.
+    /// - Throws: An error if the storage operation fails.
+    func revoke(accessToken: String, until expiration: Date) async throws {
+        Log.debug("Revoke access token until \(expiration)")
+        try await implementation.revoke(accessToken: accessToken.sha256(), until: expiration)
+    }
+
+    /// Checks whether an access token has been revoked.
+    ///
+    /// - Parameter accessToken: The encoded JWT.
+    /// - Returns: `true` if the token has been revoked and is not expired yet, or if the storage cannot tell,
+    ///   `false` otherwise.
+    func isRevoked(accessToken: String) async -> Bool {
+        await implementation.isRevoked(accessToken: accessToken.sha256())
+    }
+
     /// Checks whether the storage backend is operational and able to serve requests.
     ///
     /// - Returns: `true` if the storage is healthy, `false` otherwise.
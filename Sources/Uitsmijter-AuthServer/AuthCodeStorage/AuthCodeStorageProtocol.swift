@@ -21,8 +21,9 @@ protocol AuthCodeStorageProtocol: Sendable {
     /// Delete a specific session by type and code value
     func delete(type: AuthSessionType, codeValue: String) async throws
 
-    /// Wipe all sessions for a specific tenant and subject
-    func wipe(tenant: Tenant, subject: String) async
+    /// Wipe all sessions for a specific tenant and subject, returns the wiped sessions
+    @discardableResult
+    func wipe(tenant: Tenant, subject: String) async -> [AuthSession]
 
     /// Count sessions for a specific tenant and type
     /// - Parameters:
@@ -49,6 +50,12 @@ protocol AuthCodeStorageProtocol: Sendable {
         lastPolledAt: Date?
     ) async throws
 
+    /// Remember a revoked access token until it expires
+    func revoke(accessToken: String, until expiration: Date) async throws
+
+    /// Check if an access token has been revoked, a storage that cannot tell has to answer `true`
+    func isRevoked(accessToken: String) async -> Bool
+
     /// Check if the storage is healthy
     func isHealthy() async -> Bool
 }
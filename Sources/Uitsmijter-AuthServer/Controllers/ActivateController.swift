@@ -75,7 +75,7 @@ struct ActivateController: RouteCollection {
                     payload: payload,
                     lastPolledAt: nil
                 )
-                Prometheus.main.deviceFlowAuthorized?.inc()
+                await recordDeviceAuthorized(deviceData, on: req)
                 Log.info("Device authorized via cookie for userCode: \(normalized)", requestId: req.id)
                 return try await renderActivateView(req: req, status: .ok, props: .init(success: true))
             }
@@ -125,7 +125,7 @@ struct ActivateController: RouteCollection {
                 payload: payload,
                 lastPolledAt: nil
             )
-            Prometheus.main.deviceFlowAuthorized?.inc()
+            await recordDeviceAuthorized(deviceData, on: req)
             Log.info("Device authorized via cookie for userCode: \(normalized)", requestId: req.id)
             return try await renderActivateView(req: req, status: .ok, props: .init(success: true))
         }
@@ -176,7 +176,12 @@ struct ActivateController: RouteCollection {
 
         guard await providerInterpreter.canLogin() else {
             Log.info("Activate: cannot log in user \(username)", requestId: req.id)
-            Prometheus.main.loginFailure?.inc()
+            await req.application.authEventActor.recordLoginFailure(
+                tenant: tenant.name,
+                client: client,
+                mode: LoginMode.oauth.rawValue,
+                host: req.headers.first(name: "X-Forwarded-Host") ?? req.headers.first(name: "Host") ?? "unknown"
+            )
             return try await renderActivateView(req: req, status: .forbidden, props: .init(
                 error: "LOGIN.ERRORS.WRONG_CREDENTIALS",
                 userCode: rawCode,
@@ -230,8 +235,13 @@ struct ActivateController: RouteCollection {
             lastPolledAt: nil
         )
 
-        Prometheus.main.deviceFlowAuthorized?.inc()
-        Prometheus.main.loginSuccess?.inc()
+        await recordDeviceAuthorized(deviceData, on: req)
+        await req.application.authEventActor.recordLoginSuccess(
+            tenant: tenant.name,
+            client: client,
+            mode: LoginMode.oauth.rawValue,
+            host: host
+        )
         Log.info(
             "Device authorized for userCode: \(normalized) by user: \(username)",
             requestId: req.id
@@ -245,6 +255,15 @@ struct ActivateController: RouteCollection {
 
     // MARK: - Helpers
 
+    /// Counts an authorized device flow for the tenant and client that initiated it
+    private func recordDeviceAuthorized(_ deviceData: DeviceSession, on req: Request) async {
+        let client = await Client.find(in: req.application.entityStorage, clientId: deviceData.clientId)
+        Prometheus.main.deviceFlowAuthorized?.inc(1, [
+            ("tenant", client?.config.tenantname ?? "unknown"),
+            ("client", client?.name ?? "unknown")
+        ])
+    }
+
     private func normalizeUserCode(_ raw: String) -> String {
         let stripped = raw.uppercased().filter { $0.isLetter || $0.isNumber }
         if stripped.count == 8 {
@@ -62,6 +62,7 @@ struct AuthorizeController: RouteCollection, OAuthControllerProtocol {
             Log.error("No auth without client!")
             throw Abort(.badRequest, reason: "No auth without client!")
         }
+        try await checkTenant(of: client, on: req)
 
         // filter client allowed scopes, and create userAllowedScopes
         // let clientAllowedScopes = clientInfo.client?.config.scopes ?? []
@@ -309,6 +310,7 @@ struct AuthorizeController: RouteCollection, OAuthControllerProtocol {
             scopes: finalScopes,
             payload: updatedPayload,
             redirect: redirect,
+            nonce: authRequest.nonce,
             ttl: Constants.AUTHCODE.TimeToLive
         ))
 
@@ -394,6 +396,7 @@ struct AuthorizeController: RouteCollection, OAuthControllerProtocol {
             scopes: finalScopes,
             payload: updatedPayload,
             redirect: redirect,
+            nonce: authRequest.nonce,
             ttl: Constants.AUTHCODE.TimeToLive
         ))
 
@@ -402,8 +405,11 @@ struct AuthorizeController: RouteCollection, OAuthControllerProtocol {
     }
 
     private func getCodeChallengeMethod(on request: Request) throws -> CodeChallengeMethod {
+        // A challenge without a method is plain (RFC 7636, Section 4.3), it must not be dropped
+        let hasChallenge = request.query["code_challenge"].map({ $0 as String }) != nil
+        let defaultMethod: CodeChallengeMethod = hasChallenge ? .plain : .none
         guard let codeChallengeMethod = CodeChallengeMethod(
-                rawValue: request.query["code_challenge_method"].map({ $0 as String }) ?? "none")
+                rawValue: request.query["code_challenge_method"].map({ $0 as String }) ?? defaultMethod.rawValue)
         else {
             throw Abort(.notImplemented, reason: "LOGIN.ERRORS.CODE_CHALLENGE_METHOD_NOT_IMPLEMENTED")
         }
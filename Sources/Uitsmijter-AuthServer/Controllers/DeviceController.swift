@@ -101,7 +101,10 @@ struct DeviceController: RouteCollection, OAuthControllerProtocol {
         ))
         try await storage.set(authSession: session)
 
-        Prometheus.main.deviceFlowInitiation?.inc()
+        Prometheus.main.deviceFlowInitiation?.inc(1, [
+            ("tenant", uitsmijterClient.config.tenantname),
+            ("client", uitsmijterClient.name)
+        ])
         Log.info(
             "Device flow initiated for client \(deviceRequest.client_id), userCode: \(userCode)",
             requestId: req.id
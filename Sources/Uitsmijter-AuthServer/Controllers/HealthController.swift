@@ -15,14 +15,14 @@ import Logger
 /// ## Route Registration
 ///
 /// Routes are registered under the `/health` path group:
-/// - `GET /health` - Returns HTTP 204 if healthy, HTTP 500 if unhealthy
+/// - `GET /health` - Returns HTTP 204 while the service is running
 /// - `GET /health/ready` - Returns HTTP 204 if ready, HTTP 417 if not ready
 ///
 /// ## Health Checks
 ///
-/// The controller verifies:
-/// - AuthCodeStorage is initialized and healthy
-/// - Critical system components are operational
+/// The liveness only depends on the process itself. The readiness verifies:
+/// - AuthCodeStorage is initialized and healthy (Redis is reachable)
+/// - The entity loader has loaded at least one tenant
 ///
 /// ## Example
 ///
@@ -72,33 +72,20 @@ final class HealthController: RouteCollection, Sendable {
     ///
     /// ## Health Criteria
     ///
-    /// The service is considered healthy if:
-    /// - The AuthCodeStorage component (if configured) reports healthy status
-    /// - No critical system failures are detected
+    /// The service is considered healthy as long as it answers requests. The state of the
+    /// dependencies is not part of the liveness: a lost Redis connection or a missing tenant
+    /// is not fixed by a restart, those are reported by ``isReady(_:)`` instead, so the pod
+    /// stops receiving traffic but is not restarted in a loop.
     ///
     /// ## Return Values
     ///
-    /// - Returns HTTP 204 (No Content) if all checks pass
-    /// - Returns HTTP 500 (Internal Server Error) if any component is unhealthy
-    ///
-    /// ## Failure Handling
-    ///
-    /// When AuthCodeStorage is unhealthy (e.g., Redis connection lost), the method:
-    /// 1. Logs a critical error with the request ID for debugging
-    /// 2. Returns HTTP 500 to signal the orchestrator to restart the pod
+    /// - Returns HTTP 204 (No Content) while the service is running
     ///
     /// - Parameter req: The incoming HTTP request containing application context.
-    /// - Returns: HTTP status indicating health (204 = healthy, 500 = unhealthy).
+    /// - Returns: HTTP status indicating health (204 = healthy).
     /// - Throws: Generally does not throw; returns status codes instead.
     @Sendable func isHealthy(_ req: Request) async throws -> HTTPStatus {
-        // check AuthCodeStorage
-        if let authCodeStorage = req.application.authCodeStorage {
-            if await authCodeStorage.isHealthy() == false {
-                Log.critical("AuthCodeStorage is not healthy", requestId: req.id)
-                return .internalServerError
-            }
-        }
-        return .noContent
+        .noContent
     }
 
     /// Performs a readiness check to determine if the service can accept traffic.
@@ -112,23 +99,24 @@ final class HealthController: RouteCollection, Sendable {
     /// The service is considered ready if:
     /// - AuthCodeStorage has been initialized (not nil)
     /// - If Redis is configured, the Redis connection is healthy
-    /// - All health checks pass (via ``isHealthy(_:)``)
+    /// - At least one tenant is loaded, without tenants every login would fail
+    /// - The liveness check passes (via ``isHealthy(_:)``)
     ///
     /// ## Return Values
     ///
     /// - Returns HTTP 204 (No Content) if the service is fully ready
-    /// - Returns HTTP 417 (Expectation Failed) if initialization is incomplete or Redis is not ready
-    /// - Returns HTTP 500 (Internal Server Error) if health checks fail
+    /// - Returns HTTP 417 (Expectation Failed) if a readiness criterion is not met
     ///
     /// ## Startup Sequence
     ///
     /// During application startup, this endpoint will return 417 until:
     /// 1. AuthCodeStorage (Redis or in-memory) is initialized
     /// 2. If Redis is used, the connection is established and healthy
-    /// 3. All health criteria are met
+    /// 3. The entity loader has loaded the tenants
     ///
     /// This prevents the load balancer from sending requests before the application
-    /// is fully initialized, avoiding errors during the startup phase.
+    /// is fully initialized, avoiding errors during the startup phase. The readiness
+    /// flips back to 417 when Redis becomes unavailable or all tenants are removed.
     ///
     /// ## Redis Check
     ///
@@ -136,26 +124,27 @@ final class HealthController: RouteCollection, Sendable {
     /// In development mode with in-memory storage, the Redis check is skipped.
     ///
     /// - Parameter req: The incoming HTTP request containing application context.
-    /// - Returns: HTTP status indicating readiness (204 = ready, 417 = not ready, 500 = unhealthy).
+    /// - Returns: HTTP status indicating readiness (204 = ready, 417 = not ready).
     /// - Throws: May propagate errors from the health check.
     @Sendable func isReady(_ req: Request) async throws -> HTTPStatus {
         // Check if AuthCodeStorage is initialized
-        if req.application.authCodeStorage == nil {
+        guard let authCodeStorage = req.application.authCodeStorage else {
             return .expectationFailed
         }
 
-        // Check if Redis is configured and healthy (only in production/release mode)
-        // Redis is used when authCodeStorage is configured with .redis backend
-        if let authCodeStorage = req.application.authCodeStorage {
-            // The isHealthy check in authCodeStorage already validates Redis connectivity
-            // but we want to fail early in readiness probe before accepting traffic
-            if await authCodeStorage.isHealthy() == false {
-                Log.info("Service not ready: AuthCodeStorage (Redis) is not healthy yet")
-                return .expectationFailed
-            }
+        // The isHealthy check of the storage validates the Redis connectivity,
+        // the in-memory storage is always healthy
+        if await authCodeStorage.isHealthy() == false {
+            Log.info("Service not ready: AuthCodeStorage (Redis) is not healthy", requestId: req.id)
+            return .expectationFailed
+        }
+
+        // Without tenants no request can be authorized
+        if await req.application.entityStorage.tenants.isEmpty {
+            Log.info("Service not ready: no tenants are loaded", requestId: req.id)
+            return .expectationFailed
         }
 
-        // Perform full health check
         return try await isHealthy(req)
     }
 }
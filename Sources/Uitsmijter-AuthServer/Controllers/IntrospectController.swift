@@ -0,0 +1,152 @@
+import Vapor
+import Logger
+
+/// Controller handling OAuth 2.0 Token Introspection (RFC 7662)
+///
+/// This controller implements the token introspection endpoint as specified in
+/// [RFC 7662: OAuth 2.0 Token Introspection](https://datatracker.ietf.org/doc/html/rfc7662).
+///
+/// Resource servers ask the endpoint whether a token is active, instead of relying on the
+/// signature of the token only. Revoked access tokens are reported as inactive.
+///
+/// ## Endpoint
+///
+/// ```
+/// POST /introspect
+/// ```
+///
+/// ## Security
+///
+/// - Only confidential clients (with a secret) can introspect tokens
+/// - Tokens are only active on the tenant of the introspecting client
+/// - Inactive tokens are answered with `{"active": false}` only
+///
+/// - SeeAlso: ``IntrospectRequest``
+/// - SeeAlso: ``IntrospectResponse``
+/// - SeeAlso: [RFC 7662](https://datatracker.ietf.org/doc/html/rfc7662)
+struct IntrospectController: RouteCollection, OAuthControllerProtocol {
+
+    /// Registers introspection endpoint routes with the application.
+    ///
+    /// - Parameter routes: The routes builder to register endpoints with
+    /// - Throws: Routing configuration errors
+    func boot(routes: RoutesBuilder) throws {
+        routes.post("introspect", use: { @Sendable (req: Request) async throws -> IntrospectResponse in
+            try await self.introspect(req: req)
+        })
+    }
+
+    /// POST /introspect - Describe a token
+    ///
+    /// The token is searched as an access token and as a refresh token, starting with the
+    /// `token_type_hint`. Per RFC 7662 Section 2.2 unknown, expired and revoked tokens are
+    /// not an error, they are answered as inactive.
+    ///
+    /// - Parameters:
+    ///   - req: The incoming HTTP request
+    /// - Returns: The description of the token
+    /// - Throws: A `.unauthorized` error if the client is not authenticated
+    @Sendable func introspect(req: Request) async throws -> IntrospectResponse {
+        let introspectRequest = try req.content.decode(IntrospectRequest.self)
+
+        // Per RFC 7662 Section 2.1 the endpoint requires client authentication
+        guard let client = try? await client(for: introspectRequest, request: req),
+              let secret = client.config.secret, !secret.isEmpty,
+              introspectRequest.client_secret == secret else {
+            Log.warning("Introspection by unauthenticated client \(introspectRequest.client_id)", requestId: req.id)
+            throw Abort(.unauthorized, reason: "ERRORS.INVALID_CLIENT")
+        }
+
+        let lookups: [TokenLookupStrategy] = introspectRequest.token_type_hint == "refresh_token"
+            ? [.refreshToken, .accessToken]
+            : [.accessToken, .refreshToken]
+
+        for lookup in lookups {
+            let response: IntrospectResponse? = switch lookup {
+            case .accessToken:
+                await introspectAccessToken(introspectRequest.token, of: client, on: req)
+            case .refreshToken:
+                await introspectRefreshToken(introspectRequest.token, of: client, on: req)
+            }
+            if let response {
+                Log.info("Client \(client.name) introspected an active token of \(response.sub ?? "-")",
+                         requestId: req.id)
+                return response
+            }
+        }
+
+        Log.info("Client \(client.name) introspected an inactive token", requestId: req.id)
+        return .inactive
+    }
+
+    // MARK: - Private Methods
+
+    /// Describes an active access token.
+    ///
+    /// - Parameters:
+    ///   - token: The encoded JWT
+    ///   - client: The authenticated client
+    ///   - req: The request context
+    /// - Returns: The description of the token, or nil if it is not an active access token of the tenant
+    private func introspectAccessToken(
+        _ token: String,
+        of client: UitsmijterClient,
+        on req: Request
+    ) async -> IntrospectResponse? {
+        let signerManager = req.application.signerManager ?? SignerManager.shared
+        guard let payload = try? await signerManager.verify(token, as: Payload.self),
+              (try? payload.expiration.verifyNotExpired(currentDate: Date())) != nil,
+              payload.tenant == client.config.tenantname else {
+            return nil
+        }
+        if await req.application.authCodeStorage?.isRevoked(accessToken: token) == true {
+            return nil
+        }
+
+        return IntrospectResponse(
+            active: true,
+            scope: payload.scope,
+            client_id: payload.audience.value.first,
+            sub: payload.subject.value,
+            exp: Int(payload.expiration.value.timeIntervalSince1970),
+            iat: Int(payload.issuedAt.value.timeIntervalSince1970),
+            tenant: payload.tenant,
+            token_type: TokenTypes.Bearer.rawValue
+        )
+    }
+
+    /// Describes an active refresh token.
+    ///
+    /// - Parameters:
+    ///   - token: The refresh token
+    ///   - client: The authenticated client
+    ///   - req: The request context
+    /// - Returns: The description of the token, or nil if it is not an active refresh token of the tenant
+    private func introspectRefreshToken(
+        _ token: String,
+        of client: UitsmijterClient,
+        on req: Request
+    ) async -> IntrospectResponse? {
+        guard let session = await req.application.authCodeStorage?.get(type: .refresh, codeValue: token),
+              let payload = session.payload,
+              payload.tenant == client.config.tenantname else {
+            return nil
+        }
+
+        return IntrospectResponse(
+            active: true,
+            scope: session.scopes.joined(separator: " "),
+            client_id: payload.audience.value.first,
+            sub: payload.subject.value,
+            exp: session.ttl.map { Int(session.generated.timeIntervalSince1970) + Int($0) },
+            iat: Int(session.generated.timeIntervalSince1970),
+            tenant: payload.tenant
+        )
+    }
+
+    /// Token lookup strategy
+    private enum TokenLookupStrategy {
+        case accessToken
+        case refreshToken
+    }
+}
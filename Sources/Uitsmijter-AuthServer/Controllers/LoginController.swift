@@ -212,6 +212,9 @@ struct LoginController: RouteCollection, OAuthControllerProtocol {
         if let payload = clientInfo.validPayload, clientInfo.isExpired() == false {
             if let tenant = clientInfo.tenant, tenant.config.silent_login == true {
                 Log.info("User '\(payload.subject.value)' is already logged in.", requestId: req.id)
+                if let requestUri {
+                    try await ensureSilentRedirectIsAllowed(on: req, location: requestUri, tenant: tenant)
+                }
                 return req.redirect(
                     to: requestUri ?? ("//" + clientInfo.serviceUrl)
                 )
@@ -336,30 +339,38 @@ struct LoginController: RouteCollection, OAuthControllerProtocol {
 
     /// Ensures that a given location is allowed on the current client
     ///
+    /// In interceptor mode the location has to stay on the tenant, see ``Tenant/allowsRedirect(_:in:)``.
+    /// Locations on the requested host itself are always allowed.
+    ///
     /// - Parameters:
     ///   - request: The current `Request`
     ///   - redirect: A redirect location wrapped in `RedirectUriProtocol`
     /// - Throws:
     ///    - A Vapor Error if the client os not in the clientInfo: `NO_CLIENT`
     ///    - A Vapor Error if the redirect is not allowed: `REDIRECT_MISMATCH`
-    func ensureRedirectIsAllowed(on request: Request, redirect: RedirectUriProtocol) throws {
+    func ensureRedirectIsAllowed(on request: Request, redirect: RedirectUriProtocol) async throws {
         guard let clientInfo = request.clientInfo else {
             Log.error("Client request without clientInfo is not allowed in this context", requestId: request.id)
             throw Abort(.badRequest, reason: "ERRORS.NOT_ACCEPTABLE_REQUEST")
         }
 
-        // if interceptor pass early - we allow every redirect
+        // if interceptor the redirect has to stay on the tenant
         if clientInfo.mode == .interceptor {
             Log.debug("Check redirect for interceptor:\(redirect.redirect_uri)", requestId: request.id)
+            guard let tenant = clientInfo.tenant,
+                  await tenant.allowsRedirect(redirect, in: request.application.entityStorage) else {
+                Log.error("""
+                          Redirect to \(redirect.redirect_uri) is not allowed
+                          on tenant \(clientInfo.tenant?.name ?? "-")
+                          """, requestId: request.id)
+                throw Abort(.forbidden, reason: "ERRORS.REDIRECT_MISMATCH")
+            }
             return
         }
         // if redirect points to server url pass early - we allow redirects to ourself, eg /authorise
-        if let origin = request.headers.first(name: "Origin") {
-            Log.info("Check if redirect is on same domain: \(origin)", requestId: request.id)
-            if redirect.redirect_uri.absoluteString.starts(with: origin) {
-                Log.info("Pass redirect check, because request is on same domain", requestId: request.id)
-                return
-            }
+        if isOnRequestedHost(redirect, on: request) {
+            Log.info("Pass redirect check, because request is on same domain", requestId: request.id)
+            return
         }
 
         // if oauth
@@ -381,6 +392,42 @@ struct LoginController: RouteCollection, OAuthControllerProtocol {
         }
     }
 
+    /// Checks if a redirect points to the host that is requested, e.g. `https://id.example.com/authorize?...`
+    ///
+    /// The host is taken from `X-Forwarded-Host`, `Host` or the configured server hostname. A redirect to
+    /// `https://id.example.com.evil.example/` is not on `id.example.com`.
+    ///
+    /// - Parameters:
+    ///   - redirect: A redirect location wrapped in `RedirectUriProtocol`
+    ///   - request: The current `Request`
+    /// - Returns: True if the redirect is on the requested host
+    private func isOnRequestedHost(_ redirect: RedirectUriProtocol, on request: Request) -> Bool {
+        let requested = requestedHost(on: request) ?? request.application.http.server.configuration.hostname
+        guard let redirectHost = redirect.redirectHost,
+              let requestedHost = URLComponents(string: "//" + requested)?.host?.lowercased() else {
+            return false
+        }
+        return redirectHost == requestedHost
+    }
+
+    /// Ensures that the location of a silent login stays on the client or the tenant
+    ///
+    /// - Parameters:
+    ///   - request: The current `Request`
+    ///   - location: The `for` location of the login
+    ///   - tenant: The tenant of the logged in user
+    /// - Throws: A Vapor Error if the redirect is not allowed: `REDIRECT_MISMATCH`
+    private func ensureSilentRedirectIsAllowed(on request: Request, location: String, tenant: Tenant) async throws {
+        let redirect = try? RedirectUri(location)
+        if let redirect, (try? request.clientInfo?.client?.checkedRedirect(for: redirect)) != nil {
+            return
+        }
+        guard let redirect, await tenant.allowsRedirect(redirect, in: request.application.entityStorage) else {
+            Log.error("Silent login to \(location) is not allowed on tenant \(tenant.name)", requestId: request.id)
+            throw Abort(.forbidden, reason: "ERRORS.REDIRECT_MISMATCH")
+        }
+    }
+
     /// Returns a target location to redirect.
     ///
     /// - Parameters:
@@ -501,13 +548,14 @@ struct LoginController: RouteCollection, OAuthControllerProtocol {
 
         // Check if redirect is allowed
         let redirectLocation: String = req.headers.first(name: "X-Forwarded-Uri") ?? loginForm.location
-        try ensureRedirectIsAllowed(on: req, redirect: RedirectUri(redirectLocation))
+        guard let redirect = try? RedirectUri(redirectLocation) else {
+            throw Abort(.badRequest, reason: "ERRORS.REDIRECT_NOT_URL")
+        }
+        try await ensureRedirectIsAllowed(on: req, redirect: redirect)
 
         // redirect must be a url and will be enrich with information to distingush that this redir is from
         // the login form.
-        guard let redirectLocationUrl: URL = URL(string: redirectLocation) else {
-            throw Abort(.badRequest, reason: "ERRORS.REDIRECT_NOT_URL")
-        }
+        let redirectLocationUrl: URL = redirect.redirect_uri
         let loginSession = LoginSession(loginId: UUID())
         Log.info("CONTROLLER: About to call push() with loginId: \(loginSession.loginId.uuidString)", requestId: req.id)
         do {
@@ -0,0 +1,130 @@
+import Foundation
+import Vapor
+import Logger
+
+/// OpenID Connect Back-Channel Logout
+///
+/// On logout the sessions of the user are wiped from the ``AuthCodeStorage``. Every client that holds a refresh
+/// token of these sessions and registered a `backchannel_logout_uri` gets a signed `logout_token` posted, so that it
+/// can end its own session of the user as well.
+///
+/// Clients are notified in parallel, the logout waits for them at most ``backchannelLogoutTimeout``. A client that
+/// is not reachable does not stop the logout.
+///
+/// - SeeAlso: [OpenID Connect Back-Channel Logout 1.0](https://openid.net/specs/openid-connect-backchannel-1_0.html)
+/// - SeeAlso: ``LogoutTokenPayload``
+extension LogoutController {
+
+    /// A client that is notified about a logout
+    struct BackchannelLogoutRecipient: Sendable {
+        /// The notified client
+        let client: UitsmijterClient
+        /// The `backchannel_logout_uri` of the client
+        let uri: URI
+        /// The payload of the tokens that the client received
+        let payload: Payload
+        /// The client_id as it is written in the audience of the tokens
+        let audience: String
+    }
+
+    /// Time to wait for the clients to acknowledge the logout
+    static let backchannelLogoutTimeout: TimeAmount = .seconds(5)
+
+    /// The clients of the sessions that registered a `backchannel_logout_uri`
+    ///
+    /// Only refresh sessions count: the client has received tokens, codes that were not exchanged yet do not.
+    /// Every client is notified once, even if it holds multiple refresh tokens of the user. The audience of the
+    /// tokens names the client by its `ident` or its name, see ``Client/isAudience(_:)``.
+    ///
+    /// - Parameters:
+    ///   - sessions: The wiped sessions of the user
+    ///   - tenant: The tenant of the user
+    ///   - storage: The entity storage with the clients of the tenant
+    /// - Returns: The clients to notify
+    @MainActor static func backchannelLogoutRecipients(
+        of sessions: [AuthSession],
+        tenant: Tenant,
+        in storage: EntityStorage
+    ) -> [BackchannelLogoutRecipient] {
+        var recipients: [BackchannelLogoutRecipient] = []
+        let tenantClients = storage.clients.filter { client in client.config.tenantname == tenant.name }
+        for session in sessions where session.sessionType == .refresh {
+            guard let payload = session.payload else {
+                continue
+            }
+            for audience in payload.audience.value {
+                guard let client = tenantClients.first(where: { $0.isAudience(audience) }),
+                      let backchannelLogoutUri = client.config.backchannel_logout_uri,
+                      recipients.contains(where: { $0.client.config.ident == client.config.ident }) == false else {
+                    continue
+                }
+                recipients.append(BackchannelLogoutRecipient(
+                    client: client,
+                    uri: URI(string: backchannelLogoutUri),
+                    payload: payload,
+                    audience: audience
+                ))
+            }
+        }
+        return recipients
+    }
+
+    /// Posts a `logout_token` to every client of the sessions that registered a `backchannel_logout_uri`
+    ///
+    /// - Parameters:
+    ///   - sessions: The wiped sessions of the user
+    ///   - tenant: The tenant of the user
+    ///   - req: Request
+    func notifyBackchannelLogout(of sessions: [AuthSession], tenant: Tenant, on req: Request) async {
+        let recipients = await Self.backchannelLogoutRecipients(
+            of: sessions,
+            tenant: tenant,
+            in: req.application.entityStorage
+        )
+        let algorithm = tenant.config.effectiveJwtAlgorithm
+        await withTaskGroup(of: Void.self) { group in
+            for recipient in recipients {
+                group.addTask {
+                    await self.sendLogoutToken(to: recipient, algorithm: algorithm, on: req)
+                }
+            }
+        }
+    }
+
+    /// Signs and posts the `logout_token` of a client
+    ///
+    /// - Parameters:
+    ///   - recipient: The client to notify
+    ///   - algorithm: The signing algorithm of the tenant
+    ///   - req: Request
+    private func sendLogoutToken(to recipient: BackchannelLogoutRecipient, algorithm: String, on req: Request) async {
+        let logoutToken = LogoutTokenPayload(
+            issuer: recipient.payload.issuer,
+            subject: recipient.payload.subject,
+            audience: AudienceClaim(value: recipient.audience)
+        )
+        do {
+            let signerManager = req.application.signerManager ?? SignerManager.shared
+            let (token, _) = try await signerManager.sign(logoutToken, algorithmString: algorithm)
+
+            var request = ClientRequest(method: .POST, url: recipient.uri)
+            request.timeout = Self.backchannelLogoutTimeout
+            try request.content.encode(["logout_token": token], as: .urlEncodedForm)
+
+            let response = try await req.client.send(request)
+            guard (200...299).contains(response.status.code) else {
+                Log.warning("""
+                            Back-channel logout of client \(recipient.client.name) \
+                            is answered with status \(response.status.code)
+                            """, requestId: req.id)
+                return
+            }
+            Log.info("Back-channel logout of client \(recipient.client.name) delivered", requestId: req.id)
+        } catch {
+            Log.error(
+                "Back-channel logout of client \(recipient.client.name) failed: \(error)",
+                requestId: req.id
+            )
+        }
+    }
+}
@@ -3,7 +3,7 @@ import Vapor
 import JWT
 import Logger
 
-struct LogoutController: RouteCollection {
+struct LogoutController: RouteCollection, OAuthControllerProtocol {
 
     /// Load handled routes
     func boot(routes: RoutesBuilder) throws {
@@ -23,11 +23,15 @@ struct LogoutController: RouteCollection {
     /// Logout do need a refresh to retrieve the cookie.
     /// Logout finalize will return to `post_logout_redirect_uri`
     ///
+    /// A client that identifies itself with `client_id` or `id_token_hint` can only return to its own
+    /// `redirect_urls` and gets its `state` back, see ``LogoutRequest``. The finalize link names the client, so
+    /// `/logout/finalize` checks the `post_logout_redirect_uri` again before it returns the `state`.
+    ///
     /// - Parameter req: Request
     /// - Returns: A view that shows a message and redirects to the /logout/finalize route
-    /// - Throws: an Vapor.Error if rendering fails
+    /// - Throws: an Vapor.Error if rendering fails, or if the client or its `post_logout_redirect_uri` is not valid
     @Sendable func startLogoutRefresh(req: Request) async throws -> View {
-        let post_logout_redirect_uri: String? = try? req.query.get(at: "post_logout_redirect_uri")
+        let logoutRequest = try req.query.decode(LogoutRequest.self)
 
         let jwt = try? await req.jwt.verify(as: Payload.self)
         var tenant: Tenant?
@@ -35,16 +39,33 @@ struct LogoutController: RouteCollection {
             let tenantName = jwt.tenant
             tenant = await Tenant.find(in: req.application.entityStorage, name: tenantName)
         }
+
+        var redirectingClient: UitsmijterClient?
+        if logoutRequest.isInitiatedByClient {
+            let client = try await logoutClient(of: logoutRequest, on: req)
+            if let postLogoutRedirectUri = logoutRequest.post_logout_redirect_uri {
+                try checkPostLogoutRedirect(postLogoutRedirectUri, of: client, on: req)
+                redirectingClient = client
+            }
+            if tenant == nil {
+                tenant = await Tenant.find(in: req.application.entityStorage, name: client.config.tenantname)
+            }
+        }
         Log.info(
             """
                 Start logout \(jwt?.subject.value ?? "-") from tenant: \(tenant?.name ?? "-")
                 """, requestId: req.id)
 
+        let location = logoutRequest.post_logout_redirect_uri ?? req.headers.first(name: "Referer") ?? "/"
         return try await req.view.render(
             Template.getPath(page: "logout", request: req),
             PageProperties(
                 title: "Logout",
-                requestUri: post_logout_redirect_uri ?? req.headers.first(name: "Referer") ?? "/",
+                requestUri: finalizeQuery(
+                    location: location,
+                    clientId: redirectingClient?.config.ident.uuidString,
+                    state: redirectingClient != nil ? logoutRequest.state : nil
+                ),
                 serviceUrl: "//" + (req.headers.first(name: "Host") ?? Constants.PUBLIC_DOMAIN),
                 requestInfo: req.requestInfo,
                 tenant: tenant
@@ -53,9 +74,13 @@ struct LogoutController: RouteCollection {
     }
 
     /// Logs the user out and invalids the cookie, then return to the Refers `location`
+    ///
+    /// The `state` is returned only to a `location` that the named `client_id` allows as `post_logout_redirect_uri`.
     @Sendable func doLogout(req: Request) async throws -> Response {
         // get the location parameter for redirect back to the client
-        let locationRedirect: String = try req.query.get(at: "location") ?? "/"
+        let requestedLocation: String = try req.query.get(at: "location") ?? "/"
+        let clientId: String? = try? req.query.get(at: "client_id")
+        let state: String? = try? req.query.get(at: "state")
 
         // Verify the JWT if present. Some browsers (notably WebKit/Safari) may
         // not send SameSite=Strict cookies on meta-refresh navigations, so the
@@ -77,7 +102,17 @@ struct LogoutController: RouteCollection {
             tenant = req.clientInfo?.tenant
         }
 
-        // construct the redirect
+        // construct the redirect, the location has to stay on the tenant. Only the location of a client
+        // gets the state of the client back.
+        var locationRedirect: String
+        if let clientId, let clientLocation = await clientLocation(requestedLocation, of: clientId, on: req) {
+            locationRedirect = clientLocation
+            if let state {
+                locationRedirect = location(locationRedirect, withState: state)
+            }
+        } else {
+            locationRedirect = await allowedLocation(requestedLocation, of: tenant, on: req)
+        }
         let response = req.redirect(to: locationRedirect)
 
         // Invalidate cookies on all relevant domains.
@@ -118,11 +153,13 @@ struct LogoutController: RouteCollection {
         response.headers.bearerAuthorization = nil
 
         // destroy the session (if any) and wipe tokens that still exist.
+        // The clients of the wiped tokens are notified on their back-channel.
         req.session.destroy()
         if let tenant, let subject = jwt?.subject.value {
-            await req.application.authCodeStorage?.wipe(
+            let sessions = await req.application.authCodeStorage?.wipe(
                 tenant: tenant, subject: subject
-            )
+            ) ?? []
+            await notifyBackchannelLogout(of: sessions, tenant: tenant, on: req)
         }
 
         // Record logout event (Prometheus metrics + entity status update)
@@ -141,6 +178,187 @@ struct LogoutController: RouteCollection {
         return response
     }
 
+    /// The client that initiated the logout
+    ///
+    /// The client is named by the `client_id` or by the audience of the `id_token_hint`. If both are present,
+    /// the audience has to contain the `client_id`.
+    ///
+    /// - Parameters:
+    ///   - logoutRequest: The logout request of the client
+    ///   - req: Request
+    /// - Returns: The client, on the tenant of the requested host
+    /// - Throws: A `.badRequest` error for an invalid `id_token_hint`, `.notFound` for an unknown client
+    private func logoutClient(of logoutRequest: LogoutRequest, on req: Request) async throws -> UitsmijterClient {
+        var clientId = logoutRequest.client_id
+        if let idTokenHint = logoutRequest.id_token_hint {
+            let signerManager = req.application.signerManager ?? SignerManager.shared
+            guard let idToken = try? await signerManager.verify(idTokenHint, as: IdTokenHint.self).idToken else {
+                Log.warning("Logout with an invalid id_token_hint", requestId: req.id)
+                throw Abort(.badRequest, reason: "ERRORS.INVALID_ID_TOKEN_HINT")
+            }
+            let audience = idToken.audience.value
+            if let clientId, audience.contains(where: { $0.lowercased() == clientId.lowercased() }) == false {
+                Log.warning("Logout of client \(clientId) with an id_token_hint for \(audience)", requestId: req.id)
+                throw Abort(.badRequest, reason: "ERRORS.INVALID_ID_TOKEN_HINT")
+            }
+            try await checkIssuer(of: idToken, on: req)
+            clientId = clientId ?? audience.first
+        }
+        guard let clientId else {
+            throw Abort(.badRequest, reason: "ERRORS.NO_CLIENT")
+        }
+        return try await client(for: ClientIdParameter(client_id: clientId), request: req)
+    }
+
+    /// Checks that the `id_token_hint` was issued by the tenant of the requested host
+    ///
+    /// The issuer of an ID Token is the host of its token request. Hosts without a tenant do not restrict the hint,
+    /// the client is checked against the tenant of the host anyway.
+    ///
+    /// - Parameters:
+    ///   - idToken: The verified ID Token of the hint
+    ///   - req: Request
+    /// - Throws: A `.badRequest` error if the issuer does not belong to the tenant of the requested host
+    private func checkIssuer(of idToken: IdTokenPayload, on req: Request) async throws {
+        guard let tenant = await hostTenant(on: req) else {
+            return
+        }
+        var issuerTenant: Tenant?
+        if let issuerHost = URLComponents(string: idToken.issuer.value)?.host {
+            issuerTenant = await Tenant.find(in: req.application.entityStorage, forHost: issuerHost)
+        }
+        if issuerTenant?.name != tenant.name {
+            Log.warning("""
+                        Logout on tenant \(tenant.name) with an id_token_hint of \(idToken.issuer.value)
+                        """, requestId: req.id)
+            throw Abort(.badRequest, reason: "ERRORS.INVALID_ID_TOKEN_HINT")
+        }
+    }
+
+    /// Checks that the `post_logout_redirect_uri` is one of the `redirect_urls` of the client
+    ///
+    /// - Parameters:
+    ///   - postLogoutRedirectUri: The requested `post_logout_redirect_uri`
+    ///   - client: The client that initiated the logout
+    ///   - req: Request
+    /// - Throws: A `.badRequest` error if it is not an url, `.forbidden` if the client does not allow it
+    private func checkPostLogoutRedirect(
+        _ postLogoutRedirectUri: String,
+        of client: UitsmijterClient,
+        on req: Request
+    ) throws {
+        guard let redirect = try? RedirectUri(postLogoutRedirectUri) else {
+            throw Abort(.badRequest, reason: "ERRORS.REDIRECT_NOT_URL")
+        }
+        do {
+            try client.checkedRedirect(for: redirect)
+        } catch {
+            Log.warning("""
+                        Logout redirect \(postLogoutRedirectUri) is not allowed for client \(client.name)
+                        """, requestId: req.id)
+            throw Abort(.forbidden, reason: "ERRORS.REDIRECT_MISMATCH")
+        }
+    }
+
+    /// Returns the location if the client allows it as `post_logout_redirect_uri`
+    ///
+    /// - Parameters:
+    ///   - location: The requested `location`
+    ///   - clientId: The `client_id` of the finalize link
+    ///   - req: Request
+    /// - Returns: The location, `nil` if the client is not valid on the requested host or does not allow it
+    private func clientLocation(_ location: String, of clientId: String, on req: Request) async -> String? {
+        do {
+            let client = try await client(for: ClientIdParameter(client_id: clientId), request: req)
+            try checkPostLogoutRedirect(location, of: client, on: req)
+            return location
+        } catch {
+            Log.warning("Logout location \(location) is not a location of client \(clientId)", requestId: req.id)
+            return nil
+        }
+    }
+
+    /// The query of `/logout/finalize` after `location=`
+    ///
+    /// Templates link to `/logout/finalize?location=#(requestUri)`, the `client_id` and `state` follow as parameters
+    /// of their own.
+    ///
+    /// - Parameters:
+    ///   - location: The location to return to after the logout
+    ///   - clientId: The `client_id` of the client whose `post_logout_redirect_uri` the location is, if any
+    ///   - state: The `state` of the client, if any
+    /// - Returns: The encoded location, followed by the encoded client id and state
+    private func finalizeQuery(location: String, clientId: String?, state: String?) -> String {
+        var query = Self.queryValue(location)
+        if let clientId {
+            query += "&client_id=" + Self.queryValue(clientId)
+        }
+        if let state {
+            query += "&state=" + Self.queryValue(state)
+        }
+        return query
+    }
+
+    /// Appends the `state` of the client to the location
+    ///
+    /// - Parameters:
+    ///   - location: The allowed location
+    ///   - state: The `state` of the client
+    /// - Returns: The location with the `state` as a query parameter
+    private func location(_ location: String, withState state: String) -> String {
+        guard var components = URLComponents(string: location) else {
+            return location
+        }
+        let query = [components.percentEncodedQuery, "state=" + Self.queryValue(state)]
+            .compactMap { $0 }
+            .filter { $0.isEmpty == false }
+        components.percentEncodedQuery = query.joined(separator: "&")
+        return components.string ?? location
+    }
+
+    /// Percent encodes everything but the unreserved characters of RFC 3986
+    private static func queryValue(_ value: String) -> String {
+        value.addingPercentEncoding(withAllowedCharacters: unreservedCharacters) ?? value
+    }
+
+    private static let unreservedCharacters = CharacterSet(
+        charactersIn: "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-._~"
+    )
+
+    /// Returns the location if the tenant allows to redirect to it, `/` otherwise.
+    ///
+    /// Without the tenant of the user the tenant of the requested host decides, without both only paths on the
+    /// requested host are allowed.
+    ///
+    /// - Parameters:
+    ///   - location: The requested `location`
+    ///   - tenant: The tenant of the user, if known
+    ///   - req: Request
+    /// - Returns: The location to redirect to
+    private func allowedLocation(_ location: String, of tenant: Tenant?, on req: Request) async -> String {
+        guard let redirect = try? RedirectUri(location) else {
+            Log.warning("Logout location \(location) is not an url, redirect to /", requestId: req.id)
+            return "/"
+        }
+        var policyTenant = tenant
+        if policyTenant == nil {
+            policyTenant = await hostTenant(on: req)
+        }
+        let allowed: Bool
+        if let policyTenant {
+            allowed = await policyTenant.allowsRedirect(redirect, in: req.application.entityStorage)
+        } else {
+            allowed = redirect.isPath
+        }
+        if allowed == false {
+            Log.warning("""
+                        Logout location \(location) is not allowed on tenant \(policyTenant?.name ?? "-"), redirect to /
+                        """, requestId: req.id)
+            return "/"
+        }
+        return location
+    }
+
     /// Collects all distinct cookie domains that need invalidation.
     ///
     /// When a tenant has an interceptor domain configured (e.g. `.ops.example.com`)
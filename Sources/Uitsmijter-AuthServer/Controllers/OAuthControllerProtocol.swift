@@ -9,22 +9,107 @@ extension OAuthControllerProtocol {
 
     /// get the client for the auth request
     ///
+    /// On a host of a tenant only the clients of that tenant are served. Client idents may repeat across tenants,
+    /// the client of the tenant of the host is preferred.
+    ///
     /// - Parameters:
     ///   - objectWithClientId: Request type with a client_id, eg. AuthRequestProtocol
     ///   - request: The current request
     /// - Returns: A Client
-    /// - Throws: if the client is not found
+    /// - Throws: if the client is not found, or if it belongs to another tenant than the requested host
     ///
     func client(for objectWithClientId: ClientIdProtocol, request: Request) async throws -> UitsmijterClient {
         let clientId = objectWithClientId.client_id
-        let foundClient = await UitsmijterClient.find(in: request.application.entityStorage, clientId: clientId)
+        let foundClient = await UitsmijterClient.find(
+            in: request.application.entityStorage,
+            clientId: clientId,
+            forHost: requestedHost(on: request)
+        )
         guard let client = foundClient else {
             Log.error("Unable to find client \(objectWithClientId.client_id)")
             throw Abort(.notFound, reason: "ERRORS.NO_CLIENT")
         }
+        try await checkTenant(of: client, on: request)
         return client
     }
 
+    /// The host that is requested, behind a proxy the `X-Forwarded-Host`
+    ///
+    /// - Parameter request: The current request
+    /// - Returns: The requested host, if the request has one
+    ///
+    func requestedHost(on request: Request) -> String? {
+        request.headers.first(name: "X-Forwarded-Host") ?? request.headers.first(name: .host)
+    }
+
+    /// The tenant that is responsible for the requested host
+    ///
+    /// - Parameter request: The current request
+    /// - Returns: The tenant of the requested host, `nil` for hosts without a tenant (e.g. localhost)
+    ///
+    func hostTenant(on request: Request) async -> Tenant? {
+        guard let host = requestedHost(on: request) else {
+            return nil
+        }
+        return await Tenant.find(in: request.application.entityStorage, forHost: host)
+    }
+
+    /// The verified payload of the access token of the `Authorization: Bearer` header
+    ///
+    /// - Parameter request: The current request
+    /// - Returns: The payload of an access token that is not expired, not revoked and valid on the requested host
+    /// - Throws: An `.unauthorized` error if the token is missing or not valid
+    ///
+    func bearerPayload(on request: Request) async throws -> Payload {
+        guard let authHeader = request.headers[.authorization].first,
+              authHeader.hasPrefix("Bearer "),
+              let tokenString = authHeader.split(separator: " ", maxSplits: 1).last.map(String.init) else {
+            Log.warning("Missing or invalid Authorization header", requestId: request.id)
+            throw Abort(.unauthorized, reason: "ERRORS.INVALID_TOKEN")
+        }
+
+        // Use SignerManager to verify token (supports both HS256 and RS256)
+        let signerManager = request.application.signerManager ?? SignerManager.shared
+        let payload = try await signerManager.verify(tokenString, as: Payload.self)
+
+        do {
+            try payload.expiration.verifyNotExpired(currentDate: Date())
+        } catch {
+            Log.info("""
+                     Token is expired for \(payload.subject) tenant: \(request.clientInfo?.tenant?.name ?? "-")
+                     """, requestId: request.id)
+            throw Abort(.unauthorized, reason: "ERRORS.EXPIRED_TOKEN")
+        }
+        if await request.application.authCodeStorage?.isRevoked(accessToken: tokenString) == true {
+            Log.info("Token of \(payload.subject) has been revoked", requestId: request.id)
+            throw Abort(.unauthorized, reason: "ERRORS.INVALID_TOKEN")
+        }
+        // Tenants may share a secret, a token is only valid on the hosts of its own tenant
+        if let tenant = await hostTenant(on: request), payload.tenant != tenant.name {
+            Log.info("Token of tenant \(payload.tenant) is presented to tenant \(tenant.name)", requestId: request.id)
+            throw Abort(.unauthorized, reason: "ERRORS.TENANT_MISMATCH")
+        }
+        return payload
+    }
+
+    /// Checks that the client is requested on a host of its own tenant
+    ///
+    /// - Parameters:
+    ///   - client: The requested client
+    ///   - request: The current request
+    /// - Throws: A `.forbidden` error if the host belongs to another tenant
+    ///
+    func checkTenant(of client: UitsmijterClient, on request: Request) async throws {
+        guard let tenant = await hostTenant(on: request), client.config.tenantname != tenant.name else {
+            return
+        }
+        Log.error("""
+                  Client \(client.name) of tenant \(client.config.tenantname)
+                  is requested on a host of tenant \(tenant.name)
+                  """, requestId: request.id)
+        throw Abort(.forbidden, reason: "ERRORS.TENANT_MISMATCH")
+    }
+
     /// Returns a subset of the requested scopes that are allowed by the client
     ///
     /// - Parameters:
@@ -156,9 +156,10 @@ struct RevokeController: RouteCollection {
         tenant: Tenant,
         storage: EntityStorage
     ) -> Client? {
-        // Find client by ID
+        // Find client by its ident (the `client_id` used in all OAuth requests) or by its name
         guard let client = storage.clients.first(where: { client in
-            client.name == clientId && client.config.tenantname == tenant.name
+            (client.config.ident.uuidString.lowercased() == clientId.lowercased() || client.name == clientId)
+                && client.config.tenantname == tenant.name
         }) else {
             // Note: We can't log with request ID here since we don't have req parameter
             // Using Logger directly without request context
@@ -269,12 +270,10 @@ struct RevokeController: RouteCollection {
     /// This method:
     /// 1. Attempts to parse the token as a JWT
     /// 2. Validates token ownership (audience claim must match client_id)
-    /// 3. Since JWTs are stateless, revocation is logged but no storage update is needed
+    /// 3. Remembers the token as revoked in AuthCodeStorage until it expires
     ///
-    /// **Note**: JWT access tokens are stateless and cannot be truly revoked in Uitsmijter's
-    /// current architecture. The revocation is logged for audit purposes, but the token
-    /// will remain valid until expiration. Future enhancement could implement a token
-    /// blacklist or reduce token lifetimes.
+    /// **Note**: JWT access tokens are stateless, resource servers that verify the signature only
+    /// will accept the token until it expires. `/token/info` and `/introspect` reject revoked tokens.
     ///
     /// - Parameters:
     ///   - token: The JWT token string
@@ -298,9 +297,8 @@ struct RevokeController: RouteCollection {
         }
 
         // Validate token ownership: audience must match client_id
-        // AudienceClaim.value is an array [String], so check if it contains the client_id
         let audienceValues = parsedToken.payload.audience.value
-        guard audienceValues.contains(client.name) else {
+        guard isAudience(audienceValues, of: client) else {
             Log.warning(
                 "Token ownership validation failed: token belongs to '\(audienceValues.joined(separator: ","))', " +
                 "but client '\(client.name)' tried to revoke it",
@@ -310,11 +308,23 @@ struct RevokeController: RouteCollection {
             return false
         }
 
-        // JWT access tokens are stateless, so we can't truly revoke them
-        // Log the revocation for audit purposes
+        guard let authCodeStorage = req.application.authCodeStorage else {
+            Log.warning("AuthCodeStorage not available", requestId: req.id)
+            return false
+        }
+        do {
+            try await authCodeStorage.revoke(accessToken: token, until: parsedToken.payload.expiration.value)
+        } catch {
+            Log.error("Failed to revoke access token: \(error)", requestId: req.id)
+            Prometheus.main.revokeFailure?.inc(1, [
+                ("tenant", parsedToken.payload.tenant),
+                ("client", client.name),
+                ("reason", "storage_error")
+            ])
+            return false
+        }
         Log.info(
-            "Access token revoked for client '\(client.name)', subject '\(parsedToken.payload.subject.value)' " +
-            "(note: JWT will remain valid until expiration)",
+            "Access token revoked for client '\(client.name)', subject '\(parsedToken.payload.subject.value)'",
             requestId: req.id
         )
 
@@ -325,9 +335,6 @@ struct RevokeController: RouteCollection {
             ("token_type", "access_token")
         ])
 
-        // swiftlint:disable:next todo
-        // TODO: Future enhancement - implement token blacklist or reduce token lifetimes
-        // For now, just return success
         return true
     }
 
@@ -368,9 +375,8 @@ struct RevokeController: RouteCollection {
         }
 
         // Validate token ownership: audience must match client_id
-        // AudienceClaim.value is an array [String], so check if it contains the client_id
         let audienceValues = payload.audience.value
-        guard audienceValues.contains(client.name) else {
+        guard isAudience(audienceValues, of: client) else {
             let audiences = audienceValues.joined(separator: ",")
             Log.warning(
                 "Token ownership validation failed: refresh token belongs to '\(audiences)', " +
@@ -424,6 +430,16 @@ struct RevokeController: RouteCollection {
         }
     }
 
+    /// Checks if a token audience belongs to the client.
+    ///
+    /// - Parameters:
+    ///   - audience: The values of the token's `aud` claim
+    ///   - client: The authenticated client
+    /// - Returns: true if one of the audience values identifies the client, see ``Client/isAudience(_:)``
+    private func isAudience(_ audience: [String], of client: Client) -> Bool {
+        audience.contains(where: client.isAudience)
+    }
+
     /// Token lookup strategy
     private enum TokenLookupStrategy {
         case accessToken
@@ -34,6 +34,8 @@ extension TokenController {
             token = try await passwordGrantTypeRequestHandler(for: tenant, on: req, scope: scope)
         case .device_code:
             token = try await deviceCodeGrantTypeRequestHandler(for: tenant, on: req)
+        case .client_credentials:
+            token = try await clientCredentialsGrantTypeRequestHandler(for: tenant, on: req, scope: scope)
         default:
             throw Abort(.notImplemented, reason: "ERRORS.GRANT_TYPE_NOT_IMPLEMENTED")
         }
@@ -55,6 +57,12 @@ extension TokenController {
     ) throws {
         // check code challenge if set — only applicable for authorization code sessions
         guard case .code(let codeSession) = session else { return }
+        if [.plain, .sha256].contains(codeSession.code.codeChallengeMethod)
+            && authorisationTokenRequest.code_verifier != nil
+            && authorisationTokenRequest.hasValidCodeVerifier == false {
+            req.requestInfo = RequestInfo(description: "The code_verifier must have 43 to 128 unreserved characters")
+            throw Abort(.badRequest, reason: "ERRORS.INVALID_CODE_VERIFIER")
+        }
         switch codeSession.code.codeChallengeMethod {
         case .plain:
             if authorisationTokenRequest.code_challenge_method != nil
@@ -151,7 +159,8 @@ extension TokenController {
             token_type: .Bearer,
             expires_in: accessToken.secondsToExpire,
             refresh_token: refreshToken.value,
-            scope: userScopes
+            scope: userScopes,
+            id_token: try await idToken(for: accessToken, nonce: session.nonce, tenant: tenant, on: req)
         )
     }
 
@@ -203,7 +212,9 @@ extension TokenController {
             token_type: .Bearer,
             expires_in: accessToken.secondsToExpire,
             refresh_token: refreshToken.value,
-            scope: userScopes
+            scope: userScopes,
+            // A refreshed ID Token carries no nonce (OIDC Core 1.0, Section 12.2)
+            id_token: try await idToken(for: accessToken, nonce: nil, tenant: tenant, on: req)
         )
     }
 
@@ -270,14 +281,7 @@ extension TokenController {
         // Merge filtered requested scopes with filtered provider scopes
         let finalScopes = Array(Set(requestedScopes + providerScopes)).sorted()
 
-        // Construct issuer from request
-        let scheme = req.headers.first(name: "X-Forwarded-Proto")
-            ?? (Constants.TOKEN.isSecure ? "https" : "http")
-        let host = req.headers.first(name: "X-Forwarded-Host")
-            ?? req.headers.first(name: "Host")
-            ?? tenant.config.hosts.first
-            ?? Constants.PUBLIC_DOMAIN
-        let issuer = "\(scheme)://\(host)"
+        let issuer = tokenIssuer(for: tenant, on: req)
 
         let accessToken = try await Token(
             issuer: IssuerClaim(value: issuer),
@@ -356,7 +360,10 @@ extension TokenController {
             throw Abort(.badRequest, reason: "ERRORS.ACCESS_DENIED")
 
         case .pending:
-            Prometheus.main.deviceFlowPending?.inc()
+            Prometheus.main.deviceFlowPending?.inc(1, [
+                ("tenant", tenant.name),
+                ("client", client?.name ?? "unknown")
+            ])
             throw Abort(.badRequest, reason: "ERRORS.AUTHORIZATION_PENDING")
 
         case .authorized:
@@ -380,18 +387,128 @@ extension TokenController {
                 scopes: userScopes.components(separatedBy: " ")
             )
 
-            Prometheus.main.deviceFlowSuccess?.inc()
+            Prometheus.main.deviceFlowSuccess?.inc(1, [
+                ("tenant", tenant.name),
+                ("client", client?.name ?? "unknown")
+            ])
 
             return TokenResponse(
                 access_token: accessToken.value,
                 token_type: .Bearer,
                 expires_in: accessToken.secondsToExpire,
                 refresh_token: refreshToken.value,
-                scope: userScopes
+                scope: userScopes,
+                id_token: try await idToken(for: accessToken, nonce: nil, tenant: tenant, on: req)
             )
         }
     }
 
+    private func clientCredentialsGrantTypeRequestHandler(
+        for tenant: Tenant,
+        on req: Request,
+        scope: String?
+    ) async throws -> TokenResponse {
+        let clientCredentialsRequest = try req.content.decode(ClientCredentialsTokenRequest.self)
+        let client = try await client(for: clientCredentialsRequest, request: req)
+
+        // Only confidential clients can authenticate themselves. The secret is already checked in `requestToken`
+        guard let secret = client.config.secret, !secret.isEmpty else {
+            Log.error("Client \(client.name) has no secret and can not use client_credentials", requestId: req.id)
+            throw Abort(.unauthorized, reason: "ERRORS.CLIENT_NOT_CONFIDENTIAL")
+        }
+
+        // Without a requested scope the client gets all of its scopes that are not patterns
+        let requestedScopes = scope?.components(separatedBy: " ").filter { !$0.isEmpty } ?? []
+        let grantedScopes = requestedScopes.isEmpty
+            ? (client.config.scopes ?? []).filter { !$0.contains("*") }
+            : allowedScopes(on: client, for: requestedScopes)
+        let finalScopes = Array(Set(grantedScopes)).sorted()
+
+        Log.info(
+            "Client credentials granted to \(client.name) with scopes: \(finalScopes.joined(separator: " "))",
+            requestId: req.id
+        )
+
+        // The client is the subject of its own token, there is no user behind it
+        let accessToken = try await Token(
+            issuer: IssuerClaim(value: tokenIssuer(for: tenant, on: req)),
+            audience: AudienceClaim(value: clientCredentialsRequest.client_id),
+            tenantName: tenant.name,
+            subject: JWT.SubjectClaim(value: clientCredentialsRequest.client_id),
+            userProfile: UserProfile(
+                role: "client",
+                user: client.name,
+                scope: finalScopes.joined(separator: " "),
+                profile: nil
+            ),
+            authTime: Date(),
+            algorithmString: tenant.config.effectiveJwtAlgorithm,
+            signerManager: req.application.signerManager
+        )
+
+        return TokenResponse(
+            access_token: accessToken.value,
+            token_type: .Bearer,
+            expires_in: accessToken.secondsToExpire,
+            // A refresh token should not be included for client credentials (RFC 6749, Section 4.4.3)
+            refresh_token: nil,
+            scope: finalScopes.joined(separator: " ")
+        )
+    }
+
+    /// An OpenID Connect ID Token that is issued together with the access token
+    ///
+    /// The ID Token shares issuer, subject, audience, expiration and `auth_time` with the access token and carries
+    /// the standard claims of the granted scopes.
+    ///
+    /// - Parameters:
+    ///   - accessToken: The access token that is issued together with the ID Token
+    ///   - nonce: The nonce of the authorization request
+    ///   - tenant: The tenant whose signing algorithm is used
+    ///   - req: The request context
+    /// - Returns: The encoded ID Token, or nil if the `openid` scope is not granted
+    private func idToken(
+        for accessToken: Token,
+        nonce: String?,
+        tenant: Tenant,
+        on req: Request
+    ) async throws -> String? {
+        let payload = accessToken.payload
+        let scopes = payload.scope.components(separatedBy: .whitespaces)
+        guard scopes.contains("openid") else {
+            return nil
+        }
+
+        let idTokenPayload = IdTokenPayload(
+            issuer: payload.issuer,
+            subject: payload.subject,
+            audience: payload.audience,
+            expiration: payload.expiration,
+            issuedAt: payload.issuedAt,
+            authTime: payload.authTime,
+            nonce: nonce,
+            accessTokenHash: IdTokenPayload.accessTokenHash(of: accessToken.value),
+            claims: ScopeClaims.claims(of: payload.profile, for: scopes)
+        )
+        let signerManager = req.application.signerManager ?? SignerManager.shared
+        let (idToken, _) = try await signerManager.sign(
+            idTokenPayload,
+            algorithmString: tenant.config.effectiveJwtAlgorithm
+        )
+        return idToken
+    }
+
+    /// The issuer of new tokens, constructed from the request
+    private func tokenIssuer(for tenant: Tenant, on req: Request) -> String {
+        let scheme = req.headers.first(name: "X-Forwarded-Proto")
+            ?? (Constants.TOKEN.isSecure ? "https" : "http")
+        let host = req.headers.first(name: "X-Forwarded-Host")
+            ?? req.headers.first(name: "Host")
+            ?? tenant.config.hosts.first
+            ?? Constants.PUBLIC_DOMAIN
+        return "\(scheme)://\(host)"
+    }
+
     func getNewTokenPair(
         on req: Request,
         tenant: Tenant,
@@ -408,14 +525,7 @@ extension TokenController {
             profile: payload.profile
         )
 
-        // Construct issuer from request
-        let scheme = req.headers.first(name: "X-Forwarded-Proto")
-            ?? (Constants.TOKEN.isSecure ? "https" : "http")
-        let host = req.headers.first(name: "X-Forwarded-Host")
-            ?? req.headers.first(name: "Host")
-            ?? tenant.config.hosts.first
-            ?? Constants.PUBLIC_DOMAIN
-        let issuer = "\(scheme)://\(host)"
+        let issuer = tokenIssuer(for: tenant, on: req)
 
         // Get client_id for audience
         let tokenRequest = try req.content.decode(TokenRequest.self)
@@ -159,38 +159,12 @@ struct TokenController: RouteCollection, OAuthControllerProtocol {
     /// - Returns: A `Response` with a json encoded profile
     /// - Throws: An error if the user is not authenticated, or something wend wrong with the serialisation.
     @Sendable func getTokenInfo(req: Request) async throws -> Response {
-        // Extract Bearer token from Authorization header
-        guard let authHeader = req.headers[.authorization].first,
-              authHeader.hasPrefix("Bearer "),
-              let tokenString = authHeader.split(separator: " ", maxSplits: 1).last.map(String.init) else {
-            Log.warning("Missing or invalid Authorization header in token info request", requestId: req.id)
-            throw Abort(.unauthorized, reason: "ERRORS.INVALID_TOKEN")
-        }
-
         do {
-            // Use SignerManager to verify token (supports both HS256 and RS256)
-            let signerManager = req.application.signerManager ?? SignerManager.shared
-            let payload = try await signerManager.verify(tokenString, as: Payload.self)
-
-            do {
-                try payload.expiration.verifyNotExpired(currentDate: Date())
-            } catch {
-                Log.info("""
-                         Token is expired for \(payload.subject) tenant: \(req.clientInfo?.tenant?.name ?? "-")
-                         """, requestId: req.id)
-                throw Abort(.unauthorized, reason: "ERRORS.EXPIRED_TOKEN")
-            }
+            let payload = try await bearerPayload(on: req)
             // If the profile is a plain string containing JSON (e.g. from a JS provider using
             // JSON.stringify), decode it into a proper CodableProfile object first to avoid
             // double-encoding.
-            let profileToEncode: CodableProfile?
-            if case .string(let jsonString) = payload.profile,
-               let data = jsonString.data(using: .utf8),
-               let decoded = try? JSONDecoder().decode(CodableProfile.self, from: data) {
-                profileToEncode = decoded
-            } else {
-                profileToEncode = payload.profile
-            }
+            let profileToEncode = payload.profile?.jsonDecoded
             let profile = try JSONEncoder.main.encode(profileToEncode)
 
             let response = Response(
@@ -0,0 +1,75 @@
+import Foundation
+import Vapor
+import Logger
+
+/// Controller handling the OpenID Connect UserInfo endpoint
+///
+/// This controller implements the UserInfo endpoint as specified in
+/// [OIDC Core 1.0, Section 5.3](https://openid.net/specs/openid-connect-core-1_0.html#UserInfo).
+///
+/// Clients present an access token that was issued for the `openid` scope and receive the claims about the
+/// authenticated user. The claims are taken from the profile of the login provider and filtered by the
+/// granted scopes, see ``ScopeClaims``.
+///
+/// ## Endpoint
+///
+/// ```
+/// GET  /userinfo
+/// POST /userinfo
+/// ```
+///
+/// ## Example Response
+///
+/// ```json
+/// {
+///   "sub": "alice@example.com",
+///   "name": "Alice",
+///   "email": "alice@example.com"
+/// }
+/// ```
+///
+/// - SeeAlso: `GET /token/info` for the unfiltered profile of the access token
+struct UserInfoController: RouteCollection, OAuthControllerProtocol {
+
+    /// Registers the UserInfo endpoint routes with the application.
+    ///
+    /// - Parameter routes: The routes builder to register endpoints with
+    /// - Throws: Routing configuration errors
+    func boot(routes: RoutesBuilder) throws {
+        routes.get("userinfo", use: { @Sendable (req: Request) async throws -> Response in
+            try await self.userInfo(req: req)
+        })
+        routes.post("userinfo", use: { @Sendable (req: Request) async throws -> Response in
+            try await self.userInfo(req: req)
+        })
+    }
+
+    /// GET|POST /userinfo - Claims about the authenticated user
+    ///
+    /// - Parameter req: The incoming HTTP request with a Bearer access token
+    /// - Returns: A json object with the `sub` and the claims of the granted scopes
+    /// - Throws: An `.unauthorized` error for an invalid token, `.forbidden` if the `openid` scope is not granted
+    @Sendable func userInfo(req: Request) async throws -> Response {
+        let payload: Payload
+        do {
+            payload = try await bearerPayload(on: req)
+        } catch {
+            Log.error("UserInfo token verification failed: \(error)", requestId: req.id)
+            throw Abort(.unauthorized, reason: "ERRORS.INVALID_TOKEN")
+        }
+
+        let scopes = payload.scope.components(separatedBy: .whitespaces)
+        guard scopes.contains("openid") else {
+            Log.info("UserInfo of \(payload.subject.value) requested without the openid scope", requestId: req.id)
+            throw Abort(.forbidden, reason: "ERRORS.INSUFFICIENT_SCOPE")
+        }
+
+        var claims = ScopeClaims.claims(of: payload.profile, for: scopes)
+        claims["sub"] = .string(payload.subject.value)
+
+        let response = Response(body: .init(data: try JSONEncoder.main.encode(claims)))
+        response.status = .ok
+        response.headers.add(name: "Content-Type", value: "application/json")
+        return response
+    }
+}
@@ -28,6 +28,8 @@ extension Client {
     /// - Prevents open redirect attacks
     /// - Special case: `/authorize?...` is always allowed for OAuth flow
     /// - Patterns are matched using regular expressions
+    /// - Ambiguous redirect URIs are rejected, see ``RedirectUriProtocol/isUnambiguous``
+    /// - Patterns have to allow the host, see ``RedirectUriProtocol/isAllowed(by:)``
     ///
     /// ## Example
     ///
@@ -56,17 +58,19 @@ extension Client {
         let redirect = objectWithRedirect.redirect_uri.absoluteString
 
         // oauth authorize redirects to "/authorize?..." - we allow this
-        if redirect.starts(with: "/authorize?") {
+        if objectWithRedirect.isPath && redirect.starts(with: "/authorize?") {
             return redirect
         }
 
+        guard objectWithRedirect.isUnambiguous else {
+            Log.debug("Check \(redirect): ambiguous redirect")
+            throw ClientError.illegalRedirect(redirect: redirect)
+        }
+
         let passedRedirectRules = self.config.redirect_urls.compactMap { allowedRedirectionPattern -> Bool in
-            let result = redirect.range(
-                of: allowedRedirectionPattern,
-                options: .regularExpression
-            )
-            Log.debug("Check \(redirect) | \(allowedRedirectionPattern): \(result?.description ?? "nil")")
-            return result != nil
+            let result = objectWithRedirect.isAllowed(by: allowedRedirectionPattern)
+            Log.debug("Check \(redirect) | \(allowedRedirectionPattern): \(result)")
+            return result
         }
 
         if passedRedirectRules.contains(where: { $0 != false }) == false {
@@ -16,9 +16,14 @@ extension Client: EntityFindResourceReferenceProtocol {}
 ///
 /// ### Lookup Methods
 /// - ``find(in:clientId:)``
+/// - ``find(in:clientId:tenant:)``
+/// - ``find(in:clientId:forHost:)``
 /// - ``find(in:name:tenant:)``
 /// - ``find(in:ref:)``
 ///
+/// ### Matching Methods
+/// - ``isAudience(_:)``
+///
 /// - SeeAlso: ``EntityStorage``
 /// - SeeAlso: ``Tenant``
 extension Client {
@@ -49,6 +54,47 @@ extension Client {
         }
     }
 
+    /// Finds a client by its UUID identifier within a specific tenant.
+    ///
+    /// Client identifiers are not unique across tenants. This method is used when the
+    /// tenant is already known from the requested host.
+    ///
+    /// - Parameters:
+    ///   - storage: The entity storage to search
+    ///   - id: The client's UUID string (case-insensitive)
+    ///   - tenant: The tenant that owns the client
+    /// - Returns: The matching client, or `nil` if the tenant has no client with this identifier
+    ///
+    /// - SeeAlso: ``ClientSpec/ident``
+    @MainActor static func find(in storage: EntityStorage, clientId id: String, tenant: Tenant) -> Client? {
+        storage.clients.first { firstClient in
+            firstClient.config.ident.uuidString.lowercased() == id.lowercased()
+                && firstClient.config.tenantname == tenant.name
+        }
+    }
+
+    /// Finds a client by its UUID identifier for a request on a host.
+    ///
+    /// Prefers the client of the tenant that serves the host, because client identifiers
+    /// are not unique across tenants. Falls back to ``find(in:clientId:)`` for hosts without
+    /// a tenant, or if the tenant has no client with this identifier.
+    ///
+    /// - Parameters:
+    ///   - storage: The entity storage to search
+    ///   - id: The client's UUID string (case-insensitive)
+    ///   - host: The requested host, e.g. from the `X-Forwarded-Host` header
+    /// - Returns: The matching client, or `nil` if not found
+    ///
+    /// - SeeAlso: ``Tenant/find(in:forHost:)``
+    @MainActor static func find(in storage: EntityStorage, clientId id: String, forHost host: String?) -> Client? {
+        if let host,
+           let tenant = Tenant.find(in: storage, forHost: host),
+           let client = find(in: storage, clientId: id, tenant: tenant) {
+            return client
+        }
+        return find(in: storage, clientId: id)
+    }
+
     /// Finds a client by name within a specific tenant.
     ///
     /// This method searches for a client with the given name that belongs to
@@ -86,4 +132,18 @@ extension Client {
             firstClient.ref == ref
         }
     }
+
+    /// Checks if a value of a token audience names this client.
+    ///
+    /// Tokens carry the `client_id` of the token request as audience, which is the client's `ident`.
+    /// The client name is accepted as well, for clients that request tokens by name.
+    ///
+    /// - Parameter audience: A value of the token's `aud` claim
+    /// - Returns: true if the value is the `ident` (case-insensitive) or the name of the client
+    ///
+    /// - SeeAlso: ``ClientSpec/ident``
+    /// - SeeAlso: ``Client/name``
+    func isAudience(_ audience: String) -> Bool {
+        audience.lowercased() == config.ident.uuidString.lowercased() || audience == name
+    }
 }
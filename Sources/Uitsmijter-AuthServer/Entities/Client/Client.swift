@@ -191,6 +191,12 @@ struct ClientSpec: Codable, Sendable {
     /// Requires `device_code` to also be listed in `grant_types`.
     var device_grant_config: DeviceGrantConfig?
 
+    /// URL that receives a `logout_token` when a user of this client logs out.
+    ///
+    /// OpenID Connect Back-Channel Logout 1.0: on logout, every client that received tokens for the user and has
+    /// a `backchannel_logout_uri` gets a signed `logout_token` posted, see ``LogoutTokenPayload``.
+    var backchannel_logout_uri: String?
+
     /// Initialize a client specification.
     ///
     /// - Parameters:
@@ -202,6 +208,8 @@ struct ClientSpec: Codable, Sendable {
     ///   - referrers: Allowed HTTP referers
     ///   - secret: Client secret for confidential clients
     ///   - isPkceOnly: Whether PKCE is required (defaults to false)
+    ///   - device_grant_config: Device Authorization Grant configuration
+    ///   - backchannel_logout_uri: URL that receives the `logout_token` of a logout
     init(
         ident: UUID,
         tenantname: String,
@@ -212,7 +220,8 @@ struct ClientSpec: Codable, Sendable {
         referrers: [String]? = nil,
         secret: String? = nil,
         isPkceOnly: Bool? = false,
-        device_grant_config: DeviceGrantConfig? = nil
+        device_grant_config: DeviceGrantConfig? = nil,
+        backchannel_logout_uri: String? = nil
     ) {
         self.ident = ident
         self.tenantname = tenantname
@@ -224,6 +233,7 @@ struct ClientSpec: Codable, Sendable {
         self.secret = secret
         self.isPkceOnly = isPkceOnly
         self.device_grant_config = device_grant_config
+        self.backchannel_logout_uri = backchannel_logout_uri
     }
 }
 
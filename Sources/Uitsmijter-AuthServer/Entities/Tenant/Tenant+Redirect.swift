@@ -0,0 +1,50 @@
+import Foundation
+import Logger
+
+/// Redirect policy of a tenant.
+///
+/// Locations that are not tied to a single client, like the `location` of a login in interceptor mode or the
+/// target of a logout, are allowed when they stay on the tenant.
+extension Tenant {
+
+    /// Checks if a redirect stays on the tenant.
+    ///
+    /// A redirect is allowed when it is
+    /// - a path on the requested host, e.g. `/authorize?...`
+    /// - on one of the tenant `hosts`, wildcards like `*.example.com` included
+    /// - on the interceptor `domain` of the tenant
+    /// - allowed by the `redirect_urls` of a client of the tenant
+    ///
+    /// Ambiguous redirects are never allowed, see ``RedirectUriProtocol/isUnambiguous``.
+    ///
+    /// ## Example
+    ///
+    /// ```swift
+    /// // Tenant configured with hosts: ["*.example.com"]
+    /// tenant.allowsRedirect(try RedirectUri("https://app.example.com/"), in: storage)    // true
+    /// tenant.allowsRedirect(try RedirectUri("https://evil.com/.example.com"), in: storage) // false
+    /// ```
+    ///
+    /// - Parameters:
+    ///   - redirect: The redirect location wrapped in `RedirectUriProtocol`
+    ///   - storage: The entity storage with the clients of the tenant
+    /// - Returns: True if the redirect stays on the tenant
+    @MainActor func allowsRedirect(_ redirect: RedirectUriProtocol, in storage: EntityStorage) -> Bool {
+        if redirect.isPath {
+            return true
+        }
+        guard let host = redirect.redirectHost else {
+            Log.debug("Redirect \(redirect.redirect_uri) of tenant \(name) is ambiguous")
+            return false
+        }
+
+        let domains = config.hosts + [config.interceptor?.domain].compactMap { $0 }
+        if domains.contains(where: { entry in host == entry.lowercased() || host.matchesWildcard(regex: entry) }) {
+            return true
+        }
+
+        return storage.clients
+            .filter { client in client.config.tenantname == name }
+            .contains { client in (try? client.checkedRedirect(for: redirect)) != nil }
+    }
+}
@@ -321,7 +321,7 @@ final class RequestClientMiddleware: AsyncMiddleware {
         // Get Client - when presented // Refactoring 1.x: Use clientParser | UIT-399
         if let clientId = try? getClientId(on: request) {
             Log.debug("Found client_id: \(clientId) in login prerequisite", requestId: request.id)
-            guard let client = Client.find(in: request.application.entityStorage, clientId: clientId) else {
+            guard let client = findClient(clientId, on: request) else {
                 Log.error("Cannot find client with id \(clientId)", requestId: request.id)
                 throw Abort(.badRequest, reason: "LOGIN.ERRORS.NO_CLIENT")
             }
@@ -417,7 +417,7 @@ final class RequestClientMiddleware: AsyncMiddleware {
             let (loginForLocation, loginForHost) = try getLoginLocation(with: clientInfo, from: location)
             if let clientId = try? getClientId(on: request) {
                 Log.debug("Found client_id: \(clientId) in login prerequisite", requestId: request.id)
-                guard let client = Client.find(in: request.application.entityStorage, clientId: clientId) else {
+                guard let client = findClient(clientId, on: request) else {
                     Log.error("Cannot find client with id \(clientId)", requestId: request.id)
                     throw Abort(.badRequest, reason: "LOGIN.ERRORS.NO_CLIENT")
                 }
@@ -442,7 +442,7 @@ final class RequestClientMiddleware: AsyncMiddleware {
         } else {
             if let clientId = try? getClientId(on: request) {
                 Log.debug("Found client_id: \(clientId) in login prerequisite", requestId: request.id)
-                guard let client = Client.find(in: request.application.entityStorage, clientId: clientId) else {
+                guard let client = findClient(clientId, on: request) else {
                     throw Abort(.badRequest, reason: "LOGIN.ERRORS.NO_CLIENT")
                 }
                 clientInfo.client = client
@@ -516,6 +516,21 @@ final class RequestClientMiddleware: AsyncMiddleware {
         return tenant
     }
 
+    /// Find the client of a `client_id`, the client of the tenant of the requested host first
+    ///
+    /// - Parameters:
+    ///   - clientId: The presented `client_id`
+    ///   - request: The current request
+    /// - Returns: The matching client, or `nil` if not found
+    @MainActor
+    private func findClient(_ clientId: String, on request: Request) -> Client? {
+        Client.find(
+            in: request.application.entityStorage,
+            clientId: clientId,
+            forHost: request.headers.first(name: "X-Forwarded-Host") ?? request.headers.first(name: .host)
+        )
+    }
+
     /// Get the `Tenant` from the requested `Host`
     ///
     /// - Parameters:
@@ -0,0 +1,41 @@
+import Foundation
+@preconcurrency import JWT
+
+/// An ID Token that a client presents as `id_token_hint` to end the session of its user
+///
+/// The signature of the hint is verified, its expiration is not: ID Tokens are short-lived, and a client sends the
+/// one it received at the login, which may have expired long ago. Access tokens are signed by the same signer, a
+/// hint that carries their claims is not an ID Token and is rejected.
+///
+/// - SeeAlso: [OpenID Connect RP-Initiated Logout 1.0, Section 4](
+///   https://openid.net/specs/openid-connect-rpinitiated-1_0.html#ValidationAndErrorHandling)
+/// - SeeAlso: ``LogoutRequest``
+struct IdTokenHint: JWTPayload, Sendable {
+
+    /// The ID Token of the hint
+    let idToken: IdTokenPayload
+
+    init(from decoder: Decoder) throws {
+        idToken = try IdTokenPayload(from: decoder)
+    }
+
+    func encode(to encoder: Encoder) throws {
+        try idToken.encode(to: encoder)
+    }
+
+    /// Accepts expired ID Tokens, the signature is verified by the signer
+    ///
+    /// - Throws: `JWTError.claimVerificationFailure` if the token carries claims of an access token
+    func verify(using algorithm: some JWTAlgorithm) async throws {
+        let accessTokenClaims = Self.accessTokenClaims.filter { idToken.claims.keys.contains($0) }
+        if accessTokenClaims.isEmpty == false {
+            throw JWTError.claimVerificationFailure(
+                failedClaim: nil,
+                reason: "The hint is not an ID Token, it carries \(accessTokenClaims.joined(separator: ", "))"
+            )
+        }
+    }
+
+    /// Claims of an access token that an ID Token never carries, see ``Payload``
+    private static let accessTokenClaims = ["tenant", "responsibility", "role", "user", "scope"]
+}
@@ -0,0 +1,174 @@
+import Foundation
+import CryptoSwift
+@preconcurrency import JWT
+
+/// JWT payload of an OpenID Connect ID Token
+///
+/// The ID Token is issued next to the access token when the `openid` scope is granted. It tells the client who
+/// has logged in and when, and carries the standard claims of the granted scopes.
+///
+/// ## Claims
+///
+/// - `iss`, `sub`, `aud`, `exp`, `iat`: Same as in the access token
+/// - `auth_time`: Time when the End-User authentication occurred
+/// - `nonce`: The `nonce` of the authorization request, if the client sent one
+/// - `at_hash`: Hash of the access token that is issued together with the ID Token
+/// - The standard claims of the granted scopes, see ``ScopeClaims``
+///
+/// - SeeAlso: [OIDC Core 1.0, Section 2](https://openid.net/specs/openid-connect-core-1_0.html#IDToken)
+/// - SeeAlso: ``Payload`` for the payload of the access token
+struct IdTokenPayload: JWTPayload, Sendable {
+
+    /// The claim names of the registered claims
+    private enum RegisteredClaim: String {
+        case issuer = "iss"
+        case subject = "sub"
+        case audience = "aud"
+        case expiration = "exp"
+        case issuedAt = "iat"
+        case authTime = "auth_time"
+        case nonce = "nonce"
+        case accessTokenHash = "at_hash"
+    }
+
+    /// Coding key for the registered claims and the claims of the profile
+    private struct ClaimKey: CodingKey {
+        let stringValue: String
+        let intValue: Int? = nil
+
+        init(_ claim: RegisteredClaim) {
+            stringValue = claim.rawValue
+        }
+
+        init?(stringValue: String) {
+            self.stringValue = stringValue
+        }
+
+        init?(intValue: Int) {
+            return nil
+        }
+    }
+
+    /// The issuer, the authorization server URL
+    var issuer: IssuerClaim
+
+    /// The subject, the authenticated user identifier
+    var subject: SubjectClaim
+
+    /// The audience, the client_id of the client
+    var audience: AudienceClaim
+
+    /// The expiration time
+    var expiration: ExpirationClaim
+
+    /// The issued-at time
+    var issuedAt: IssuedAtClaim
+
+    /// The time when the End-User authentication occurred
+    var authTime: AuthTimeClaim
+
+    /// The `nonce` of the authorization request
+    var nonce: String?
+
+    /// The `at_hash` of the access token that is issued together with the ID Token
+    var accessTokenHash: String?
+
+    /// The standard claims of the granted scopes by name
+    var claims: [String: CodableProfile]
+
+    /// Creates a new ID Token payload
+    ///
+    /// - Parameters:
+    ///   - issuer: The issuer claim (authorization server URL)
+    ///   - subject: The subject claim identifying the user
+    ///   - audience: The audience claim (client_id)
+    ///   - expiration: The expiration time claim
+    ///   - issuedAt: The issued-at time claim
+    ///   - authTime: The authentication time claim
+    ///   - nonce: The nonce of the authorization request
+    ///   - accessTokenHash: The `at_hash` of the access token
+    ///   - claims: The standard claims of the granted scopes, registered claims are ignored
+    init(
+        issuer: IssuerClaim,
+        subject: SubjectClaim,
+        audience: AudienceClaim,
+        expiration: ExpirationClaim,
+        issuedAt: IssuedAtClaim,
+        authTime: AuthTimeClaim,
+        nonce: String? = nil,
+        accessTokenHash: String? = nil,
+        claims: [String: CodableProfile] = [:]
+    ) {
+        self.issuer = issuer
+        self.subject = subject
+        self.audience = audience
+        self.expiration = expiration
+        self.issuedAt = issuedAt
+        self.authTime = authTime
+        self.nonce = nonce
+        self.accessTokenHash = accessTokenHash
+        self.claims = claims.filter { RegisteredClaim(rawValue: $0.key) == nil }
+    }
+
+    /// The `at_hash` of an access token
+    ///
+    /// The base64url encoded left-most half of the SHA-256 hash of the access token. Both supported signing
+    /// algorithms (HS256 and RS256) use SHA-256.
+    ///
+    /// - Parameter accessToken: The encoded access token
+    /// - Returns: The value of the `at_hash` claim
+    static func accessTokenHash(of accessToken: String) -> String {
+        let hash = Data(accessToken.utf8).sha256()
+        return hash.prefix(hash.count / 2).base64EncodedString()
+            .replacingOccurrences(of: "+", with: "-")
+            .replacingOccurrences(of: "/", with: "_")
+            .replacingOccurrences(of: "=", with: "")
+    }
+
+    // MARK: - Codable
+
+    init(from decoder: Decoder) throws {
+        let container = try decoder.container(keyedBy: ClaimKey.self)
+        issuer = try container.decode(IssuerClaim.self, forKey: ClaimKey(.issuer))
+        subject = try container.decode(SubjectClaim.self, forKey: ClaimKey(.subject))
+        audience = try container.decode(AudienceClaim.self, forKey: ClaimKey(.audience))
+        expiration = try container.decode(ExpirationClaim.self, forKey: ClaimKey(.expiration))
+        issuedAt = try container.decode(IssuedAtClaim.self, forKey: ClaimKey(.issuedAt))
+        authTime = try container.decode(AuthTimeClaim.self, forKey: ClaimKey(.authTime))
+        nonce = try container.decodeIfPresent(String.self, forKey: ClaimKey(.nonce))
+        accessTokenHash = try container.decodeIfPresent(String.self, forKey: ClaimKey(.accessTokenHash))
+
+        var claims: [String: CodableProfile] = [:]
+        for key in container.allKeys where RegisteredClaim(rawValue: key.stringValue) == nil {
+            claims[key.stringValue] = try container.decode(CodableProfile.self, forKey: key)
+        }
+        self.claims = claims
+    }
+
+    func encode(to encoder: Encoder) throws {
+        var container = encoder.container(keyedBy: ClaimKey.self)
+        try container.encode(issuer, forKey: ClaimKey(.issuer))
+        try container.encode(subject, forKey: ClaimKey(.subject))
+        try container.encode(audience, forKey: ClaimKey(.audience))
+        try container.encode(expiration, forKey: ClaimKey(.expiration))
+        try container.encode(issuedAt, forKey: ClaimKey(.issuedAt))
+        try container.encode(authTime, forKey: ClaimKey(.authTime))
+        try container.encodeIfPresent(nonce, forKey: ClaimKey(.nonce))
+        try container.encodeIfPresent(accessTokenHash, forKey: ClaimKey(.accessTokenHash))
+        for (name, value) in claims {
+            guard let key = ClaimKey(stringValue: name) else {
+                continue
+            }
+            try container.encode(value, forKey: key)
+        }
+    }
+
+    // MARK: - JWTPayload
+
+    /// Verifies that the ID Token has not expired
+    ///
+    /// - Throws: `JWTError.claimVerificationFailure` if the token has expired
+    func verify(using algorithm: some JWTAlgorithm) async throws {
+        try expiration.verifyNotExpired()
+    }
+}
@@ -0,0 +1,86 @@
+import Foundation
+@preconcurrency import JWT
+
+/// JWT payload of an OpenID Connect Back-Channel Logout token
+///
+/// When a user logs out, the clients that received tokens for the user and registered a `backchannel_logout_uri`
+/// get a `logout_token` posted. The token names the user and the client, the `events` claim marks it as a logout
+/// token so that it can not be mistaken for an ID Token.
+///
+/// ## Claims
+///
+/// - `iss`, `sub`, `aud`: Same as in the tokens that the client received
+/// - `iat`, `exp`: The logout token is valid for a short time only
+/// - `jti`: A unique identifier, clients may reject replayed logout tokens
+/// - `events`: `{"http://schemas.openid.net/event/backchannel-logout": {}}`
+///
+/// A logout token never contains a `nonce`.
+///
+/// - SeeAlso: [OpenID Connect Back-Channel Logout 1.0, Section 2.4](
+///   https://openid.net/specs/openid-connect-backchannel-1_0.html#LogoutToken)
+/// - SeeAlso: ``IdTokenPayload``
+struct LogoutTokenPayload: JWTPayload, Sendable {
+
+    /// The member of the `events` claim that identifies a logout token
+    static let backchannelLogoutEvent = "http://schemas.openid.net/event/backchannel-logout"
+
+    /// Lifetime of a logout token in seconds
+    static let lifetime: TimeInterval = 120
+
+    enum CodingKeys: String, CodingKey {
+        case issuer = "iss"
+        case subject = "sub"
+        case audience = "aud"
+        case expiration = "exp"
+        case issuedAt = "iat"
+        case jwtId = "jti"
+        case events
+    }
+
+    /// The issuer, the authorization server URL
+    var issuer: IssuerClaim
+
+    /// The subject, the user that logged out
+    var subject: SubjectClaim
+
+    /// The audience, the client_id of the notified client
+    var audience: AudienceClaim
+
+    /// The expiration time
+    var expiration: ExpirationClaim
+
+    /// The issued-at time
+    var issuedAt: IssuedAtClaim
+
+    /// The unique identifier of the logout token
+    var jwtId: IDClaim
+
+    /// The events, the logout event with an empty object
+    var events: [String: [String: String]]
+
+    /// Creates a new logout token payload
+    ///
+    /// - Parameters:
+    ///   - issuer: The issuer claim (authorization server URL)
+    ///   - subject: The subject claim identifying the user
+    ///   - audience: The audience claim (client_id)
+    ///   - issuedAt: The time of the logout
+    init(issuer: IssuerClaim, subject: SubjectClaim, audience: AudienceClaim, issuedAt: Date = Date()) {
+        self.issuer = issuer
+        self.subject = subject
+        self.audience = audience
+        self.expiration = ExpirationClaim(value: issuedAt.addingTimeInterval(Self.lifetime))
+        self.issuedAt = IssuedAtClaim(value: issuedAt)
+        self.jwtId = IDClaim(value: UUID().uuidString)
+        self.events = [Self.backchannelLogoutEvent: [:]]
+    }
+
+    // MARK: - JWTPayload
+
+    /// Verifies that the logout token has not expired
+    ///
+    /// - Throws: `JWTError.claimVerificationFailure` if the token has expired
+    func verify(using algorithm: some JWTAlgorithm) async throws {
+        try expiration.verifyNotExpired()
+    }
+}
@@ -15,6 +15,7 @@ import Foundation
 /// - ``redirect_uri``
 /// - ``scope``
 /// - ``state``
+/// - ``nonce``
 /// - ``redirectPath``
 ///
 /// ## See Also
@@ -62,6 +63,12 @@ protocol AuthRequestProtocol: Codable, ClientIdProtocol, RedirectUriProtocol, Sc
     /// maintain request-specific state. The authorization server returns this
     /// value unchanged in the response.
     var state: String { get }
+
+    /// Opaque value to bind the ID Token to the client session (OpenID Connect).
+    ///
+    /// The authorization server passes the value unchanged into the `nonce` claim of the
+    /// ID Token, the client compares it to mitigate replay attacks.
+    var nonce: String? { get }
 }
 
 /// Default implementations for all authorization requests.
@@ -116,6 +123,9 @@ struct AuthRequest: AuthRequestProtocol {
     /// Opaque state value to prevent CSRF attacks.
     var state: String
 
+    /// Optional OpenID Connect nonce for the ID Token.
+    var nonce: String?
+
     /// Creates a new authorization request.
     ///
     /// - Parameters:
@@ -125,13 +135,15 @@ struct AuthRequest: AuthRequestProtocol {
     ///   - redirect_uri: Where to redirect after authorization
     ///   - scope: Optional space-delimited scopes
     ///   - state: State value for CSRF protection
+    ///   - nonce: Optional nonce for the ID Token
     init(
         response_type: ResponseType,
         client_id: String,
         client_secret: String? = nil,
         redirect_uri: URL,
         scope: String? = nil,
-        state: String
+        state: String,
+        nonce: String? = nil
     ) {
         self.response_type = response_type
         self.client_id = client_id
@@ -139,6 +151,7 @@ struct AuthRequest: AuthRequestProtocol {
         self.redirect_uri = redirect_uri
         self.scope = scope
         self.state = state
+        self.nonce = nonce
     }
 }
 
@@ -188,6 +201,9 @@ struct AuthRequestPKCE: AuthRequestProtocol {
     /// Opaque state value to prevent CSRF attacks.
     var state: String
 
+    /// Optional OpenID Connect nonce for the ID Token.
+    var nonce: String?
+
     /// The code challenge derived from the code verifier.
     ///
     /// This is computed from a random `code_verifier` string (43-128 characters)
@@ -202,11 +218,24 @@ struct AuthRequestPKCE: AuthRequestProtocol {
     /// The method used to derive the code challenge from the code verifier.
     ///
     /// Typically `.sha256` for maximum security, or `.plain` if SHA256
-    /// is not available.
+    /// is not available. A request without a method is `.plain`, see
+    /// [RFC 7636, Section 4.3](https://datatracker.ietf.org/doc/html/rfc7636#section-4.3).
     ///
     /// - SeeAlso: ``CodeChallengeMethod``
     let code_challenge_method: CodeChallengeMethod
 
+    enum CodingKeys: String, CodingKey {
+        case response_type
+        case client_id
+        case client_secret
+        case redirect_uri
+        case scope
+        case state
+        case nonce
+        case code_challenge
+        case code_challenge_method
+    }
+
     /// Creates a new PKCE authorization request.
     ///
     /// - Parameters:
@@ -216,6 +245,7 @@ struct AuthRequestPKCE: AuthRequestProtocol {
     ///   - redirect_uri: Where to redirect after authorization
     ///   - scope: Optional space-delimited scopes
     ///   - state: State value for CSRF protection
+    ///   - nonce: Optional nonce for the ID Token
     ///   - code_challenge: The challenge derived from the code verifier
     ///   - code_challenge_method: The method used to derive the challenge
     init(
@@ -225,6 +255,7 @@ struct AuthRequestPKCE: AuthRequestProtocol {
         redirect_uri: URL,
         scope: String? = nil,
         state: String,
+        nonce: String? = nil,
         code_challenge: String,
         code_challenge_method: CodeChallengeMethod
     ) {
@@ -234,9 +265,30 @@ struct AuthRequestPKCE: AuthRequestProtocol {
         self.redirect_uri = redirect_uri
         self.scope = scope
         self.state = state
+        self.nonce = nonce
         self.code_challenge = code_challenge
         self.code_challenge_method = code_challenge_method
     }
+
+    /// Decodes a PKCE authorization request, a missing `code_challenge_method` is `.plain`
+    ///
+    /// - Parameter decoder: The decoder of the query
+    /// - Throws: A `DecodingError` if a required parameter is missing or invalid
+    init(from decoder: Decoder) throws {
+        let container = try decoder.container(keyedBy: CodingKeys.self)
+        response_type = try container.decode(ResponseType.self, forKey: .response_type)
+        client_id = try container.decode(String.self, forKey: .client_id)
+        client_secret = try container.decodeIfPresent(String.self, forKey: .client_secret)
+        redirect_uri = try container.decode(URL.self, forKey: .redirect_uri)
+        scope = try container.decodeIfPresent(String.self, forKey: .scope)
+        state = try container.decode(String.self, forKey: .state)
+        nonce = try container.decodeIfPresent(String.self, forKey: .nonce)
+        code_challenge = try container.decode(String.self, forKey: .code_challenge)
+        code_challenge_method = try container.decodeIfPresent(
+            CodeChallengeMethod.self,
+            forKey: .code_challenge_method
+        ) ?? .plain
+    }
 }
 
 /// An enum wrapping different types of authorization requests.
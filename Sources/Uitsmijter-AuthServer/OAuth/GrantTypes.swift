@@ -38,4 +38,10 @@ enum GrantTypes: String, Codable, Sendable {
     /// The Device Authorization Grant (RFC 8628) for input-constrained devices (CLIs, smart TVs, IoT) that
     /// cannot open a browser directly. The device polls the token endpoint while the user authorizes on another device.
     case device_code
+
+    /// The Client Credentials grant type (RFC 6749, Section 4.4) is used by confidential clients to obtain an access
+    /// token for themselves, outside the context of a user, e.g. for service-to-service calls.
+    ///
+    /// - Attention: Only clients with a `secret` can use it. Clients have to opt-in
+    case client_credentials
 }
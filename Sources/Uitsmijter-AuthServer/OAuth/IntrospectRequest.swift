@@ -0,0 +1,42 @@
+import Vapor
+
+/// OAuth 2.0 Token Introspection Request (RFC 7662)
+///
+/// Represents a token introspection request as specified in
+/// [RFC 7662: OAuth 2.0 Token Introspection](https://datatracker.ietf.org/doc/html/rfc7662).
+///
+/// A resource server asks the authorization server whether a token is active and
+/// which scopes, subject and tenant it carries. The resource server authenticates
+/// itself with the credentials of a confidential client.
+///
+/// ## Example Request
+///
+/// ```http
+/// POST /introspect HTTP/1.1
+/// Host: auth.example.com
+/// Content-Type: application/x-www-form-urlencoded
+///
+/// token=eyJhbGciOiJIUzI1NiIs...
+/// &token_type_hint=access_token
+/// &client_id=9095A4F2-35B2-48B1-A325-309CA324B97E
+/// &client_secret=secret123
+/// ```
+///
+/// - SeeAlso: ``IntrospectResponse``
+/// - SeeAlso: [RFC 7662](https://datatracker.ietf.org/doc/html/rfc7662)
+struct IntrospectRequest: Content, ClientIdProtocol {
+
+    /// REQUIRED. The token to introspect, an access token or a refresh token.
+    let token: String
+
+    /// OPTIONAL. A hint about the type of the token, `"access_token"` or `"refresh_token"`.
+    ///
+    /// If the token is not found with the hint, all other token types are searched as well.
+    let token_type_hint: String?
+
+    /// REQUIRED. The client identifier of the introspecting resource server.
+    let client_id: String
+
+    /// REQUIRED. The secret of the client, only confidential clients are allowed to introspect tokens.
+    let client_secret: String?
+}
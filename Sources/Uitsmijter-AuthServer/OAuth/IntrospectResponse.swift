@@ -0,0 +1,73 @@
+import Vapor
+
+/// OAuth 2.0 Token Introspection Response (RFC 7662)
+///
+/// Describes an active token. Inactive tokens, whether they are unknown, expired, revoked or
+/// issued for another tenant, are described by `active` only, to not disclose anything about them.
+///
+/// ## Example Response
+///
+/// ```json
+/// {
+///   "active": true,
+///   "scope": "read profile",
+///   "client_id": "9095A4F2-35B2-48B1-A325-309CA324B97E",
+///   "sub": "user@example.com",
+///   "exp": 1735689600,
+///   "iat": 1735686000,
+///   "tenant": "default",
+///   "token_type": "Bearer"
+/// }
+/// ```
+///
+/// - SeeAlso: ``IntrospectRequest``
+/// - SeeAlso: [RFC 7662, Section 2.2](https://datatracker.ietf.org/doc/html/rfc7662#section-2.2)
+struct IntrospectResponse: Content {
+
+    /// REQUIRED. Whether the token is currently active.
+    let active: Bool
+
+    /// Space-separated list of the scopes of the token.
+    let scope: String?
+
+    /// The client for which the token was issued.
+    let client_id: String?
+
+    /// Subject of the token, usually the user.
+    let sub: String?
+
+    /// Expiration of the token, in seconds since 1970.
+    let exp: Int?
+
+    /// Time at which the token was issued, in seconds since 1970.
+    let iat: Int?
+
+    /// The tenant that issued the token.
+    let tenant: String?
+
+    /// Type of the token, `Bearer` for access tokens.
+    let token_type: String?
+
+    init(
+        active: Bool,
+        scope: String? = nil,
+        client_id: String? = nil,
+        sub: String? = nil,
+        exp: Int? = nil,
+        iat: Int? = nil,
+        tenant: String? = nil,
+        token_type: String? = nil
+    ) {
+        self.active = active
+        self.scope = scope
+        self.client_id = client_id
+        self.sub = sub
+        self.exp = exp
+        self.iat = iat
+        self.tenant = tenant
+        self.token_type = token_type
+    }
+
+    /// The response for every token that is not active
+    static let inactive = IntrospectResponse(active: false)
+}
@@ -0,0 +1,46 @@
+import Vapor
+
+/// OpenID Connect RP-Initiated Logout Request
+///
+/// Represents a logout request as specified in
+/// [OpenID Connect RP-Initiated Logout 1.0](https://openid.net/specs/openid-connect-rpinitiated-1_0.html).
+///
+/// A client (relying party) sends the browser of the user to the `end_session_endpoint` to end the session at
+/// Uitsmijter. The client identifies itself with the `client_id` or with an ID Token it received as
+/// `id_token_hint`. Only then the `post_logout_redirect_uri` is checked against the `redirect_urls` of the client
+/// and the `state` is passed back on the redirect.
+///
+/// Without a client, the `post_logout_redirect_uri` has to stay on the tenant, see ``Tenant/allowsRedirect(_:in:)``.
+///
+/// ## Example Request
+///
+/// ```http
+/// GET /logout?id_token_hint=eyJhbGciOiJIUzI1NiIs...
+///     &client_id=9095A4F2-35B2-48B1-A325-309CA324B97E
+///     &post_logout_redirect_uri=https%3A%2F%2Fapp.example.com%2F
+///     &state=af0ifjsldkj HTTP/1.1
+/// Host: auth.example.com
+/// ```
+///
+/// - SeeAlso: ``IdTokenHint``
+struct LogoutRequest: Content {
+
+    /// RECOMMENDED. An ID Token that the client received, identifies the client and the user.
+    let id_token_hint: String?
+
+    /// OPTIONAL. The client identifier, has to match the audience of the `id_token_hint`.
+    let client_id: String?
+
+    /// OPTIONAL. Where the browser is redirected to after the logout.
+    ///
+    /// Has to be allowed by the `redirect_urls` of the client, if the client is known.
+    let post_logout_redirect_uri: String?
+
+    /// OPTIONAL. An opaque value that is passed back to the `post_logout_redirect_uri`.
+    let state: String?
+
+    /// True if a client identifies itself in the request
+    var isInitiatedByClient: Bool {
+        id_token_hint != nil || client_id != nil
+    }
+}
@@ -32,12 +32,114 @@ struct RedirectUri: RedirectUriProtocol {
     /// This initializer attempts to parse the provided string as a valid URL.
     /// If the string cannot be converted to a URL, it throws an error.
     ///
+    /// Whitespace, control characters and backslashes are rejected before parsing: browsers drop or convert them
+    /// when they follow the string as `Location`, while the parsed URL may carry them percent encoded.
+    ///
     /// - Parameter string: A string representation of the redirect URI.
     /// - Throws: `RedirectError.notAnUrl` if the string cannot be converted to a valid URL.
     init(_ string: String) throws {
-        guard let uri = URL(string: string) else {
+        guard Self.containsConfusingScalars(string) == false, let uri = URL(string: string) else {
             throw RedirectError.notAnUrl(string)
         }
         redirect_uri = uri
     }
 }
+
+// MARK: - Ambiguity Checks
+
+/// Checks for redirect URIs that a browser may follow to another place than the allow-lists expect.
+extension RedirectUriProtocol {
+
+    /// Schemes that run code or read local files instead of navigating to a host.
+    private var forbiddenSchemes: [String] {
+        ["javascript", "data", "vbscript", "file"]
+    }
+
+    /// True if the string has a backslash, whitespace or a control character, browsers drop or convert them.
+    ///
+    /// - Parameter string: A redirect URI as string
+    /// - Returns: True if a browser may read the string differently than it is parsed
+    fileprivate static func containsConfusingScalars(_ string: String) -> Bool {
+        string.unicodeScalars.contains { scalar in
+            scalar == "\\" || scalar.properties.isWhitespace || scalar.value < 0x20 || scalar.value == 0x7F
+        }
+    }
+
+    /// True for a reference on the requested host, e.g. `/authorize?...`.
+    ///
+    /// Protocol-relative urls like `//evil.example` and `/\evil.example` are not on the requested host, browsers
+    /// resolve them to another host.
+    var isPath: Bool {
+        guard isUnambiguous, let components = URLComponents(string: redirect_uri.absoluteString) else {
+            return false
+        }
+        return components.scheme == nil && components.host == nil
+    }
+
+    /// True if browsers and the allow-lists read the redirect URI the same way.
+    ///
+    /// Rejects user info (`https://allowed.example@evil.example`), backslashes, whitespace and control
+    /// characters, schemes that run code, `http(s)` urls without a host, and hosts with percent encoded
+    /// characters or a trailing dot.
+    var isUnambiguous: Bool {
+        let redirect = redirect_uri.absoluteString
+        guard Self.containsConfusingScalars(redirect) == false, let components = URLComponents(string: redirect) else {
+            return false
+        }
+        if components.user != nil || components.password != nil {
+            return false
+        }
+        let scheme = components.scheme?.lowercased()
+        if let scheme, forbiddenSchemes.contains(scheme) {
+            return false
+        }
+        guard let host = components.percentEncodedHost, host.isEmpty == false else {
+            return scheme != "http" && scheme != "https" && redirect.starts(with: "//") == false
+        }
+        let hostname = "^([a-zA-Z0-9-]+(\\.[a-zA-Z0-9-]+)*|\\[[0-9a-fA-F:.]+\\])$"
+        return host.range(of: hostname, options: .regularExpression) != nil
+    }
+
+    /// The lowercased host of an unambiguous redirect URI, `nil` for paths
+    var redirectHost: String? {
+        guard isUnambiguous else {
+            return nil
+        }
+        return URLComponents(string: redirect_uri.absoluteString)?.host?.lowercased()
+    }
+
+    /// Checks if a pattern of `redirect_urls` allows the host of the redirect URI.
+    ///
+    /// A match that touches the host has to reach to the end of the host and start at a label: the pattern
+    /// `example\.com` allows `https://app.example.com/`, but not `https://example.com.evil.example/` or
+    /// `https://evil-example.com/`. A pattern that also allows the redirect on another host, without allowing
+    /// that host itself, has matched something in the path or query: `https://evil.example/.example.com/`.
+    ///
+    /// - Parameter pattern: A regular expression of `redirect_urls`
+    /// - Returns: True if the pattern allows the redirect URI
+    func isAllowed(by pattern: String) -> Bool {
+        guard let components = URLComponents(string: redirect_uri.absoluteString), let redirect = components.string,
+              let match = redirect.range(of: pattern, options: .regularExpression) else {
+            return false
+        }
+        guard let host = components.rangeOfHost, host.isEmpty == false else {
+            return true
+        }
+        if match.overlaps(host) {
+            let startsAtLabel = match.lowerBound <= host.lowerBound
+                || redirect[redirect.index(before: match.lowerBound)] == "."
+            if startsAtLabel == false || match.upperBound < host.upperBound {
+                return false
+            }
+        }
+
+        var unknown = components
+        unknown.host = "uitsmijter.invalid"
+        guard let onUnknownHost = unknown.string,
+              onUnknownHost.range(of: pattern, options: .regularExpression) != nil else {
+            return true
+        }
+        let unknownOrigin = "\(components.scheme.map { "\($0):" } ?? "")//uitsmijter.invalid/"
+        return unknownOrigin.range(of: pattern, options: .regularExpression) != nil
+    }
+}
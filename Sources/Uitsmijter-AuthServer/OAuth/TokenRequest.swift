@@ -190,6 +190,21 @@ extension CodeTokenRequest {
             return nil
         }
     }
+
+    /// Characters of a `code_verifier`: the unreserved characters of RFC 3986
+    private static let codeVerifierCharacters = CharacterSet(
+        charactersIn: "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-._~"
+    )
+
+    /// True if the `code_verifier` has 43 to 128 unreserved characters
+    ///
+    /// - SeeAlso: [RFC 7636, Section 4.1](https://datatracker.ietf.org/doc/html/rfc7636#section-4.1)
+    var hasValidCodeVerifier: Bool {
+        guard let code_verifier, (43...128).contains(code_verifier.unicodeScalars.count) else {
+            return false
+        }
+        return code_verifier.unicodeScalars.allSatisfy { Self.codeVerifierCharacters.contains($0) }
+    }
 }
 
 /// OAuth2 refresh token grant request.
@@ -271,3 +286,42 @@ struct PasswordTokenRequest: TokenRequestProtocol, Sendable {
         self.password = password
     }
 }
+
+/// OAuth2 client credentials grant request.
+///
+/// Represents a token request using the client credentials grant type as defined in
+/// RFC 6749, Section 4.4. A confidential client authenticates with its `client_secret`
+/// and obtains an access token for itself, e.g. for service-to-service calls.
+///
+/// ## Example
+///
+/// ```
+/// POST /token
+/// Content-Type: application/x-www-form-urlencoded
+///
+/// grant_type=client_credentials
+///   &client_id=9095A4F2-35B2-48B1-A325-309CA324B97E
+///   &client_secret=secret123
+///   &scope=orders:read
+/// ```
+///
+/// - SeeAlso: RFC 6749, Section 4.4 (Client Credentials Grant)
+struct ClientCredentialsTokenRequest: TokenRequestProtocol, ClientIdProtocol, ScopesProtocol, Sendable {
+
+    // MARK: - Protocol Implementation
+
+    var grant_type: GrantTypes
+
+    var client_id: String
+
+    var client_secret: String?
+
+    var scope: String?
+
+    init(grant_type: GrantTypes, client_id: String, client_secret: String? = nil, scope: String? = nil) {
+        self.grant_type = grant_type
+        self.client_id = client_id
+        self.client_secret = client_secret
+        self.scope = scope
+    }
+}
@@ -14,6 +14,7 @@ import Vapor
 /// - `expires_in`: Token lifetime in seconds
 /// - `refresh_token`: Optional refresh token for obtaining new access tokens
 /// - `scope`: The approved scopes if different from requested
+/// - `id_token`: The OpenID Connect ID Token, if the `openid` scope is granted
 ///
 /// ## Example Response
 ///
@@ -48,14 +49,20 @@ struct TokenResponse: Content, Sendable {
     /// is required.
     let scope: String?
 
+    /// The OpenID Connect ID Token, if the `openid` scope is granted.
+    ///
+    /// - SeeAlso: ``IdTokenPayload``
+    let id_token: String?
+
     init(
         access_token: String, token_type: TokenTypes, expires_in: Int? = nil,
-        refresh_token: String? = nil, scope: String? = nil
+        refresh_token: String? = nil, scope: String? = nil, id_token: String? = nil
     ) {
         self.access_token = access_token
         self.token_type = token_type
         self.expires_in = expires_in
         self.refresh_token = refresh_token
         self.scope = scope
+        self.id_token = id_token
     }
 }
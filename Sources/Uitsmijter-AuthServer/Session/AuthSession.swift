@@ -21,6 +21,8 @@ struct CodeSession: Codable, Sendable {
     let scopes: [String]
     let payload: Payload?
     let redirect: String
+    /// The OpenID Connect nonce of the authorization request, passed into the ID Token
+    let nonce: String?
     var ttl: Int64?
     var generated: Date
 
@@ -30,6 +32,7 @@ struct CodeSession: Codable, Sendable {
         scopes: [String],
         payload: Payload?,
         redirect: String,
+        nonce: String? = nil,
         ttl: Int64? = nil,
         generated: Date = Date()
     ) {
@@ -38,6 +41,7 @@ struct CodeSession: Codable, Sendable {
         self.scopes = scopes
         self.payload = payload
         self.redirect = redirect
+        self.nonce = nonce
         self.ttl = ttl
         self.generated = generated
     }
@@ -183,6 +187,14 @@ enum AuthSession: Codable, TimeToLiveProtocol, Sendable {
         }
     }
 
+    /// The OpenID Connect nonce of the authorization request (code sessions only).
+    var nonce: String? {
+        switch self {
+        case .code(let sess):    return sess.nonce
+        case .refresh, .device:  return nil
+        }
+    }
+
     // MARK: - TimeToLiveProtocol
 
     var ttl: Int64? {
@@ -207,7 +219,7 @@ enum AuthSession: Codable, TimeToLiveProtocol, Sendable {
         // discriminator
         case type
         // code / refresh fields
-        case state, code, scopes, payload, redirect, ttl, generated
+        case state, code, scopes, payload, redirect, nonce, ttl, generated
         // device-only fields
         case clientId, deviceCode, userCode, status, lastPolledAt
     }
@@ -223,6 +235,7 @@ enum AuthSession: Codable, TimeToLiveProtocol, Sendable {
                 scopes: try container.decode([String].self, forKey: .scopes),
                 payload: try container.decodeIfPresent(Payload.self, forKey: .payload),
                 redirect: try container.decode(String.self, forKey: .redirect),
+                nonce: try container.decodeIfPresent(String.self, forKey: .nonce),
                 ttl: try container.decodeIfPresent(Int64.self, forKey: .ttl),
                 generated: try container.decodeIfPresent(Date.self, forKey: .generated) ?? Date()
             ))
@@ -267,6 +280,7 @@ enum AuthSession: Codable, TimeToLiveProtocol, Sendable {
             try container.encode(session.scopes, forKey: .scopes)
             try container.encodeIfPresent(session.payload, forKey: .payload)
             try container.encode(session.redirect, forKey: .redirect)
+            try container.encodeIfPresent(session.nonce, forKey: .nonce)
             try container.encodeIfPresent(session.ttl, forKey: .ttl)
             try container.encode(session.generated, forKey: .generated)
         case .refresh(let session):
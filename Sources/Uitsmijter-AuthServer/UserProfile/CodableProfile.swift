@@ -348,3 +348,18 @@ extension CodableProfile {
         return value
     }
 }
+
+extension CodableProfile {
+    /// The profile with a plain string containing JSON decoded into a proper value
+    ///
+    /// Providers may return their profile as a string (e.g. a JS provider using `JSON.stringify`). Encoding such a
+    /// profile as it is would double-encode the JSON.
+    var jsonDecoded: CodableProfile {
+        if case .string(let jsonString) = self,
+           let data = jsonString.data(using: .utf8),
+           let decoded = try? JSONDecoder().decode(CodableProfile.self, from: data) {
+            return decoded
+        }
+        return self
+    }
+}
@@ -0,0 +1,48 @@
+import Foundation
+
+/// Standard claims of OpenID Connect that are released for the granted scopes.
+///
+/// The values of the claims are taken from the profile that the login provider returns. Only the claims of the
+/// granted scopes are released, claims that the profile does not contain are left out.
+///
+/// ## Example
+///
+/// ```swift
+/// let profile: CodableProfile = .object([
+///     "name": .string("Alice"),
+///     "email": .string("alice@example.com"),
+///     "department": .string("Engineering")
+/// ])
+///
+/// ScopeClaims.claims(of: profile, for: ["openid", "email"])
+/// // ["email": .string("alice@example.com")]
+/// ```
+///
+/// - SeeAlso: [OIDC Core 1.0, Section 5.4](https://openid.net/specs/openid-connect-core-1_0.html#ScopeClaims)
+enum ScopeClaims {
+
+    /// The standard claims that a scope releases
+    static let claimsOfScope: [String: [String]] = [
+        "profile": [
+            "name", "family_name", "given_name", "middle_name", "nickname", "preferred_username", "profile",
+            "picture", "website", "gender", "birthdate", "zoneinfo", "locale", "updated_at"
+        ],
+        "email": ["email", "email_verified"],
+        "address": ["address"],
+        "phone": ["phone_number", "phone_number_verified"]
+    ]
+
+    /// The claims of the profile that are released for the scopes
+    ///
+    /// - Parameters:
+    ///   - profile: The profile of the user, as returned by the login provider
+    ///   - scopes: The granted scopes
+    /// - Returns: The released claims by name
+    static func claims(of profile: CodableProfile?, for scopes: [String]) -> [String: CodableProfile] {
+        guard let values = profile?.jsonDecoded.object else {
+            return [:]
+        }
+        let releasedClaims = Set(scopes.flatMap { claimsOfScope[$0] ?? [] })
+        return values.filter { releasedClaims.contains($0.key) }
+    }
+}
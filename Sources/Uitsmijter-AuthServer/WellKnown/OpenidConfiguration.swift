@@ -411,6 +411,20 @@ struct OpenidConfiguration: Codable, Sendable {
     /// ```
     let device_authorization_endpoint: String?
 
+    /// OPTIONAL. URL of the authorization server's token introspection endpoint (RFC 7662).
+    ///
+    /// ## Example
+    ///
+    /// ```
+    /// "https://auth.example.com/introspect"
+    /// ```
+    let introspection_endpoint: String?
+
+    /// OPTIONAL. Whether the OP supports back-channel logout (OpenID Connect Back-Channel Logout 1.0).
+    ///
+    /// Clients with a `backchannel_logout_uri` receive a `logout_token` when the user logs out.
+    let backchannel_logout_supported: Bool?
+
     // MARK: - Initialization
 
     /// Initialize OpenID Configuration with all fields.
@@ -454,6 +468,9 @@ struct OpenidConfiguration: Codable, Sendable {
     ///   - request_object_encryption_alg_values_supported: OPTIONAL. Supported Request Object encryption algorithms (alg)
     ///   - request_object_encryption_enc_values_supported: OPTIONAL. Supported Request Object encryption algorithms (enc)
     ///   - code_challenge_methods_supported: OPTIONAL. Supported PKCE code challenge methods
+    ///   - device_authorization_endpoint: OPTIONAL. Device authorization endpoint URL
+    ///   - introspection_endpoint: OPTIONAL. Token introspection endpoint URL
+    ///   - backchannel_logout_supported: OPTIONAL. Whether back-channel logout is supported
     init(
         issuer: String,
         authorization_endpoint: String,
@@ -493,7 +510,9 @@ struct OpenidConfiguration: Codable, Sendable {
         request_object_encryption_alg_values_supported: [String]? = nil,
         request_object_encryption_enc_values_supported: [String]? = nil,
         code_challenge_methods_supported: [String]? = nil,
-        device_authorization_endpoint: String? = nil
+        device_authorization_endpoint: String? = nil,
+        introspection_endpoint: String? = nil,
+        backchannel_logout_supported: Bool? = nil
     ) {
         self.issuer = issuer
         self.authorization_endpoint = authorization_endpoint
@@ -534,6 +553,8 @@ struct OpenidConfiguration: Codable, Sendable {
         self.request_object_encryption_enc_values_supported = request_object_encryption_enc_values_supported
         self.code_challenge_methods_supported = code_challenge_methods_supported
         self.device_authorization_endpoint = device_authorization_endpoint
+        self.introspection_endpoint = introspection_endpoint
+        self.backchannel_logout_supported = backchannel_logout_supported
     }
 }
 // swiftlint:enable identifier_name
@@ -76,6 +76,8 @@ actor OpenidConfigurationBuilder {
         "exp",
         "iat",
         "auth_time",
+        "nonce",
+        "at_hash",
         "tenant",
         "name",
         "email"
@@ -171,9 +173,10 @@ actor OpenidConfigurationBuilder {
         let authorizationEndpoint = "\(issuer)/authorize"
         let tokenEndpoint = "\(issuer)/token"
         let jwksUri = "\(issuer)/.well-known/jwks.json"
-        let userinfoEndpoint = "\(issuer)/token/info"
+        let userinfoEndpoint = "\(issuer)/userinfo"
         let endSessionEndpoint = "\(issuer)/logout"
         let revocationEndpoint = "\(issuer)/revoke"
+        let introspectionEndpoint = "\(issuer)/introspect"
 
         // Device authorization endpoint (RFC 8628) — advertise when any client supports device_code
         let hasDeviceGrantClient = tenantClients.contains { client in
@@ -229,7 +232,9 @@ actor OpenidConfigurationBuilder {
             request_object_encryption_alg_values_supported: nil,
             request_object_encryption_enc_values_supported: nil,
             code_challenge_methods_supported: codeChallengeMethods,
-            device_authorization_endpoint: deviceAuthorizationEndpoint
+            device_authorization_endpoint: deviceAuthorizationEndpoint,
+            introspection_endpoint: introspectionEndpoint,
+            backchannel_logout_supported: true
         )
     }
 
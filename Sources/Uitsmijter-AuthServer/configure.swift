@@ -47,6 +47,7 @@ import Logger
 /// - `DIRECTORY`: Overrides the working directory path
 /// - `ENVIRONMENT`: Set to "production" to enable production mode features
 /// - `REDIS_HOST`: Redis server hostname (default: "localhost")
+/// - `REDIS_PORT`: Redis server port (default: 6379)
 /// - `REDIS_PASSWORD`: Redis authentication password (optional)
 ///
 /// ## Environment-Specific Behavior
@@ -207,7 +208,7 @@ private func configureSessionStorage(_ app: Application) throws {
         do {
             app.redis.configuration = try RedisConfiguration(
                 hostname: ProcessInfo.processInfo.environment["REDIS_HOST"] ?? "localhost",
-                port: 6379,
+                port: Int(ProcessInfo.processInfo.environment["REDIS_PORT"] ?? "") ?? 6379,
                 password: ProcessInfo.processInfo.environment["REDIS_PASSWORD"],
                 database: 0,
                 pool: .init(
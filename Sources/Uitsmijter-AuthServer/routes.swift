@@ -40,6 +40,8 @@ func routes(_ app: Application) throws {
     try app.register(collection: AuthorizeController())
     try app.register(collection: TokenController())
     try app.register(collection: RevokeController())
+    try app.register(collection: IntrospectController())
+    try app.register(collection: UserInfoController())
 
     // Device Authorization Grant (RFC 8628)
     try app.register(collection: DeviceController())
@@ -100,4 +100,24 @@ import VaporTesting
         // is deleted
         #expect(await storage.pull(loginUuid: loginId) == false)
     }
+
+    // MARK: - Revoked access tokens
+
+    @Test func revokeAccessToken() async throws {
+        let storage = AuthCodeStorage(use: .memory)
+
+        try await storage.revoke(accessToken: "token_1", until: Date(timeIntervalSinceNow: 60))
+
+        #expect(await storage.isRevoked(accessToken: "token_1") == true)
+        #expect(await storage.isRevoked(accessToken: "token_2") == false)
+    }
+
+    @Test func revokedAccessTokenExpires() async throws {
+        let storage = AuthCodeStorage(use: .memory)
+
+        try await storage.revoke(accessToken: "token_1", until: Date(timeIntervalSinceNow: 1))
+        try await Task.sleep(for: .seconds(2))
+
+        #expect(await storage.isRevoked(accessToken: "token_1") == false)
+    }
 }
@@ -10,6 +10,11 @@ import Redis
         private(set) var eventLoop: NIOCore.EventLoop
         private let storage = MemoryAuthCodeStorage()
         var commandStack: [String] = []
+        var argumentStack: [[RESPValue]] = []
+        /// Keys that SCAN returns and EXISTS finds
+        var keys: [String] = []
+        /// Commands that fail as if the connection was lost
+        var failingCommands: Set<String> = []
 
         init() {
             let evGroup = MultiThreadedEventLoopGroup(numberOfThreads: System.coreCount)
@@ -21,13 +26,16 @@ import Redis
                 return eventLoop.future(RESPValue(from: "PONG"))
             }
             commandStack.append(command)
+            argumentStack.append(arguments)
+            if failingCommands.contains(command) {
+                return eventLoop.makeFailedFuture(RedisClientError.connectionClosed)
+            }
 
             // Handle commands that need specific return types
             switch command {
             case "SCAN":
                 // SCAN returns [cursor, [keys...]]
-                let emptyKeys: [String] = []
-                let scanResult: [RESPValue] = [RESPValue(from: 0), RESPValue(from: emptyKeys)]
+                let scanResult: [RESPValue] = [RESPValue(from: 0), RESPValue(from: keys)]
                 return eventLoop.future(RESPValue(from: scanResult))
             case "DEL":
                 // DEL returns number of keys deleted
@@ -35,6 +43,10 @@ import Redis
             case "EXPIRE":
                 // EXPIRE returns 1 for success
                 return eventLoop.future(RESPValue(from: 1))
+            case "EXISTS":
+                // EXISTS returns the number of keys that exist
+                let existing = arguments.compactMap(\.string).filter { keys.contains($0) }
+                return eventLoop.future(RESPValue(from: existing.count))
             default:
                 return eventLoop.future(RESPValue(from: ""))
             }
@@ -141,4 +153,58 @@ import Redis
         #expect(mock.commandStack.contains("DEL"))
         #expect(mock.commandStack.count == 5)
     }
+
+    @Test func revokeSetsTheKeyWithItsExpiry() async throws {
+        let mock = RedisMock()
+        let storage = AuthCodeStorage(use: .redis(client: mock))
+
+        try await storage.revoke(accessToken: "token_1", until: Date().addingTimeInterval(60))
+        // A single SET with EX, the key never exists without an expiry
+        #expect(mock.commandStack == ["SET"])
+        let arguments = mock.argumentStack.first?.compactMap(\.string) ?? []
+        #expect(arguments.contains("EX"))
+        #expect(arguments.last.flatMap(Int.init).map { (59...60).contains($0) } == true)
+    }
+
+    @Test func revokeIgnoresExpiredTokens() async throws {
+        let mock = RedisMock()
+        let storage = AuthCodeStorage(use: .redis(client: mock))
+
+        try await storage.revoke(accessToken: "token_1", until: Date().addingTimeInterval(-60))
+        #expect(mock.commandStack.isEmpty)
+    }
+
+    @Test func isRevokedFindsRevokedTokens() async throws {
+        let mock = RedisMock()
+        mock.keys = ["revoked~revoked_token"]
+        // The facade hashes the token, the implementation gets the hash
+        let storage = RedisAuthCodeStorage(mock)
+
+        #expect(await storage.isRevoked(accessToken: "revoked_token"))
+        #expect(await storage.isRevoked(accessToken: "valid_token") == false)
+    }
+
+    @Test func isRevokedFailsClosed() async throws {
+        let mock = RedisMock()
+        mock.failingCommands = ["EXISTS"]
+        let storage = AuthCodeStorage(use: .redis(client: mock))
+
+        // Without an answer of Redis a revoked token must not become valid again
+        #expect(await storage.isRevoked(accessToken: "token_1"))
+        #expect(mock.commandStack == ["EXISTS"])
+    }
+
+    @Test func countOnlyAuthSessions() async throws {
+        let mock = RedisMock()
+        mock.keys = [
+            "code~code_1",
+            "refresh~refresh_1",
+            "loginid~\(UUID().uuidString)",
+            "deviceuser~ABCD-EFGH",
+            "revoked~9e81ab2cbd5fbb6f3d35cd6d0c8bb9e8"
+        ]
+        let storage = AuthCodeStorage(use: .redis(client: mock))
+
+        #expect(await storage.count() == 2)
+    }
 }
@@ -0,0 +1,154 @@
+import Foundation
+import Testing
+import VaporTesting
+@testable import Uitsmijter_AuthServer
+
+@Suite("Introspect Controller Tests", .serialized)
+struct IntrospectControllerTests {
+    let testAppIdent = UUID()
+    let resourceServerIdent = UUID()
+    let resourceServerSecret = String.random(length: 12)
+
+    // MARK: - Helpers
+
+    /// Adds a confidential client to the tenant of the test client, like a resource server
+    private func addResourceServer(to app: Application) async {
+        await MainActor.run {
+            guard let tenantName = app.entityStorage.clients.first?.config.tenantname else {
+                return
+            }
+            app.entityStorage.clients.append(Client(
+                name: "Resource Server",
+                config: ClientSpec(
+                    ident: resourceServerIdent,
+                    tenantname: tenantName,
+                    redirect_urls: ["http://localhost:?([0-9]+)?"],
+                    secret: resourceServerSecret
+                )
+            ))
+        }
+    }
+
+    private func tokens(app: Application) async throws -> TokenResponse {
+        await generateTestClient(in: app.entityStorage, uuid: testAppIdent, script: .johnDoe)
+        await addResourceServer(to: app)
+        let code = try await authorisationCodeGrantFlow(app: app, clientIdent: testAppIdent)
+        return try await getToken(app: app, for: code, appIdent: testAppIdent)
+    }
+
+    private func introspect(
+        app: Application,
+        token: String,
+        tokenTypeHint: String? = nil,
+        clientId: String? = nil,
+        clientSecret: String? = nil
+    ) async throws -> TestingHTTPResponse {
+        let introspectRequest = IntrospectRequest(
+            token: token,
+            token_type_hint: tokenTypeHint,
+            client_id: clientId ?? resourceServerIdent.uuidString,
+            client_secret: clientSecret ?? resourceServerSecret
+        )
+        return try await app.sendRequest(.POST, "/introspect", beforeRequest: { @Sendable req async throws in
+            try req.content.encode(introspectRequest, as: .urlEncodedForm)
+        })
+    }
+
+    // MARK: - Tests
+
+    @Test("Active access token is described")
+    func activeAccessTokenIsDescribed() async throws {
+        try await withApp(configure: configure) { app in
+            let tokenResponse = try await tokens(app: app)
+
+            let response = try await introspect(app: app, token: tokenResponse.access_token)
+            #expect(response.status == .ok)
+
+            let content = try response.content.decode(IntrospectResponse.self)
+            #expect(content.active == true)
+            #expect(content.client_id == testAppIdent.uuidString)
+            #expect(content.sub != nil)
+            #expect(content.tenant != nil)
+            #expect(content.token_type == "Bearer")
+            #expect((content.exp ?? 0) > Int(Date().timeIntervalSince1970))
+            #expect((content.iat ?? Int.max) <= Int(Date().timeIntervalSince1970))
+        }
+    }
+
+    @Test("Active refresh token is described")
+    func activeRefreshTokenIsDescribed() async throws {
+        try await withApp(configure: configure) { app in
+            let tokenResponse = try await tokens(app: app)
+            guard let refreshToken = tokenResponse.refresh_token else {
+                Issue.record("No refresh token")
+                throw TestError.abort
+            }
+
+            let response = try await introspect(app: app, token: refreshToken, tokenTypeHint: "refresh_token")
+            let content = try response.content.decode(IntrospectResponse.self)
+            #expect(content.active == true)
+            #expect(content.client_id == testAppIdent.uuidString)
+            #expect(content.token_type == nil)
+        }
+    }
+
+    @Test("Revoked access token is inactive")
+    func revokedAccessTokenIsInactive() async throws {
+        try await withApp(configure: configure) { app in
+            let tokenResponse = try await tokens(app: app)
+            let accessToken = tokenResponse.access_token
+            let clientId = testAppIdent.uuidString
+
+            let revokeResponse = try await app.sendRequest(.POST, "/revoke", beforeRequest: { @Sendable req in
+                req.headers.replaceOrAdd(name: "X-Forwarded-Host", value: "localhost")
+                try req.content.encode(RevokeRequest(
+                    token: accessToken,
+                    token_type_hint: "access_token",
+                    client_id: clientId,
+                    client_secret: nil
+                ), as: .urlEncodedForm)
+            })
+            #expect(revokeResponse.status == .ok)
+
+            let response = try await introspect(app: app, token: accessToken)
+            let content = try response.content.decode(IntrospectResponse.self)
+            #expect(content.active == false)
+            #expect(content.sub == nil)
+        }
+    }
+
+    @Test("Unknown token is inactive")
+    func unknownTokenIsInactive() async throws {
+        try await withApp(configure: configure) { app in
+            await generateTestClient(in: app.entityStorage, uuid: testAppIdent, script: .johnDoe)
+            await addResourceServer(to: app)
+
+            let response = try await introspect(app: app, token: String.random(length: Constants.TOKEN.LENGTH))
+            #expect(response.status == .ok)
+            let content = try response.content.decode(IntrospectResponse.self)
+            #expect(content.active == false)
+        }
+    }
+
+    @Test("Wrong client secret is unauthorized")
+    func wrongClientSecretIsUnauthorized() async throws {
+        try await withApp(configure: configure) { app in
+            let tokenResponse = try await tokens(app: app)
+
+            let response = try await introspect(app: app, token: tokenResponse.access_token, clientSecret: "wrong")
+            #expect(response.status == .unauthorized)
+        }
+    }
+
+    @Test("Public client is unauthorized")
+    func publicClientIsUnauthorized() async throws {
+        try await withApp(configure: configure) { app in
+            let tokenResponse = try await tokens(app: app)
+
+            let response = try await introspect(
+                app: app, token: tokenResponse.access_token, clientId: testAppIdent.uuidString, clientSecret: ""
+            )
+            #expect(response.status == .unauthorized)
+        }
+    }
+}
@@ -169,6 +169,34 @@ struct LoginControllerLoginTests {
         }
     }
 
+    @Test("Post login form bad redirect with an allowed host in the path", arguments: [
+        "https://zeit.de/.example.com/ok",
+        "https://zeit.de/?https://example.com/ok",
+        "https://example.com@zeit.de/ok"
+    ])
+    func postLoginFormBadRedirectWithAllowedHostInPath(location: String) async throws {
+        try await withApp(configure: configure) { app in
+            try await setupEntities(app: app)
+
+            guard let firstClient = await app.entityStorage.clients.first else {
+                Issue.record("There is no first client")
+                return
+            }
+            let clientIdent = firstClient.config.ident
+            try await app.testing().test(
+                .POST,
+                "login?client_id=\(clientIdent)", beforeRequest: { @Sendable req async throws in
+                    try req.content.encode(
+                        LoginForm(username: "ok@example.com", password: "secret", location: location)
+                    )
+
+                }, afterResponse: { @Sendable res async throws in
+                    #expect(res.status == .forbidden)
+                    #expect(res.headers["location"].first == nil)
+                })
+        }
+    }
+
     @Test("Post login form com OK base")
     func postLoginFormComOKBase() async throws {
         try await withApp(configure: configure) { app in
@@ -219,4 +219,21 @@ struct LoginControllerLogoutTests {
                 })
         }
     }
+
+    @Test("Logout URI off the tenant")
+    func logoutUriOffTheTenant() async throws {
+        try await withApp(configure: configure) { app in
+            let token = try await performLoginAndGetToken(app: app)
+
+            try await app.testing().test(
+                .GET,
+                "logout/finalize?location=https://zeit.de/.example.com/out",
+                beforeRequest: { @Sendable req async throws in
+                    req.headers.bearerAuthorization = BearerAuthorization(token: token ?? "_ERROR_")
+                }, afterResponse: { @Sendable response async throws in
+                #expect(response.headers["location"].first == "/")
+                #expect(response.status == .seeOther)
+                })
+        }
+    }
 }
@@ -0,0 +1,138 @@
+import Foundation
+import Testing
+import VaporTesting
+@testable import Uitsmijter_AuthServer
+
+@Suite("Logout Controller Backchannel Tests", .serialized)
+@MainActor
+struct LogoutControllerBackchannelTests {
+    let testAppIdent = UUID()
+    let backchannelAppIdent = UUID()
+
+    // MARK: - Helpers
+
+    private func payload(audience: String, tenant: Tenant) -> Payload {
+        Payload(
+            issuer: IssuerClaim(value: "https://test.example.com"),
+            subject: SubjectClaim(value: "holger@mimimi.org"),
+            audience: AudienceClaim(value: audience),
+            expiration: ExpirationClaim(value: Date().addingTimeInterval(3600)),
+            issuedAt: IssuedAtClaim(value: Date()),
+            authTime: AuthTimeClaim(value: Date()),
+            tenant: tenant.name,
+            role: "user",
+            user: "holger@mimimi.org",
+            scope: "openid",
+            profile: nil
+        )
+    }
+
+    private func refreshSession(audience: String, tenant: Tenant) -> AuthSession {
+        .refresh(RefreshSession(
+            state: "state",
+            code: Code(),
+            scopes: ["openid"],
+            payload: payload(audience: audience, tenant: tenant),
+            redirect: "http://localhost:8080/"
+        ))
+    }
+
+    private func setupClients(in storage: EntityStorage) throws -> Tenant {
+        generateTestClient(in: storage, uuid: testAppIdent)
+        guard let tenant = storage.tenants.first else {
+            Issue.record("No tenant")
+            throw TestError.abort
+        }
+        storage.clients.append(Client(
+            name: "Backchannel Client",
+            config: ClientSpec(
+                ident: backchannelAppIdent,
+                tenantname: tenant.name,
+                redirect_urls: ["http://localhost:?([0-9]+)?"],
+                backchannel_logout_uri: "http://localhost:8081/backchannel-logout"
+            )
+        ))
+        return tenant
+    }
+
+    // MARK: - Tests
+
+    @Test("Clients with a backchannel_logout_uri and a refresh token are notified once")
+    func recipientsAreClientsWithBackchannelLogoutUri() async throws {
+        try await withApp(configure: configure) { app in
+            let tenant = try setupClients(in: app.entityStorage)
+            let sessions = [
+                refreshSession(audience: testAppIdent.uuidString, tenant: tenant),
+                refreshSession(audience: backchannelAppIdent.uuidString, tenant: tenant),
+                refreshSession(audience: backchannelAppIdent.uuidString, tenant: tenant)
+            ]
+
+            let recipients = LogoutController.backchannelLogoutRecipients(
+                of: sessions,
+                tenant: tenant,
+                in: app.entityStorage
+            )
+            #expect(recipients.map(\.client.config.ident) == [backchannelAppIdent])
+            #expect(recipients.first?.uri.string == "http://localhost:8081/backchannel-logout")
+            #expect(recipients.first?.audience == backchannelAppIdent.uuidString)
+        }
+    }
+
+    @Test("Clients named by their name in the audience are notified")
+    func recipientsAreFoundByName() async throws {
+        try await withApp(configure: configure) { app in
+            let tenant = try setupClients(in: app.entityStorage)
+            let sessions = [refreshSession(audience: "Backchannel Client", tenant: tenant)]
+
+            let recipients = LogoutController.backchannelLogoutRecipients(
+                of: sessions,
+                tenant: tenant,
+                in: app.entityStorage
+            )
+            #expect(recipients.map(\.client.config.ident) == [backchannelAppIdent])
+            #expect(recipients.first?.audience == "Backchannel Client")
+        }
+    }
+
+    @Test("Clients with a code only are not notified")
+    func codeSessionsAreNotNotified() async throws {
+        try await withApp(configure: configure) { app in
+            let tenant = try setupClients(in: app.entityStorage)
+            let codeSession = AuthSession.code(CodeSession(
+                state: "state",
+                code: Code(),
+                scopes: ["openid"],
+                payload: payload(audience: backchannelAppIdent.uuidString, tenant: tenant),
+                redirect: "http://localhost:8080/"
+            ))
+
+            let recipients = LogoutController.backchannelLogoutRecipients(
+                of: [codeSession],
+                tenant: tenant,
+                in: app.entityStorage
+            )
+            #expect(recipients.isEmpty)
+        }
+    }
+
+    @Test("Logout token carries the logout event and no nonce")
+    func logoutTokenCarriesLogoutEvent() async throws {
+        let logoutToken = LogoutTokenPayload(
+            issuer: IssuerClaim(value: "https://test.example.com"),
+            subject: SubjectClaim(value: "holger@mimimi.org"),
+            audience: AudienceClaim(value: backchannelAppIdent.uuidString)
+        )
+        let (token, _) = try await SignerManager.shared.sign(logoutToken)
+
+        let verified = try await SignerManager.shared.verify(token, as: LogoutTokenPayload.self)
+        #expect(verified.events == [LogoutTokenPayload.backchannelLogoutEvent: [:]])
+        #expect(verified.jwtId.value == logoutToken.jwtId.value)
+        #expect(verified.audience.value == [backchannelAppIdent.uuidString])
+
+        let claims = try JSONSerialization.jsonObject(
+            with: try JSONEncoder().encode(logoutToken)
+        ) as? [String: Any]
+        #expect(claims?["nonce"] == nil)
+        #expect(claims?.keys.sorted() == ["aud", "events", "exp", "iat", "iss", "jti", "sub"])
+    }
+}
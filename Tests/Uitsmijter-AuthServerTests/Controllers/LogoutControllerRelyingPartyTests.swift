@@ -0,0 +1,201 @@
+import Foundation
+import Testing
+import VaporTesting
+@testable import Uitsmijter_AuthServer
+
+@Suite("Logout Controller Relying Party Tests", .serialized)
+struct LogoutControllerRelyingPartyTests {
+    let testAppIdent = UUID()
+    let otherAppIdent = UUID()
+
+    // MARK: - Helpers
+
+    private func idTokenHint(
+        audience: String,
+        expiresIn: TimeInterval = 3600,
+        issuer: String = "https://test.example.com"
+    ) async throws -> String {
+        let idToken = IdTokenPayload(
+            issuer: IssuerClaim(value: issuer),
+            subject: "test",
+            audience: AudienceClaim(value: audience),
+            expiration: .init(value: Date().addingTimeInterval(expiresIn)),
+            issuedAt: IssuedAtClaim(value: Date().addingTimeInterval(-3600)),
+            authTime: AuthTimeClaim(value: Date().addingTimeInterval(-3600))
+        )
+        return try await SignerManager.shared.sign(idToken).token
+    }
+
+    private func logout(
+        app: Application,
+        query: [String: String],
+        host: String? = nil
+    ) async throws -> TestingHTTPResponse {
+        var components = URLComponents()
+        components.path = "/logout"
+        components.queryItems = query.map { URLQueryItem(name: $0.key, value: $0.value) }
+        return try await app.sendRequest(
+            .GET,
+            components.string ?? "/logout",
+            beforeRequest: { @Sendable req async throws in
+                if let host {
+                    req.headers.replaceOrAdd(name: "X-Forwarded-Host", value: host)
+                }
+            })
+    }
+
+    // MARK: - Tests
+
+    @Test("Logout of a client returns to its post_logout_redirect_uri with the state")
+    func logoutOfClientReturnsState() async throws {
+        try await withApp(configure: configure) { app in
+            await generateTestClient(in: app.entityStorage, uuid: testAppIdent)
+
+            let response = try await logout(app: app, query: [
+                "client_id": testAppIdent.uuidString,
+                "post_logout_redirect_uri": "http://localhost:8080/bye",
+                "state": "af0i fj"
+            ])
+            #expect(response.status == .ok)
+            #expect(response.body.string.contains(
+                "logout/finalize?location=http%3A%2F%2Flocalhost%3A8080%2Fbye"
+                    + "&amp;client_id=\(testAppIdent.uuidString)&amp;state=af0i%20fj"
+            ))
+        }
+    }
+
+    @Test("Logout of a client refuses a post_logout_redirect_uri that is not registered")
+    func logoutOfClientRefusesForeignRedirect() async throws {
+        try await withApp(configure: configure) { app in
+            await generateTestClient(in: app.entityStorage, uuid: testAppIdent)
+
+            let response = try await logout(app: app, query: [
+                "client_id": testAppIdent.uuidString,
+                "post_logout_redirect_uri": "https://evil.com/"
+            ])
+            #expect(response.status == .forbidden)
+            #expect(response.body.string.contains("logout/finalize") == false)
+        }
+    }
+
+    @Test("Logout identifies the client by an expired id_token_hint")
+    func logoutIdentifiesClientByIdTokenHint() async throws {
+        try await withApp(configure: configure) { app in
+            await generateTestClient(in: app.entityStorage, uuid: testAppIdent)
+            let hint = try await idTokenHint(audience: testAppIdent.uuidString, expiresIn: -60)
+
+            let allowed = try await logout(app: app, query: [
+                "id_token_hint": hint,
+                "post_logout_redirect_uri": "http://example.com"
+            ])
+            #expect(allowed.status == .ok)
+
+            let refused = try await logout(app: app, query: [
+                "id_token_hint": hint,
+                "post_logout_redirect_uri": "https://evil.com/"
+            ])
+            #expect(refused.status == .forbidden)
+        }
+    }
+
+    @Test("Logout refuses an invalid id_token_hint")
+    func logoutRefusesInvalidIdTokenHint() async throws {
+        try await withApp(configure: configure) { app in
+            await generateTestClient(in: app.entityStorage, uuid: testAppIdent)
+
+            let response = try await logout(app: app, query: ["id_token_hint": "invalid"])
+            #expect(response.status == .badRequest)
+            #expect(response.body.string.contains("ERRORS.INVALID_ID_TOKEN_HINT"))
+        }
+    }
+
+    @Test("Logout refuses an id_token_hint of another client")
+    func logoutRefusesIdTokenHintOfAnotherClient() async throws {
+        try await withApp(configure: configure) { app in
+            await generateTestClient(in: app.entityStorage, uuid: testAppIdent)
+            let hint = try await idTokenHint(audience: UUID().uuidString)
+
+            let response = try await logout(app: app, query: [
+                "id_token_hint": hint,
+                "client_id": testAppIdent.uuidString
+            ])
+            #expect(response.status == .badRequest)
+        }
+    }
+
+    @Test("Logout refuses an access token as id_token_hint")
+    func logoutRefusesAccessTokenAsIdTokenHint() async throws {
+        try await withApp(configure: configure) { app in
+            await generateTestClient(in: app.entityStorage, uuid: testAppIdent)
+            guard let tenant = app.entityStorage.tenants.first else {
+                Issue.record("No tenant")
+                return
+            }
+            let accessToken = Payload(
+                issuer: IssuerClaim(value: "https://test.example.com"),
+                subject: "test",
+                audience: AudienceClaim(value: testAppIdent.uuidString),
+                expiration: .init(value: Date().addingTimeInterval(3600)),
+                issuedAt: IssuedAtClaim(value: Date()),
+                authTime: AuthTimeClaim(value: Date()),
+                tenant: tenant.name,
+                role: "user",
+                user: "test",
+                scope: "openid",
+                profile: nil
+            )
+            let hint = try await SignerManager.shared.sign(accessToken).token
+
+            let response = try await logout(app: app, query: [
+                "id_token_hint": hint,
+                "post_logout_redirect_uri": "http://example.com"
+            ])
+            #expect(response.status == .badRequest)
+            #expect(response.body.string.contains("ERRORS.INVALID_ID_TOKEN_HINT"))
+        }
+    }
+
+    @Test("Logout refuses an id_token_hint that another tenant issued")
+    func logoutRefusesIdTokenHintOfAnotherTenant() async throws {
+        try await withApp(configure: configure) { app in
+            await generateTestClientsWithMultipleTenants(in: app.entityStorage, uuids: [testAppIdent, otherAppIdent])
+            let query = { (hint: String) in
+                ["id_token_hint": hint, "post_logout_redirect_uri": "http://example.com"]
+            }
+
+            let ownHint = try await idTokenHint(audience: testAppIdent.uuidString, issuer: "https://127.0.0.1")
+            let allowed = try await logout(app: app, query: query(ownHint), host: "127.0.0.1")
+            #expect(allowed.status == .ok)
+
+            let foreignHint = try await idTokenHint(audience: testAppIdent.uuidString, issuer: "https://127.0.0.2")
+            let refused = try await logout(app: app, query: query(foreignHint), host: "127.0.0.1")
+            #expect(refused.status == .badRequest)
+            #expect(refused.body.string.contains("ERRORS.INVALID_ID_TOKEN_HINT"))
+        }
+    }
+
+    @Test("Logout finalize appends the state to a location of the client only")
+    func logoutFinalizeAppendsState() async throws {
+        try await withApp(configure: configure) { app in
+            await generateTestClient(in: app.entityStorage, uuid: testAppIdent)
+            let clientId = testAppIdent.uuidString
+
+            let ofClient = try await app.sendRequest(
+                .GET,
+                "logout/finalize?location=http%3A%2F%2Flocalhost%3A8080%2Fbye&client_id=\(clientId)&state=af0i%20fj"
+            )
+            #expect(ofClient.status == .seeOther)
+            #expect(ofClient.headers["location"].first == "http://localhost:8080/bye?state=af0i%20fj")
+
+            let withoutClient = try await app.sendRequest(.GET, "logout/finalize?location=/bye%3Fa%3Db&state=af0i%20fj")
+            #expect(withoutClient.status == .seeOther)
+            #expect(withoutClient.headers["location"].first == "/bye?a=b")
+
+            let refused = try await app.sendRequest(
+                .GET,
+                "logout/finalize?location=https://evil.com/&client_id=\(clientId)&state=af0i"
+            )
+            #expect(refused.headers["location"].first == "/")
+        }
+    }
+}
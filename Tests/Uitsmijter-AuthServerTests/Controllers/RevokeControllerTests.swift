@@ -0,0 +1,144 @@
+import Foundation
+import Testing
+import VaporTesting
+@testable import Uitsmijter_AuthServer
+
+@Suite("Revoke Controller Tests", .serialized)
+struct RevokeControllerTests {
+    let testAppIdent = UUID()
+
+    private func revoke(
+        app: Application,
+        token: String,
+        tokenTypeHint: String? = nil,
+        clientId: String
+    ) async throws -> TestingHTTPResponse {
+        try await app.sendRequest(.POST, "/revoke", beforeRequest: { @Sendable req async throws in
+            req.headers.replaceOrAdd(name: "X-Forwarded-Host", value: "localhost")
+            try req.content.encode(RevokeRequest(
+                token: token,
+                token_type_hint: tokenTypeHint,
+                client_id: clientId,
+                client_secret: nil
+            ), as: .urlEncodedForm)
+        })
+    }
+
+    private func refresh(app: Application, refreshToken: String) async throws -> TestingHTTPResponse {
+        let testAppIdentString = testAppIdent.uuidString
+        return try await app.sendRequest(.POST, "/token", beforeRequest: { @Sendable req async throws in
+            let tokenRequest = RefreshTokenRequest(
+                grant_type: .refresh_token,
+                client_id: testAppIdentString,
+                client_secret: nil,
+                refresh_token: refreshToken
+            )
+            try req.content.encode(tokenRequest, as: .json)
+            req.headers.contentType = .json
+        })
+    }
+
+    @Test("Revoked refresh token can not be exchanged")
+    func revokedRefreshTokenCanNotBeExchanged() async throws {
+        try await withApp(configure: configure) { app in
+            await generateTestClient(in: app.entityStorage, uuid: testAppIdent, script: .johnDoe)
+            let code = try await authorisationCodeGrantFlow(app: app, clientIdent: testAppIdent)
+            let tokenResponse = try await getToken(app: app, for: code, appIdent: testAppIdent)
+            guard let refreshToken = tokenResponse.refresh_token else {
+                Issue.record("No refresh token")
+                throw TestError.abort
+            }
+
+            let response = try await revoke(
+                app: app, token: refreshToken, tokenTypeHint: "refresh_token", clientId: testAppIdent.uuidString
+            )
+            #expect(response.status == .ok)
+
+            let stored = await app.authCodeStorage?.get(type: .refresh, codeValue: refreshToken)
+            #expect(stored == nil)
+
+            let refreshResponse = try await refresh(app: app, refreshToken: refreshToken)
+            #expect(refreshResponse.status == .forbidden)
+        }
+    }
+
+    @Test("Refresh token is revoked without a token type hint")
+    func refreshTokenIsRevokedWithoutHint() async throws {
+        try await withApp(configure: configure) { app in
+            await generateTestClient(in: app.entityStorage, uuid: testAppIdent, script: .johnDoe)
+            let code = try await authorisationCodeGrantFlow(app: app, clientIdent: testAppIdent)
+            let tokenResponse = try await getToken(app: app, for: code, appIdent: testAppIdent)
+            guard let refreshToken = tokenResponse.refresh_token else {
+                Issue.record("No refresh token")
+                throw TestError.abort
+            }
+
+            let response = try await revoke(
+                app: app, token: refreshToken, clientId: testAppIdent.uuidString.lowercased()
+            )
+            #expect(response.status == .ok)
+
+            let stored = await app.authCodeStorage?.get(type: .refresh, codeValue: refreshToken)
+            #expect(stored == nil)
+        }
+    }
+
+    @Test("Refresh token of another client is not revoked")
+    func refreshTokenOfAnotherClientIsNotRevoked() async throws {
+        try await withApp(configure: configure) { app in
+            await generateTestClient(in: app.entityStorage, uuid: testAppIdent, script: .johnDoe)
+            let code = try await authorisationCodeGrantFlow(app: app, clientIdent: testAppIdent)
+            let tokenResponse = try await getToken(app: app, for: code, appIdent: testAppIdent)
+            guard let refreshToken = tokenResponse.refresh_token else {
+                Issue.record("No refresh token")
+                throw TestError.abort
+            }
+
+            // A second public client of the same tenant
+            let otherIdent = UUID()
+            await MainActor.run {
+                guard let tenantName = app.entityStorage.clients.first?.config.tenantname else {
+                    return
+                }
+                app.entityStorage.clients.append(Client(
+                    name: "Other Client",
+                    config: ClientSpec(
+                        ident: otherIdent,
+                        tenantname: tenantName,
+                        redirect_urls: ["http://localhost:?([0-9]+)?"]
+                    )
+                ))
+            }
+
+            let response = try await revoke(app: app, token: refreshToken, clientId: otherIdent.uuidString)
+            #expect(response.status == .ok)
+
+            let stored = await app.authCodeStorage?.get(type: .refresh, codeValue: refreshToken)
+            #expect(stored != nil)
+        }
+    }
+
+    @Test("Unknown token returns ok")
+    func unknownTokenReturnsOk() async throws {
+        try await withApp(configure: configure) { app in
+            await generateTestClient(in: app.entityStorage, uuid: testAppIdent, script: .johnDoe)
+
+            let response = try await revoke(
+                app: app, token: String.random(length: Constants.TOKEN.LENGTH), clientId: testAppIdent.uuidString
+            )
+            #expect(response.status == .ok)
+        }
+    }
+
+    @Test("Unknown client is unauthorized")
+    func unknownClientIsUnauthorized() async throws {
+        try await withApp(configure: configure) { app in
+            await generateTestClient(in: app.entityStorage, uuid: testAppIdent, script: .johnDoe)
+
+            let response = try await revoke(
+                app: app, token: String.random(length: Constants.TOKEN.LENGTH), clientId: UUID().uuidString
+            )
+            #expect(response.status == .unauthorized)
+        }
+    }
+}
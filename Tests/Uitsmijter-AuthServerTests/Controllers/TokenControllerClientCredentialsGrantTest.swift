@@ -0,0 +1,156 @@
+import Foundation
+import Testing
+import VaporTesting
+@testable import Uitsmijter_AuthServer
+
+@Suite("Token Controller Client Credentials Grant Tests", .serialized)
+struct TokenControllerClientCredentialsGrantTest {
+    let testAppIdent = UUID()
+    let testSecret = String.random(length: 12)
+
+    // MARK: - Helpers
+
+    private func makeClientCredentialsRequest(secret: String?, scope: String? = nil) -> ClientCredentialsTokenRequest {
+        ClientCredentialsTokenRequest(
+            grant_type: .client_credentials,
+            client_id: testAppIdent.uuidString,
+            client_secret: secret,
+            scope: scope
+        )
+    }
+
+    // MARK: - Tests
+
+    @Test("Client credentials grant issues a token for a confidential client")
+    func clientCredentialsIssuesToken() async throws {
+        try await withApp(configure: configure) { app in
+            await generateTestClientWithSecret(
+                in: app.entityStorage,
+                uuid: testAppIdent,
+                includeGrantTypes: [.client_credentials],
+                secret: testSecret,
+                scopes: ["read", "reports:*"]
+            )
+
+            try await app.testing().test(
+                .POST,
+                "/token",
+                beforeRequest: { @Sendable req async throws in
+                    let tokenRequest = self.makeClientCredentialsRequest(
+                        secret: self.testSecret,
+                        scope: "read reports:list admin"
+                    )
+                    try req.content.encode(tokenRequest, as: .json)
+                    req.headers.contentType = .json
+                },
+                afterResponse: { @Sendable response async throws in
+                    #expect(response.status == .ok)
+                    let content = try response.content.decode(TokenResponse.self)
+                    #expect(content.token_type == .Bearer)
+                    #expect(content.refresh_token == nil)
+                    #expect(content.scope == "read reports:list")
+                    #expect(content.access_token.count > 64)
+                }
+            )
+        }
+    }
+
+    @Test("Client credentials grant without a scope grants the scopes of the client that are no patterns")
+    func clientCredentialsDefaultScopes() async throws {
+        try await withApp(configure: configure) { app in
+            await generateTestClientWithSecret(
+                in: app.entityStorage,
+                uuid: testAppIdent,
+                includeGrantTypes: [.client_credentials],
+                secret: testSecret,
+                scopes: ["write", "read", "reports:*"]
+            )
+
+            try await app.testing().test(
+                .POST,
+                "/token",
+                beforeRequest: { @Sendable req async throws in
+                    try req.content.encode(self.makeClientCredentialsRequest(secret: self.testSecret), as: .json)
+                    req.headers.contentType = .json
+                },
+                afterResponse: { @Sendable response async throws in
+                    #expect(response.status == .ok)
+                    let content = try response.content.decode(TokenResponse.self)
+                    #expect(content.scope == "read write")
+                }
+            )
+        }
+    }
+
+    @Test("Client credentials grant with a wrong secret is unauthorized")
+    func clientCredentialsWrongSecret() async throws {
+        try await withApp(configure: configure) { app in
+            await generateTestClientWithSecret(
+                in: app.entityStorage,
+                uuid: testAppIdent,
+                includeGrantTypes: [.client_credentials],
+                secret: testSecret
+            )
+
+            try await app.testing().test(
+                .POST,
+                "/token",
+                beforeRequest: { @Sendable req async throws in
+                    try req.content.encode(self.makeClientCredentialsRequest(secret: "wrong"), as: .json)
+                    req.headers.contentType = .json
+                },
+                afterResponse: { @Sendable response async throws in
+                    #expect(response.status == .unauthorized)
+                }
+            )
+        }
+    }
+
+    @Test("Client credentials grant of a client without a secret is unauthorized")
+    func clientCredentialsPublicClient() async throws {
+        try await withApp(configure: configure) { app in
+            await generateTestClient(
+                in: app.entityStorage,
+                uuid: testAppIdent,
+                includeGrantTypes: [.client_credentials]
+            )
+
+            try await app.testing().test(
+                .POST,
+                "/token",
+                beforeRequest: { @Sendable req async throws in
+                    try req.content.encode(self.makeClientCredentialsRequest(secret: nil), as: .json)
+                    req.headers.contentType = .json
+                },
+                afterResponse: { @Sendable response async throws in
+                    #expect(response.status == .unauthorized)
+                    #expect(response.body.string.contains("ERRORS.CLIENT_NOT_CONFIDENTIAL"))
+                }
+            )
+        }
+    }
+
+    @Test("Client credentials grant is refused for clients that do not allow it")
+    func clientCredentialsNotAllowed() async throws {
+        try await withApp(configure: configure) { app in
+            await generateTestClientWithSecret(
+                in: app.entityStorage,
+                uuid: testAppIdent,
+                includeGrantTypes: [.authorization_code],
+                secret: testSecret
+            )
+
+            try await app.testing().test(
+                .POST,
+                "/token",
+                beforeRequest: { @Sendable req async throws in
+                    try req.content.encode(self.makeClientCredentialsRequest(secret: self.testSecret), as: .json)
+                    req.headers.contentType = .json
+                },
+                afterResponse: { @Sendable response async throws in
+                    #expect(response.status == .badRequest)
+                }
+            )
+        }
+    }
+}
@@ -179,4 +179,65 @@ struct TokenControllerDifferentTenantsTest {
             })
         }
     }
+
+    @Test("Can not request a token for a client on the host of another tenant")
+    func canNotRequestTokenOnHostOfOtherTenant() async throws {
+        try await withApp(configure: configure) { app in
+            await generateTestClientsWithMultipleTenants(
+                in: app.entityStorage,
+                uuids: [testAppIdent1, testAppIdent2],
+                script: .johnDoe
+            )
+            let clientIdentString = testAppIdent1.uuidString
+            let code = try await authorisationCodeGrantFlow(app: app, clientIdent: testAppIdent1)
+
+            // 127.0.0.2 is the host of the tenant of testAppIdent2
+            try await app.testing().test(.POST, "/token", beforeRequest: { @Sendable req async throws in
+                let tokenRequest = CodeTokenRequest(
+                    grant_type: .authorization_code,
+                    client_id: clientIdentString,
+                    code: Code(value: code).value
+                )
+                try req.content.encode(tokenRequest, as: .json)
+                req.headers.contentType = .json
+                req.headers.replaceOrAdd(name: "X-Forwarded-Host", value: "127.0.0.2")
+            }, afterResponse: { @Sendable response async in
+                #expect(response.body.string.contains("TENANT_MISMATCH"))
+                #expect(response.status == .forbidden)
+            })
+        }
+    }
+
+    @Test("Can not get the token info on the host of another tenant")
+    func canNotGetTokenInfoOnHostOfOtherTenant() async throws {
+        try await withApp(configure: configure) { app in
+            await generateTestClientsWithMultipleTenants(
+                in: app.entityStorage,
+                uuids: [testAppIdent1, testAppIdent2],
+                script: .johnDoe
+            )
+            let clientIdentString = testAppIdent1.uuidString
+            let code = try await authorisationCodeGrantFlow(app: app, clientIdent: testAppIdent1)
+            let response = try await app.sendRequest(.POST, "/token", beforeRequest: { @Sendable req async throws in
+                let tokenRequest = CodeTokenRequest(
+                    grant_type: .authorization_code,
+                    client_id: clientIdentString,
+                    code: Code(value: code).value
+                )
+                try req.content.encode(tokenRequest, as: .json)
+                req.headers.contentType = .json
+            })
+            #expect(response.status == .ok)
+            let accessToken = try response.content.decode(TokenResponse.self).access_token
+
+            for (host, status) in [("127.0.0.1", HTTPStatus.ok), ("127.0.0.2", HTTPStatus.unauthorized)] {
+                try await app.testing().test(.GET, "/token/info", beforeRequest: { @Sendable req async throws in
+                    req.headers.bearerAuthorization = BearerAuthorization(token: accessToken)
+                    req.headers.replaceOrAdd(name: "X-Forwarded-Host", value: host)
+                }, afterResponse: { @Sendable response async in
+                    #expect(response.status == status)
+                })
+            }
+        }
+    }
 }
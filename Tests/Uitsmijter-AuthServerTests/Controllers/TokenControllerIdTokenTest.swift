@@ -0,0 +1,105 @@
+import Foundation
+import Testing
+import VaporTesting
+@testable import Uitsmijter_AuthServer
+
+@Suite("Token Controller ID Token Tests", .serialized)
+struct TokenControllerIdTokenTest {
+    let testAppIdent = UUID()
+    let profile: CodableProfile = .object([
+        "name": .string("Holger Mimimi"),
+        "email": .string("holger@mimimi.org"),
+        "department": .string("Engineering")
+    ])
+
+    // MARK: - Helpers
+
+    private func tokens(app: Application, scopes: [String], nonce: String? = nil) async throws -> TokenResponse {
+        await generateTestClient(in: app.entityStorage, uuid: testAppIdent)
+        let code = try await getOpenIdCode(
+            in: app.entityStorage,
+            application: app,
+            clientUUID: testAppIdent,
+            scopes: scopes,
+            nonce: nonce,
+            profile: profile,
+            authTime: Date(timeIntervalSince1970: 1_700_000_000)
+        )
+        return try await getToken(app: app, for: code, appIdent: testAppIdent)
+    }
+
+    private func idTokenPayload(of tokenResponse: TokenResponse) async throws -> IdTokenPayload {
+        guard let idToken = tokenResponse.id_token else {
+            Issue.record("No id_token")
+            throw TestError.abort
+        }
+        return try await SignerManager.shared.verify(idToken, as: IdTokenPayload.self)
+    }
+
+    // MARK: - Tests
+
+    @Test("ID Token is issued for the openid scope")
+    func idTokenIsIssued() async throws {
+        try await withApp(configure: configure) { app in
+            let tokenResponse = try await tokens(app: app, scopes: ["openid"], nonce: "n0nc3")
+            let idToken = try await idTokenPayload(of: tokenResponse)
+
+            #expect(idToken.nonce == "n0nc3")
+            #expect(idToken.audience.value == [testAppIdent.uuidString])
+            #expect(idToken.subject.value == "test")
+            #expect(idToken.authTime.value.timeIntervalSince1970 == 1_700_000_000)
+            #expect(idToken.accessTokenHash == IdTokenPayload.accessTokenHash(of: tokenResponse.access_token))
+            #expect(idToken.claims.isEmpty)
+        }
+    }
+
+    @Test("ID Token is not issued without the openid scope")
+    func idTokenIsNotIssuedWithoutOpenId() async throws {
+        try await withApp(configure: configure) { app in
+            let tokenResponse = try await tokens(app: app, scopes: ["profile"])
+            #expect(tokenResponse.id_token == nil)
+        }
+    }
+
+    @Test("ID Token carries the claims of the granted scopes")
+    func idTokenCarriesClaimsOfScopes() async throws {
+        try await withApp(configure: configure) { app in
+            let tokenResponse = try await tokens(app: app, scopes: ["openid", "profile"])
+            let idToken = try await idTokenPayload(of: tokenResponse)
+
+            #expect(idToken.nonce == nil)
+            #expect(idToken.claims["name"]?.string == "Holger Mimimi")
+            #expect(idToken.claims["email"] == nil)
+            #expect(idToken.claims["department"] == nil)
+        }
+    }
+
+    @Test("Refreshed ID Token has no nonce")
+    func refreshedIdTokenHasNoNonce() async throws {
+        try await withApp(configure: configure) { app in
+            let tokenResponse = try await tokens(app: app, scopes: ["openid", "email"], nonce: "n0nc3")
+            guard let refreshToken = tokenResponse.refresh_token else {
+                Issue.record("No refresh token")
+                throw TestError.abort
+            }
+
+            let response = try await app.sendRequest(.POST, "/token", beforeRequest: { @Sendable req async throws in
+                let tokenRequest = RefreshTokenRequest(
+                    grant_type: .refresh_token,
+                    client_id: testAppIdent.uuidString,
+                    client_secret: nil,
+                    refresh_token: refreshToken
+                )
+                try req.content.encode(tokenRequest, as: .json)
+                req.headers.contentType = .json
+            })
+            #expect(response.status == .ok)
+
+            let refreshed = try response.content.decode(TokenResponse.self)
+            let idToken = try await idTokenPayload(of: refreshed)
+            #expect(idToken.nonce == nil)
+            #expect(idToken.claims["email"]?.string == "holger@mimimi.org")
+            #expect(idToken.accessTokenHash == IdTokenPayload.accessTokenHash(of: refreshed.access_token))
+        }
+    }
+}
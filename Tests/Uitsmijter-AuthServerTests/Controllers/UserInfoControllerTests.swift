@@ -0,0 +1,88 @@
+import Foundation
+import Testing
+import VaporTesting
+@testable import Uitsmijter_AuthServer
+
+@Suite("UserInfo Controller Tests", .serialized)
+struct UserInfoControllerTests {
+    let testAppIdent = UUID()
+
+    // MARK: - Helpers
+
+    private func accessToken(app: Application, scopes: [String]) async throws -> String {
+        await generateTestClient(in: app.entityStorage, uuid: testAppIdent)
+        let code = try await getOpenIdCode(
+            in: app.entityStorage,
+            application: app,
+            clientUUID: testAppIdent,
+            scopes: scopes,
+            profile: .object([
+                "name": .string("Holger Mimimi"),
+                "email": .string("holger@mimimi.org"),
+                "email_verified": .boolean(true),
+                "department": .string("Engineering")
+            ])
+        )
+        return try await getToken(app: app, for: code, appIdent: testAppIdent).access_token
+    }
+
+    private func userInfo(app: Application, accessToken: String?) async throws -> TestingHTTPResponse {
+        try await app.sendRequest(.GET, "/userinfo", beforeRequest: { @Sendable req in
+            if let accessToken {
+                req.headers.bearerAuthorization = BearerAuthorization(token: accessToken)
+            }
+        })
+    }
+
+    // MARK: - Tests
+
+    @Test("UserInfo returns the claims of the email scope")
+    func userInfoReturnsEmailClaims() async throws {
+        try await withApp(configure: configure) { app in
+            let accessToken = try await accessToken(app: app, scopes: ["openid", "email"])
+
+            let response = try await userInfo(app: app, accessToken: accessToken)
+            #expect(response.status == .ok)
+
+            let claims = try response.content.decode([String: CodableProfile].self)
+            #expect(claims["sub"]?.string == "test")
+            #expect(claims["email"]?.string == "holger@mimimi.org")
+            #expect(claims["email_verified"]?.bool == true)
+            #expect(claims["name"] == nil)
+            #expect(claims["department"] == nil)
+        }
+    }
+
+    @Test("UserInfo returns the claims of the profile scope")
+    func userInfoReturnsProfileClaims() async throws {
+        try await withApp(configure: configure) { app in
+            let accessToken = try await accessToken(app: app, scopes: ["openid", "profile"])
+
+            let response = try await userInfo(app: app, accessToken: accessToken)
+            let claims = try response.content.decode([String: CodableProfile].self)
+            #expect(claims["name"]?.string == "Holger Mimimi")
+            #expect(claims["email"] == nil)
+        }
+    }
+
+    @Test("UserInfo is forbidden without the openid scope")
+    func userInfoWithoutOpenIdIsForbidden() async throws {
+        try await withApp(configure: configure) { app in
+            let accessToken = try await accessToken(app: app, scopes: ["profile"])
+
+            let response = try await userInfo(app: app, accessToken: accessToken)
+            #expect(response.status == .forbidden)
+            #expect(response.body.string.contains("ERRORS.INSUFFICIENT_SCOPE"))
+        }
+    }
+
+    @Test("UserInfo without a token is unauthorized")
+    func userInfoWithoutTokenIsUnauthorized() async throws {
+        try await withApp(configure: configure) { app in
+            await generateTestClient(in: app.entityStorage, uuid: testAppIdent)
+
+            let response = try await userInfo(app: app, accessToken: nil)
+            #expect(response.status == .unauthorized)
+        }
+    }
+}
@@ -136,4 +136,20 @@ import Testing
         let notFoundClient = Client.find(in: storage, ref: .file(nonExistingNewFile))
         #expect(notFoundClient == nil)
     }
+
+    // MARK: - audience
+
+    @Test func clientIsAudienceByIdentOrName() async throws {
+        let ident = UUID()
+        let client = Client(
+            name: "First Client",
+            config: ClientSpec(ident: ident, tenantname: "Test Tenant", redirect_urls: [])
+        )
+
+        #expect(client.isAudience(ident.uuidString))
+        #expect(client.isAudience(ident.uuidString.lowercased()))
+        #expect(client.isAudience("First Client"))
+        #expect(client.isAudience("first client") == false)
+        #expect(client.isAudience(UUID().uuidString) == false)
+    }
 }
@@ -0,0 +1,71 @@
+import Foundation
+@testable import Uitsmijter_AuthServer
+import Testing
+
+@MainActor
+@Suite(.serialized) struct TenantRedirectTests {
+
+    private func setupTenant(in storage: EntityStorage) -> Tenant {
+        storage.tenants.removeAll()
+        storage.clients.removeAll()
+
+        let tenant = Tenant(
+            name: "egg-tenant",
+            config: TenantSpec(
+                hosts: ["*.egg.example.com", "egg.example.org"],
+                interceptor: TenantInterceptorSettings(enabled: true, domain: "login.example.com")
+            )
+        )
+        let (inserted, _) = storage.tenants.insert(tenant)
+        #expect(inserted)
+
+        storage.clients = [
+            Client(
+                name: "egg-client",
+                config: ClientSpec(
+                    ident: UUID(),
+                    tenantname: tenant.name,
+                    redirect_urls: ["^http://localhost:[0-9]+/$"],
+                    scopes: ["read"],
+                    referrers: nil
+                )
+            ),
+            Client(
+                name: "other-client",
+                config: ClientSpec(
+                    ident: UUID(),
+                    tenantname: "other-tenant",
+                    redirect_urls: [".*"],
+                    scopes: ["read"],
+                    referrers: nil
+                )
+            )
+        ]
+        return tenant
+    }
+
+    @Test func allowsRedirectsOnTheTenant() async throws {
+        let storage = EntityStorage()
+        let tenant = setupTenant(in: storage)
+
+        #expect(tenant.allowsRedirect(try RedirectUri("/logout/done"), in: storage))
+        #expect(tenant.allowsRedirect(try RedirectUri("https://yolk.egg.example.com/"), in: storage))
+        #expect(tenant.allowsRedirect(try RedirectUri("//YOLK.egg.example.com"), in: storage))
+        #expect(tenant.allowsRedirect(try RedirectUri("https://egg.example.org/?back=1"), in: storage))
+        #expect(tenant.allowsRedirect(try RedirectUri("https://login.example.com/login"), in: storage))
+        #expect(tenant.allowsRedirect(try RedirectUri("http://localhost:8080/"), in: storage))
+    }
+
+    @Test func rejectsRedirectsOffTheTenant() async throws {
+        let storage = EntityStorage()
+        let tenant = setupTenant(in: storage)
+
+        #expect(tenant.allowsRedirect(try RedirectUri("https://evil.example/"), in: storage) == false)
+        #expect(tenant.allowsRedirect(try RedirectUri("//evil.example"), in: storage) == false)
+        #expect(tenant.allowsRedirect(try RedirectUri("https://evil.example/.egg.example.com/"), in: storage) == false)
+        #expect(tenant.allowsRedirect(try RedirectUri("https://egg.example.org.evil.example/"), in: storage) == false)
+        #expect(tenant.allowsRedirect(try RedirectUri("https://egg.example.org@evil.example/"), in: storage) == false)
+        #expect(tenant.allowsRedirect(try RedirectUri("http://localhost:8080/callback"), in: storage) == false)
+        #expect(tenant.allowsRedirect(try RedirectUri("javascript:alert(1)"), in: storage) == false)
+    }
+}
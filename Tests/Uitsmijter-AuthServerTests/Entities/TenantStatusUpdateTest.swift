@@ -96,7 +96,8 @@ struct TenantStatusUpdateTest {
         #expect(beforeWipe == 3)
 
         // Wipe sessions for one user
-        await storage.wipe(tenant: tenant, subject: "test-user-1")
+        let wiped = await storage.wipe(tenant: tenant, subject: "test-user-1")
+        #expect(wiped.map(\.payload?.subject.value) == ["test-user-1"])
 
         // Count should be 2 now
         let afterWipe = await storage.count(tenant: tenant, type: .refresh)
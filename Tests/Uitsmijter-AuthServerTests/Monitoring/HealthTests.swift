@@ -1,3 +1,4 @@
+import Foundation
 import Testing
 import VaporTesting
 @testable import Uitsmijter_AuthServer
@@ -14,4 +15,41 @@ struct HealthTests {
             })
         }
     }
+
+    @Test("GET /health stays up without tenants")
+    func getHealthWithoutTenants() async throws {
+        try await withApp(configure: configure) { app in
+            await MainActor.run {
+                app.entityStorage.tenants.removeAll()
+            }
+
+            try await app.testing().test(.GET, "health", afterResponse: { @Sendable res async throws in
+                #expect(res.status == .noContent)
+            })
+        }
+    }
+
+    @Test("GET /health/ready returns no content with a tenant")
+    func getReady() async throws {
+        try await withApp(configure: configure) { app in
+            await generateTestClient(in: app.entityStorage, uuid: UUID())
+
+            try await app.testing().test(.GET, "health/ready", afterResponse: { @Sendable res async throws in
+                #expect(res.status == .noContent)
+            })
+        }
+    }
+
+    @Test("GET /health/ready fails without tenants")
+    func getReadyWithoutTenants() async throws {
+        try await withApp(configure: configure) { app in
+            await MainActor.run {
+                app.entityStorage.tenants.removeAll()
+            }
+
+            try await app.testing().test(.GET, "health/ready", afterResponse: { @Sendable res async throws in
+                #expect(res.status == .expectationFailed)
+            })
+        }
+    }
 }
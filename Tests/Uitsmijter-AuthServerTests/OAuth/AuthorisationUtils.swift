@@ -435,6 +435,64 @@ func getCode(
     return codeValue
 }
 
+/// Helper function to get a code for an OpenID Connect authorization request of a logged in user
+///
+/// - Parameter scopes: Requested scopes, e.g. `["openid", "profile"]`
+/// - Parameter nonce: The nonce of the authorization request
+/// - Parameter profile: The profile of the logged in user
+/// - Parameter authTime: The time when the user has logged in
+func getOpenIdCode(
+    in storage: EntityStorage,
+    application app: Application,
+    clientUUID testAppIdent: UUID,
+    scopes: [String],
+    nonce: String? = nil,
+    profile: CodableProfile? = nil,
+    authTime: Date = Date()
+) async throws -> String {
+    guard let tenant: Tenant = await storage.clients.first(
+        where: { $0.config.ident == testAppIdent }
+    )?.config.tenant(in: app.entityStorage)
+    else {
+        Issue.record("No tenant in client")
+        throw TestError.abort
+    }
+    let payload = Payload(
+        issuer: IssuerClaim(value: "https://test.example.com"),
+        subject: "test",
+        audience: AudienceClaim(value: testAppIdent.uuidString),
+        expiration: .init(value: Date().addingTimeInterval(3600)),
+        issuedAt: IssuedAtClaim(value: Date()),
+        authTime: AuthTimeClaim(value: authTime),
+        tenant: tenant.name,
+        role: "default",
+        user: "holger@mimimi.org",
+        scope: "",
+        profile: profile
+    )
+    let (tokenString, _) = try await SignerManager.shared.sign(payload)
+
+    let url = "authorize"
+        + "?response_type=code"
+        + "&client_id=\(testAppIdent.uuidString)"
+        + "&redirect_uri=http://localhost/"
+        + "&scope=\(scopes.joined(separator: "+"))"
+        + "&state=123"
+        + (nonce.map { "&nonce=\($0)" } ?? "")
+    let response = try await app.sendRequest(.GET, url, beforeRequest: { @Sendable req async throws in
+        req.headers.add(name: "referer", value: "http://example.com")
+        req.headers.bearerAuthorization = BearerAuthorization(token: tokenString)
+    })
+    #expect(response.status == .seeOther)
+
+    guard let location = response.headers["location"].first,
+          let code = try location.groups(regex: "code=([a-zA-Z0-9]+)").last else {
+        Issue.record("No code found")
+        throw TestError.abort
+    }
+    return code
+}
+
 func authorisationCodeGrantFlow(
     app: Application,
     clientIdent testAppIdent: UUID,
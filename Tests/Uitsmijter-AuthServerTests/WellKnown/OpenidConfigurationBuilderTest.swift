@@ -79,6 +79,8 @@ struct OpenidConfigurationBuilderTest {
         #expect(config.authorization_endpoint == "https://auth.example.com/authorize")
         #expect(config.token_endpoint == "https://auth.example.com/token")
         #expect(config.jwks_uri == "https://auth.example.com/.well-known/jwks.json")
+        #expect(config.introspection_endpoint == "https://auth.example.com/introspect")
+        #expect(config.backchannel_logout_supported == true)
         #expect(config.response_types_supported == ["code"])
         #expect(config.subject_types_supported == ["public"])
         // Default algorithm is HS256 when tenant has no jwt_algorithm configured
@@ -337,7 +339,7 @@ struct OpenidConfigurationBuilderTest {
         #expect(config.authorization_endpoint == "\(expectedIssuer)/authorize")
         #expect(config.token_endpoint == "\(expectedIssuer)/token")
         #expect(config.jwks_uri == "\(expectedIssuer)/.well-known/jwks.json")
-        #expect(config.userinfo_endpoint == "\(expectedIssuer)/token/info")
+        #expect(config.userinfo_endpoint == "\(expectedIssuer)/userinfo")
     }
 
     @Test("Builder includes PKCE code challenge methods")
@@ -378,6 +380,8 @@ struct OpenidConfigurationBuilderTest {
         #expect(config.claims_supported?.contains("name") == true)
         #expect(config.claims_supported?.contains("email") == true)
         #expect(config.claims_supported?.contains("tenant") == true)
+        #expect(config.claims_supported?.contains("nonce") == true)
+        #expect(config.claims_supported?.contains("at_hash") == true)
     }
 
     @Test("Builder includes end session endpoint")
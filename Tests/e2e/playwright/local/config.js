@@ -0,0 +1,117 @@
+// Configuration of the local test stack, see `Tests/e2e/readme.md#local-test-stack`.
+//
+// The hosts mirror the ingresses of `Deployment/e2e`: the domains of `helm.yml`, the login proxies with the
+// `forward-header` middleware and the web servers behind the `forward-auth` middleware.
+
+const fs = require('fs');
+const path = require('path');
+
+const projectDir = path.resolve(__dirname, '../../../..');
+const e2eDir = path.join(projectDir, 'Deployment', 'e2e');
+
+// Template bundles of the e2e tenants (`applications/<Name>/template-<name>`), or the directory of
+// UITSMIJTER_E2E_TEMPLATES only. Checked by `tests/Pages/TemplateContract.spec.ts`
+function templateBundles() {
+    if (process.env.UITSMIJTER_E2E_TEMPLATES) {
+        return {custom: path.resolve(process.env.UITSMIJTER_E2E_TEMPLATES)};
+    }
+    const applications = path.join(e2eDir, 'applications');
+    return Object.fromEntries(fs.readdirSync(applications, {withFileTypes: true})
+        .filter((application) => application.isDirectory())
+        .flatMap((application) => fs.readdirSync(path.join(applications, application.name), {withFileTypes: true})
+            .filter((entry) => entry.isDirectory() && entry.name.startsWith('template-'))
+            .map((entry) => [
+                `${application.name.toLowerCase()}-${entry.name}`,
+                path.join(applications, application.name, entry.name),
+            ])));
+}
+
+const ports = {
+    uitsmijter: Number(process.env.UITSMIJTER_E2E_PORT ?? 18080),
+    proxy: Number(process.env.UITSMIJTER_E2E_PROXY_PORT ?? 18888),
+    s3: Number(process.env.UITSMIJTER_E2E_S3_PORT ?? 8333),
+};
+
+module.exports = {
+    projectDir,
+    e2eDir,
+    ports,
+
+    // Build output of `swift build`, or the binary of a release build
+    binary: process.env.UITSMIJTER_BINARY ?? path.join(projectDir, '.build', 'debug', 'Uitsmijter'),
+    // Working directory with the resources and the tenants and clients for the EntityFileLoader
+    workDir: path.join(projectDir, '.build', 'e2e-local'),
+    // Shared with the certificate of `kindSetupCert`
+    certificate: path.join(e2eDir, 'traefik', 'certificates', 'tls'),
+
+    // Files with Tenant and Client resources, default namespace of the file first
+    manifests: [
+        ['uitsmijter', path.join(e2eDir, 'uitsmijter-tenant.yaml')],
+        ['uitsmijter', path.join(e2eDir, 'uitsmijter-client.yaml')],
+        [null, path.join(e2eDir, 'applications')],
+    ],
+
+    // The environment of the helm chart with the values of `Deployment/e2e/helm.yml`
+    environment: {
+        JWT_SECRET: 'forTestingPurposesOnly',
+        PUBLIC_DOMAIN: 'uitsmijter.localhost',
+        SECURE: 'true',
+        LOG_LEVEL: 'debug',
+        COOKIE_DOMAINS: JSON.stringify({
+            'uitsmijter.localhost': '.uitsmijter.localhost',
+            'id.example.com': '.example.com',
+            'id-rs256.example.com': '.example.com',
+            'login-rs256.example.com': '.example.com',
+            'pepper.example.com': 'pepper.example.com',
+            'login.bnbc.example': '.bnbc.example',
+        }),
+    },
+
+    // S3 stand-in for tenant templates (`spec.templates`), replaces `host` of every tenant template config
+    s3: {
+        host: `http://127.0.0.1:${ports.s3}`,
+        buckets: {
+            // see `Deployment/e2e/applications/Ham/postinstall.sh`
+            bucketname: {
+                test: path.join(e2eDir, 'applications', 'Ham', 'template-techy'),
+            },
+            // Template bundles by name, e.g. `bundles/ham-template-techy/login.leaf`
+            bundles: templateBundles(),
+        },
+    },
+
+    // Routes of the reverse proxy, by host or `*.domain` for all subdomains
+    //   uitsmijter: passed to Uitsmijter
+    //   interceptor: passed to Uitsmijter with `X-Uitsmijter-Mode: interceptor`
+    //   page: asks `/interceptor` first (forward-auth), then serves the files of a ConfigMap `namespace/name`
+    //         with `index` for `/`. `public` pages skip the forward-auth, `static` serves the files of a
+    //         directory below a path prefix without authentication
+    hosts: {
+        'uitsmijter.localhost': {type: 'uitsmijter'},
+        'id.example.com': {type: 'uitsmijter'},
+        'id-rs256.example.com': {type: 'uitsmijter'},
+        'login-rs256.example.com': {type: 'uitsmijter'},
+        'pepper.example.com': {type: 'uitsmijter'},
+        'login.bnbc.example': {type: 'uitsmijter'},
+        // Tenants of the entity fixtures, see `tests/Fixtures/entities.ts`
+        '*.fixture.test': {type: 'uitsmijter'},
+
+        'login.example.com': {type: 'interceptor'},
+        'missing-tenant.example.com': {type: 'interceptor'},
+        'id.ham.test': {type: 'interceptor'},
+
+        'cookbooks.example.com': {type: 'page', configMap: 'cheese/cookbooks-content', index: 'index.html'},
+        'toast.example.com': {type: 'page', configMap: 'cheese/cookbooks-content', index: 'toast.html'},
+        'spa.example.net': {type: 'page', configMap: 'cheese/cookbooks-content', index: 'spa.html', public: true},
+        'goat.example.com': {type: 'page', configMap: 'cheese/goat-content', index: 'index.html'},
+        'glair.egg.example.com': {type: 'page', configMap: 'egg/glair-content', index: 'index.html'},
+        'yolk.egg.example.com': {type: 'page', configMap: 'egg/yolk-content', index: 'index.html'},
+        'blog.bnbc.example': {type: 'page', configMap: 'bnbc/bnbc-content', index: 'index.html'},
+        'shop.bnbc.example': {type: 'page', configMap: 'bnbc-shop/bnbc-content', index: 'index.html'},
+        'page.ham.test': {
+            type: 'page', configMap: 'ham/ham-content', index: 'index.html',
+            static: {prefix: '/static', directory: path.join(e2eDir, 'applications', 'Ham', 'template-techy')},
+        },
+        'shop.ham.test': {type: 'page', configMap: 'ham-shop/ham-content', index: 'index.html'},
+    },
+};
@@ -0,0 +1,143 @@
+// Reads the Kubernetes manifests of `Deployment/e2e` without a YAML parser.
+//
+// Only the shapes used in those files are supported: documents separated by `---`, two space indentation and
+// block scalars (`|`) for ConfigMap data.
+
+const fs = require('fs');
+const path = require('path');
+
+function yamlFiles(fileOrDirectory) {
+    if (!fs.statSync(fileOrDirectory).isDirectory()) {
+        return [fileOrDirectory];
+    }
+    return fs.readdirSync(fileOrDirectory, {withFileTypes: true})
+        .flatMap((entry) => {
+            const entryPath = path.join(fileOrDirectory, entry.name);
+            if (entry.isDirectory()) {
+                return yamlFiles(entryPath);
+            }
+            return /\.ya?ml$/.test(entry.name) ? [entryPath] : [];
+        })
+        .sort();
+}
+
+// Lines of the block below `key:` with an indentation of `indent`, de-indented by two spaces
+function block(lines, key, indent = '') {
+    const start = lines.findIndex((line) => line === `${indent}${key}:`);
+    if (start < 0) {
+        return [];
+    }
+    const childIndent = indent + '  ';
+    const result = [];
+    for (const line of lines.slice(start + 1)) {
+        if (line.trim() !== '' && !line.startsWith(childIndent)) {
+            break;
+        }
+        result.push(line.slice(2));
+    }
+    return result;
+}
+
+function scalar(lines, key, indent = '') {
+    const prefix = `${indent}${key}:`;
+    const line = lines.find((line) => line.startsWith(prefix + ' '));
+    return line?.slice(prefix.length).trim().replace(/^["']|["']$/g, '');
+}
+
+/**
+ * All documents of a file or directory as `{file, kind, name, namespace, lines}`.
+ */
+function readDocuments(fileOrDirectory, defaultNamespace = null) {
+    return yamlFiles(fileOrDirectory).flatMap((file) => fs.readFileSync(file, 'utf8')
+        .split(/^---\s*$/m)
+        .map((text) => text.split('\n').filter((line) => !line.startsWith('#')))
+        .map((lines) => {
+            const metadata = block(lines, 'metadata');
+            return {
+                file,
+                kind: scalar(lines, 'kind'),
+                name: scalar(metadata, 'name'),
+                namespace: scalar(metadata, 'namespace') ?? defaultNamespace,
+                lines,
+            };
+        })
+        .filter((document) => document.kind !== undefined)
+    );
+}
+
+/**
+ * Converts a Tenant or Client resource into the format of the EntityFileLoader.
+ *
+ * Tenants are named `namespace/name` like the EntityCRDLoader does.
+ */
+function toEntityFile(document) {
+    const spec = block(document.lines, 'spec');
+    if (spec.length === 0) {
+        throw new Error(`${document.kind} ${document.name} in ${document.file} has no spec`);
+    }
+    const name = document.kind === 'Tenant' ? `${document.namespace}/${document.name}` : document.name;
+    return ['---', `name: ${name}`, 'config:', ...spec.map((line) => line === '' ? '' : '  ' + line)].join('\n') + '\n';
+}
+
+/**
+ * A scalar value in the spec of a resource, e.g. the `tenantname` of a Client.
+ */
+function specValue(document, key) {
+    return scalar(block(document.lines, 'spec'), key);
+}
+
+/**
+ * The entries of a list in the spec of a resource, e.g. the `hosts` of a Tenant.
+ */
+function specList(document, key) {
+    return block(block(document.lines, 'spec'), key)
+        .filter((line) => line.startsWith('- '))
+        .map((line) => line.slice(2).trim().replace(/^["']|["']$/g, ''));
+}
+
+/**
+ * The entries of a list of scripts in the spec of a resource, e.g. the `providers` of a Tenant.
+ *
+ * Block scalars (`- |`) keep their line breaks, plain scalars over several lines are folded into one line.
+ */
+function specScripts(document, key) {
+    const entries = [];
+    for (const line of block(block(document.lines, 'spec'), key)) {
+        if (line.startsWith('- ')) {
+            const value = line.slice(2).trim();
+            entries.push({literal: value === '|', lines: value === '|' ? [] : [value]});
+        } else if (!line.startsWith('#') && entries.length > 0) {
+            entries[entries.length - 1].lines.push(line.slice(2));
+        }
+    }
+    return entries.map(({literal, lines}) => literal
+        ? lines.join('\n').replace(/\n*$/, '\n')
+        : lines.map((line) => line.trim()).filter((line) => line !== '').join(' '));
+}
+
+/**
+ * The `data` of a ConfigMap as a map of file names to contents.
+ */
+function configMapData(document) {
+    const data = {};
+    const lines = block(document.lines, 'data');
+    for (let i = 0; i < lines.length; i++) {
+        const match = lines[i].match(/^([\w.-]+):\s*(.*)$/);
+        if (!match) {
+            continue;
+        }
+        const [, key, value] = match;
+        if (value !== '|' && value !== '|-') {
+            data[key] = value.replace(/^["']|["']$/g, '');
+            continue;
+        }
+        const content = [];
+        while (i + 1 < lines.length && (lines[i + 1].startsWith('  ') || lines[i + 1].trim() === '')) {
+            content.push(lines[++i].slice(2));
+        }
+        data[key] = content.join('\n').replace(/\n*$/, value === '|' ? '\n' : '');
+    }
+    return data;
+}
+
+module.exports = {readDocuments, toEntityFile, specValue, specList, specScripts, configMapData};
@@ -0,0 +1,236 @@
+// Reverse proxy of the local test stack, stands in for traefik and the web servers of `Deployment/e2e`.
+//
+// Browsers and API requests use it as HTTP proxy (`use.proxy` in `playwright.config.ts`). HTTPS is tunneled with
+// CONNECT and terminated here with the self-signed certificate of the e2e cluster, the hosts of `config.hosts`
+// are routed like the ingresses of the cluster.
+
+const fs = require('fs');
+const http = require('http');
+const https = require('https');
+const path = require('path');
+const {execFileSync} = require('child_process');
+const config = require('./config');
+const {readDocuments, configMapData} = require('./manifests');
+
+const uitsmijter = {host: '127.0.0.1', port: config.ports.uitsmijter};
+
+const contentTypes = {
+    '.html': 'text/html',
+    '.js': 'text/javascript',
+    '.css': 'text/css',
+    '.svg': 'image/svg+xml',
+    '.jpg': 'image/jpeg',
+    '.png': 'image/png',
+    '.ttf': 'font/ttf',
+    '.woff': 'font/woff',
+    '.woff2': 'font/woff2',
+};
+
+// Same certificate as `kindSetupCert` in `Deployment/tooling/includes/kind.fns.sh`
+function certificate() {
+    if (!fs.existsSync(`${config.certificate}.crt`)) {
+        fs.mkdirSync(path.dirname(config.certificate), {recursive: true});
+        const domains = Object.keys(config.hosts).map((host) => `DNS:${host}`).join(',');
+        execFileSync('openssl', [
+            'req', '-x509', '-newkey', 'ec', '-pkeyopt', 'ec_paramgen_curve:secp384r1', '-days', '3650',
+            '-nodes', '-keyout', `${config.certificate}.key`, '-out', `${config.certificate}.crt`,
+            '-subj', '/CN=uitsmijter.localhost', '-addext', `subjectAltName=${domains}`,
+        ], {stdio: 'inherit'});
+    }
+    return {key: fs.readFileSync(`${config.certificate}.key`), cert: fs.readFileSync(`${config.certificate}.crt`)};
+}
+
+const configMaps = new Map(
+    readDocuments(path.join(config.e2eDir, 'applications'))
+        .filter((document) => document.kind === 'ConfigMap')
+        .map((document) => [`${document.namespace}/${document.name}`, configMapData(document)])
+);
+
+function notFound(response) {
+    response.writeHead(404, {'Content-Type': 'text/plain; charset=utf-8'});
+    response.end('404 page not found\n');
+}
+
+function forwardedHeaders(request, proto) {
+    const host = request.headers.host.split(':')[0];
+    return {
+        ...request.headers,
+        'x-forwarded-host': host,
+        'x-forwarded-proto': proto,
+        'x-forwarded-port': proto === 'https' ? '443' : '80',
+        'x-forwarded-for': request.socket.remoteAddress,
+        'x-real-ip': request.socket.remoteAddress,
+    };
+}
+
+function forward(target, request, response, headers) {
+    const upstream = http.request(
+        {...target, method: request.method, path: request.url, headers},
+        (upstreamResponse) => {
+            response.writeHead(upstreamResponse.statusCode, upstreamResponse.headers);
+            upstreamResponse.pipe(response);
+        }
+    );
+    upstream.on('error', (error) => {
+        response.writeHead(502, {'Content-Type': 'text/plain'});
+        response.end(`Bad Gateway: ${error.message}\n`);
+    });
+    request.pipe(upstream);
+}
+
+function proxyToUitsmijter(request, response, headers) {
+    forward(uitsmijter, request, response, headers);
+}
+
+// Servers of the test runner itself, e.g. the relying party of `tests/Fixtures/relyingParty.ts`. Browsers send
+// loopback requests through the proxy as well.
+function proxyToLoopback(request, response, url) {
+    forward({host: '127.0.0.1', port: url.port || 80}, request, response, request.headers);
+}
+
+// traefik forwardAuth: asks `/interceptor`, answers with the auth response unless it is 2xx
+function forwardAuth(request, proto) {
+    const headers = {
+        ...forwardedHeaders(request, proto),
+        'x-forwarded-method': request.method,
+        'x-forwarded-uri': request.url,
+    };
+    delete headers['content-length'];
+    delete headers['transfer-encoding'];
+
+    return new Promise((resolve, reject) => {
+        http.request({...uitsmijter, method: 'GET', path: '/interceptor', headers}, (authResponse) => {
+            const body = [];
+            authResponse.on('data', (chunk) => body.push(chunk));
+            authResponse.on('end', () => resolve({
+                status: authResponse.statusCode,
+                headers: authResponse.headers,
+                body: Buffer.concat(body),
+            }));
+        }).on('error', reject).end();
+    });
+}
+
+function sendFile(response, name, content) {
+    response.writeHead(200, {
+        'Content-Type': contentTypes[path.extname(name)] ?? 'application/octet-stream',
+        'Cache-Control': 'no-cache',
+    });
+    response.end(content);
+}
+
+// nginx `try_files $uri $uri.html $uri/index.html` on a ConfigMap
+function servePage(route, request, response) {
+    const files = configMaps.get(route.configMap) ?? {};
+    const name = new URL(request.url, 'http://localhost').pathname.replace(/^\/+|\/+$/g, '');
+    const candidates = name === '' ? [route.index] : [name, `${name}.html`, `${name}/${route.index}`];
+    const file = candidates.find((candidate) => candidate in files);
+    if (!file) {
+        notFound(response);
+        return;
+    }
+    sendFile(response, file, files[file]);
+}
+
+function serveStatic(route, request, response) {
+    const pathname = decodeURIComponent(new URL(request.url, 'http://localhost').pathname);
+    const file = path.resolve(route.static.directory, '.' + pathname.slice(route.static.prefix.length));
+    if (!file.startsWith(route.static.directory + path.sep) || !fs.existsSync(file) || !fs.statSync(file).isFile()) {
+        notFound(response);
+        return;
+    }
+    sendFile(response, file, fs.readFileSync(file));
+}
+
+// Exact hosts first, then wildcards like `*.fixture.test` for one label
+function routeOf(host) {
+    return config.hosts[host] ?? config.hosts[host.replace(/^[^.]+\./, '*.')];
+}
+
+async function handle(request, response, proto) {
+    const route = routeOf((request.headers.host ?? '').split(':')[0]);
+    if (!route) {
+        notFound(response);
+        return;
+    }
+
+    switch (route.type) {
+        case 'uitsmijter':
+            proxyToUitsmijter(request, response, forwardedHeaders(request, proto));
+            return;
+        case 'interceptor':
+            // forward-header middleware
+            proxyToUitsmijter(request, response, {
+                ...forwardedHeaders(request, proto),
+                'x-uitsmijter-mode': 'interceptor',
+            });
+            return;
+        case 'page':
+            if (route.static && request.url.startsWith(route.static.prefix + '/')) {
+                serveStatic(route, request, response);
+                return;
+            }
+            if (!route.public) {
+                const auth = await forwardAuth(request, proto);
+                if (auth.status < 200 || auth.status >= 300) {
+                    response.writeHead(auth.status, auth.headers);
+                    response.end(auth.body);
+                    return;
+                }
+            }
+            servePage(route, request, response);
+            return;
+    }
+}
+
+function handler(proto) {
+    return (request, response) => handle(request, response, proto).catch((error) => {
+        console.error(`${request.method} ${request.headers.host}${request.url}: ${error.message}`);
+        if (!response.headersSent) {
+            response.writeHead(502, {'Content-Type': 'text/plain'});
+        }
+        response.end(`Bad Gateway: ${error.message}\n`);
+    });
+}
+
+const tlsServer = https.createServer(certificate(), handler('https'));
+const httpHandler = handler('http');
+
+const proxy = http.createServer((request, response) => {
+    if (request.url.startsWith('http://')) {
+        const url = new URL(request.url);
+        // Requests to the proxy carry the absolute url
+        request.url = url.pathname + url.search;
+        request.headers.host = url.host;
+        if (['localhost', '127.0.0.1'].includes(url.hostname)) {
+            proxyToLoopback(request, response, url);
+            return;
+        }
+        // Only the domains of the helm chart have a `web` entrypoint, with the redirect-to-https middleware
+        if (routeOf(url.hostname)?.type === 'uitsmijter') {
+            response.writeHead(301, {Location: `https://${url.hostname}${request.url}`});
+            response.end();
+        } else {
+            notFound(response);
+        }
+        return;
+    }
+    // Direct requests, e.g. `curl -H 'Host: id.example.com' http://127.0.0.1:18888/`
+    httpHandler(request, response);
+});
+
+proxy.on('connect', (request, socket, head) => {
+    socket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+    if (head.length > 0) {
+        socket.unshift(head);
+    }
+    tlsServer.emit('connection', socket);
+});
+
+proxy.on('clientError', (error, socket) => socket.destroy());
+tlsServer.on('tlsClientError', () => undefined);
+
+proxy.listen(config.ports.proxy, '127.0.0.1', () => {
+    console.log(`Proxy listening on http://127.0.0.1:${config.ports.proxy}`);
+});
+['SIGINT', 'SIGTERM'].forEach((signal) => process.on(signal, () => process.exit(0)));
@@ -0,0 +1,73 @@
+// S3 stand-in of the local test stack.
+//
+// Answers GetObject and HeadObject requests for the buckets in `config.s3.buckets` from local directories, in path
+// style (`/bucket/key`) and virtual host style (`bucket.host/key`). Signatures are not checked.
+
+const fs = require('fs');
+const http = require('http');
+const path = require('path');
+const config = require('./config');
+
+function resolve(bucketName, key) {
+    const bucket = config.s3.buckets[bucketName];
+    if (!bucket) {
+        return {error: 'NoSuchBucket'};
+    }
+    const [prefix, ...rest] = key.split('/');
+    const directory = bucket[prefix];
+    const file = directory && path.resolve(directory, ...rest);
+    if (!file || !file.startsWith(directory + path.sep) || !fs.existsSync(file) || !fs.statSync(file).isFile()) {
+        return {error: 'NoSuchKey'};
+    }
+    return {file};
+}
+
+function errorResponse(response, status, code, resource) {
+    response.writeHead(status, {'Content-Type': 'application/xml'});
+    response.end(
+        '<?xml version="1.0" encoding="UTF-8"?>\n'
+        + `<Error><Code>${code}</Code><Message>${code}</Message><Resource>${resource}</Resource></Error>`
+    );
+}
+
+const server = http.createServer((request, response) => {
+    const url = new URL(request.url, 'http://localhost');
+    if (url.pathname === '/health') {
+        response.writeHead(200).end('ok');
+        return;
+    }
+
+    const pathname = decodeURIComponent(url.pathname).replace(/^\/+/, '');
+    const hostBucket = (request.headers.host ?? '').split(':')[0].split('.')[0];
+    const [bucketName, key] = hostBucket in config.s3.buckets
+        ? [hostBucket, pathname]
+        : [pathname.split('/')[0], pathname.split('/').slice(1).join('/')];
+
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+        errorResponse(response, 405, 'MethodNotAllowed', url.pathname);
+        return;
+    }
+    const {file, error} = resolve(bucketName, key);
+    if (error) {
+        errorResponse(response, 404, error, url.pathname);
+        return;
+    }
+
+    const stat = fs.statSync(file);
+    response.writeHead(200, {
+        'Content-Length': stat.size,
+        'Content-Type': 'application/octet-stream',
+        'Last-Modified': stat.mtime.toUTCString(),
+        'ETag': `"${stat.size.toString(16)}-${stat.mtimeMs.toString(16)}"`,
+    });
+    if (request.method === 'HEAD') {
+        response.end();
+        return;
+    }
+    fs.createReadStream(file).pipe(response);
+});
+
+server.listen(config.ports.s3, '127.0.0.1', () => {
+    console.log(`S3 stand-in listening on ${config.s3.host}`);
+});
+['SIGINT', 'SIGTERM'].forEach((signal) => process.on(signal, () => server.close(() => process.exit(0))));
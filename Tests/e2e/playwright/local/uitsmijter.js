@@ -0,0 +1,70 @@
+// Starts the Uitsmijter server for the local test stack.
+//
+// Converts the Tenant and Client resources of `Deployment/e2e` into files for the EntityFileLoader, prepares a
+// working directory with the resources and runs the server binary with the environment of the helm chart.
+// In-memory storage is used, set REDIS_HOST to run against a Redis instead.
+
+const fs = require('fs');
+const path = require('path');
+const {spawn} = require('child_process');
+const config = require('./config');
+const {readDocuments, toEntityFile} = require('./manifests');
+
+function prepareWorkDir() {
+    const resources = path.join(config.workDir, 'Resources');
+    fs.rmSync(config.workDir, {recursive: true, force: true});
+
+    // Templates of tenants are written into the views, so the resources are copied and not linked
+    fs.cpSync(path.join(config.projectDir, 'Resources'), resources, {
+        recursive: true,
+        filter: (source) => !source.includes(`${path.sep}Configurations`),
+    });
+    fs.symlinkSync(path.join(config.projectDir, 'Public'), path.join(config.workDir, 'Public'), 'dir');
+
+    const directories = {
+        Tenant: path.join(resources, 'Configurations', 'Tenants'),
+        Client: path.join(resources, 'Configurations', 'Clients'),
+    };
+    Object.values(directories).forEach((directory) => fs.mkdirSync(directory, {recursive: true}));
+
+    const entities = config.manifests
+        .flatMap(([namespace, file]) => readDocuments(file, namespace))
+        .filter((document) => document.kind in directories);
+
+    for (const entity of entities) {
+        let content = toEntityFile(entity);
+        // Templates are loaded from the local S3 stand-in
+        content = content.replace(/(\n  templates:\n(?: {4}.*\n)*? {4}host:).*/, `$1 ${config.s3.host}`);
+        fs.writeFileSync(path.join(directories[entity.kind], `${entity.namespace}-${entity.name}.yaml`), content);
+    }
+    console.log(`Prepared ${entities.length} tenants and clients in ${config.workDir}`);
+}
+
+function start() {
+    if (!fs.existsSync(config.binary)) {
+        console.error(`Uitsmijter binary not found at ${config.binary}. Run \`swift build\` or set UITSMIJTER_BINARY.`);
+        process.exit(1);
+    }
+    prepareWorkDir();
+
+    const useRedis = process.env.REDIS_HOST !== undefined;
+    const server = spawn(
+        config.binary,
+        ['serve', '--env', useRedis ? 'production' : 'development', '--hostname', '127.0.0.1',
+            '--port', String(config.ports.uitsmijter)],
+        {
+            stdio: 'inherit',
+            env: {
+                ...process.env,
+                ...config.environment,
+                ...(useRedis ? {ENVIRONMENT: 'production'} : {}),
+                DIRECTORY: config.workDir,
+            },
+        }
+    );
+
+    ['SIGINT', 'SIGTERM'].forEach((signal) => process.on(signal, () => server.kill(signal)));
+    server.on('exit', (code, signal) => process.exit(code ?? (signal ? 1 : 0)));
+}
+
+start();
@@ -1,4 +1,5 @@
 import {defineConfig, devices} from '@playwright/test';
+import * as localStack from './local/config';
 
 /**
  * Read environment variables from file.
@@ -8,6 +9,11 @@ import {defineConfig, devices} from '@playwright/test';
 
 let defaultViewportDesktop = {width: 1920, height: 1080}
 
+/**
+ * Run against the local test stack instead of a cluster, see readme.md "Local test stack"
+ */
+const useLocalStack = process.env.UITSMIJTER_E2E_LOCAL === 'true'
+
 let projectsExtras = [];
 // Extras when not in a GitHub-Workflow
 if( ! process.env.GITHUB_ACTION ){
@@ -44,7 +50,10 @@ export default defineConfig({
         trace: 'on-first-retry',
 
         /* traefik's self-sign certificate is not valid, so wie ignore all https errors */
-        ignoreHTTPSErrors: true
+        ignoreHTTPSErrors: true,
+
+        /* The local test stack routes all hosts through its reverse proxy */
+        proxy: useLocalStack ? {server: `http://127.0.0.1:${localStack.ports.proxy}`} : undefined
     },
     expect: {
         toMatchSnapshot: {
@@ -85,10 +94,24 @@ export default defineConfig({
         },
     ],
 
-    /* Run your local dev server before starting the tests */
-    // webServer: {
-    //   command: 'npm run start',
-    //   url: 'http://127.0.0.1:3000',
-    //   reuseExistingServer: !process.env.CI,
-    // },
+    /* Start the local test stack before starting the tests, in this order */
+    webServer: useLocalStack ? [
+        {
+            command: 'node local/s3.js',
+            url: `http://127.0.0.1:${localStack.ports.s3}/health`,
+            reuseExistingServer: !process.env.CI,
+        },
+        {
+            command: 'node local/uitsmijter.js',
+            url: `http://127.0.0.1:${localStack.ports.uitsmijter}/health`,
+            reuseExistingServer: !process.env.CI,
+            timeout: 120 * 1000,
+            stdout: process.env.UITSMIJTER_E2E_LOG ? 'pipe' : 'ignore',
+        },
+        {
+            command: 'node local/proxy.js',
+            port: localStack.ports.proxy,
+            reuseExistingServer: !process.env.CI,
+        },
+    ] : undefined,
 });
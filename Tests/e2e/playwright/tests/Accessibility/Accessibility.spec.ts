@@ -0,0 +1,56 @@
+import {test} from '@playwright/test';
+import {Application} from "../Fixtures/app";
+import {expectNoNewViolations} from "./Audit";
+
+// Accessibility audit of the default views in `Resources/Views/default` and the S3 templates of the Ham tenant.
+// Known violations are recorded in `baseline.json`, new violations fail the test.
+
+test.describe('Accessibility', () => {
+    let app: Application
+
+    test.beforeEach(async ({page}) => {
+        app = new Application(page)
+        test.setTimeout(app.timeout);
+    });
+
+    test.describe('of the default views', () => {
+        test('login page', async ({page}, testInfo) => {
+            await app.goto('https://login.example.com/login?for=http://cookbooks.example.com')
+            await expectNoNewViolations(page, testInfo, 'login')
+        });
+
+        test('logout page', async ({page}, testInfo) => {
+            await app.goto('https://login.example.com/login?for=http://cookbooks.example.com')
+            await app.auth.login('test@example.com', 'test')
+            await app.goto('https://login.example.com/logout?for=http://cookbooks.example.com')
+            await expectNoNewViolations(page, testInfo, 'logout')
+        });
+
+        test('error page', async ({page}, testInfo) => {
+            await app.goto('https://login.example.com/error')
+            await expectNoNewViolations(page, testInfo, 'error')
+        });
+
+        test('unknown tenant page', async ({page}, testInfo) => {
+            await app.goto('https://missing-tenant.example.com')
+            await expectNoNewViolations(page, testInfo, 'unknown-tenant')
+        });
+
+        test('activate page', async ({page}, testInfo) => {
+            await app.goto('https://id.example.com/activate')
+            await expectNoNewViolations(page, testInfo, 'activate')
+        });
+    });
+
+    test.describe('of the S3 templates', () => {
+        test('login page', async ({page}, testInfo) => {
+            await app.goto('https://page.ham.test')
+            await expectNoNewViolations(page, testInfo, 's3-login')
+        });
+
+        test('error page that is not on S3', async ({page}, testInfo) => {
+            await app.goto('https://id.ham.test/login-404?for=https://shop.ham.test/')
+            await expectNoNewViolations(page, testInfo, 's3-error')
+        });
+    });
+});
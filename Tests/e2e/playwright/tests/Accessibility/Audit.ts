@@ -0,0 +1,55 @@
+import {expect, Page, TestInfo} from '@playwright/test';
+import AxeBuilder from '@axe-core/playwright';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Known violations of a page: rule id of axe-core and the number of affected nodes
+ */
+export type KnownViolations = { [ruleId: string]: number }
+
+/** WCAG 2.1 level A and AA, best practices of axe-core are not part of the audit */
+const tags = ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa']
+
+const baselineFile = path.join(__dirname, 'baseline.json')
+
+function knownViolations(name: string): KnownViolations {
+    const baseline: { [page: string]: KnownViolations } = JSON.parse(fs.readFileSync(baselineFile, 'utf-8'))
+    return baseline[name] ?? {}
+}
+
+/**
+ * Runs axe-core on the current page and fails on violations that are not in `baseline.json`.
+ *
+ * A rule that is not in the baseline of the page, or that affects more nodes than recorded, is a regression.
+ * Rules that affect fewer nodes than recorded are annotated, so the baseline can be lowered.
+ * The full result of axe-core is attached to the test report.
+ */
+export async function expectNoNewViolations(page: Page, testInfo: TestInfo, name: string) {
+    const results = await new AxeBuilder({page}).withTags(tags).analyze()
+    await testInfo.attach(`axe-${name}.json`, {body: JSON.stringify(results, null, 2), contentType: 'application/json'})
+
+    const known = knownViolations(name)
+    const found: KnownViolations = {}
+    const regressions: string[] = []
+    for (const violation of results.violations) {
+        found[violation.id] = violation.nodes.length
+        if (violation.nodes.length > (known[violation.id] ?? 0)) {
+            const targets = violation.nodes.map((node) => node.target.join(' ')).join(', ')
+            regressions.push(`${violation.id} (${violation.impact}) on ${violation.nodes.length} nodes: ${targets}`)
+        }
+    }
+
+    for (const [ruleId, count] of Object.entries(known)) {
+        if ((found[ruleId] ?? 0) < count) {
+            testInfo.annotations.push({
+                type: 'accessibility',
+                description: `${name}: ${ruleId} affects ${found[ruleId] ?? 0} of ${count} known nodes, ` +
+                    `lower the baseline`
+            })
+        }
+    }
+
+    expect(regressions, `New accessibility violations on ${name}, fix them or add them to baseline.json`)
+        .toEqual([])
+}
@@ -0,0 +1,122 @@
+import * as http from 'http';
+import {AddressInfo} from 'net';
+import {expect} from '@playwright/test';
+import {test as base} from './entities';
+
+/**
+ * A request that the server sent to the `backchannel_logout_uri` of a client.
+ */
+export interface BackchannelLogoutRequest {
+    method: string
+    path: string
+    headers: http.IncomingHttpHeaders
+    /** The parsed `application/x-www-form-urlencoded` body */
+    form: Record<string, string>
+}
+
+/**
+ * The `backchannel_logout_uri` of a client that runs in the test worker.
+ *
+ * The server posts the `logout_token` of a logout to it, the receiver records every request and answers with
+ * `status`, so specs can assert what a client receives and how the server handles a failing client.
+ */
+export class BackchannelReceiver {
+    readonly requests: BackchannelLogoutRequest[] = []
+    /** Status of the answers, set it to simulate a failing client */
+    status = 200
+
+    private readonly server: http.Server
+    private port?: number
+
+    constructor() {
+        this.server = http.createServer((request, response) => {
+            let body = ''
+            request.setEncoding('utf8')
+            request.on('data', (chunk: string) => body += chunk)
+            request.on('end', () => {
+                this.requests.push({
+                    method: request.method ?? '',
+                    path: request.url ?? '/',
+                    headers: request.headers,
+                    form: Object.fromEntries(new URLSearchParams(body)),
+                })
+                response.writeHead(this.status, {'Cache-Control': 'no-store'})
+                response.end()
+            })
+        })
+    }
+
+    /**
+     * Starts the server on a free port of the loopback interface.
+     */
+    async start(): Promise<this> {
+        await new Promise<void>((resolve, reject) => {
+            this.server.once('error', reject)
+            this.server.listen(0, '127.0.0.1', () => resolve())
+        })
+        this.port = (this.server.address() as AddressInfo).port
+        return this
+    }
+
+    async stop() {
+        this.server.closeAllConnections()
+        await new Promise<void>((resolve) => this.server.close(() => resolve()))
+    }
+
+    /** The `backchannel_logout_uri` to register for a client */
+    get uri(): string {
+        if (this.port === undefined) {
+            throw new Error('The back-channel receiver is not started')
+        }
+        return `http://localhost:${this.port}/backchannel-logout`
+    }
+
+    /** The `logout_token` of every request */
+    get logoutTokens(): string[] {
+        return this.requests.map(({form}) => form.logout_token).filter((token) => token !== undefined)
+    }
+
+    /**
+     * Waits until `count` requests have been received.
+     */
+    async waitForRequests(count = 1, timeout = 10 * 1000) {
+        await expect.poll(() => this.requests.length, {
+            message: `The back-channel receiver at ${this.uri} did not receive ${count} request(s)`,
+            timeout: timeout,
+        }).toBeGreaterThanOrEqual(count)
+    }
+
+    /**
+     * Waits `timeout` and expects that no request has been received until then.
+     */
+    async expectNoRequests(timeout = 2 * 1000) {
+        await new Promise((resolve) => setTimeout(resolve, timeout))
+        expect(this.requests, `The back-channel receiver at ${this.uri} received a request`).toHaveLength(0)
+    }
+}
+
+export interface BackchannelReceiverFixtures {
+    /** A started back-channel receiver of its own for the test */
+    backchannelReceiver: BackchannelReceiver
+}
+
+/**
+ * Extends the entity fixtures with a back-channel logout receiver. The server has to reach the receiver on
+ * `localhost`, so it is limited to the local test stack like the entities.
+ *
+ * @example
+ *     test('logout', async ({entities, tenant, backchannelReceiver}) => {
+ *         const client = await entities.client(tenant, {backchannel_logout_uri: backchannelReceiver.uri})
+ *         ...
+ *         await backchannelReceiver.waitForRequests()
+ *     })
+ */
+export const test = base.extend<BackchannelReceiverFixtures>({
+    backchannelReceiver: async ({}, use) => {
+        const receiver = await new BackchannelReceiver().start()
+        await use(receiver)
+        await receiver.stop()
+    },
+});
+
+export {expect}
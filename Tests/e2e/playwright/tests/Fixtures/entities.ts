@@ -0,0 +1,244 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {randomUUID} from 'crypto';
+import {test as base, expect, request, APIRequestContext} from '@playwright/test';
+import * as localStack from '../../local/config';
+import {ClientSpecData, TenantSpecData} from '../types/EntityData';
+
+/**
+ * Directory with the `Tenants` and `Clients` folders the EntityFileLoader of the server watches.
+ *
+ * Defaults to the working directory of the local test stack, set UITSMIJTER_E2E_CONFIGURATIONS for a server that
+ * runs elsewhere but shares the file system.
+ */
+const configurationsDir = process.env.UITSMIJTER_E2E_CONFIGURATIONS
+    ?? (process.env.UITSMIJTER_E2E_LOCAL === 'true'
+        ? path.join(localStack.workDir, 'Resources', 'Configurations')
+        : undefined)
+
+/** Views of the server next to the configurations, the S3 templates of a tenant are written to its slug */
+export const viewsDir = configurationsDir && path.join(configurationsDir, '..', 'Views')
+
+/** Generated tenants are served below this domain, see `hosts` in `local/config.js` */
+export const fixtureDomain = 'fixture.test'
+
+const pickupTimeout = 15 * 1000
+
+// Allows all @example.com users, like the tenants of `Deployment/e2e/applications`
+const defaultProviders = [
+    `class UserLoginProvider {
+  auth = false;
+  constructor(credentials) {
+    this.auth = credentials.username.endsWith("@example.com");
+    commit(true);
+  }
+  get canLogin() { return this.auth; }
+  get userProfile() { return { name: "Test User" }; }
+  get role() { return "user"; }
+}`,
+    `class UserValidationProvider {
+  valid = false;
+  constructor(args) {
+    this.valid = args.username.endsWith("@example.com");
+    commit(true);
+  }
+  get isValid() { return this.valid; }
+}`,
+]
+
+export interface TenantFixture {
+    /** Name of the tenant, the `tenantname` of its clients */
+    name: string
+    /** First host of the tenant */
+    host: string
+    /** `https://` url of the first host */
+    issuer: string
+    spec: TenantSpecData
+    file: string
+}
+
+export interface ClientFixture {
+    name: string
+    /** The `client_id` */
+    ident: string
+    tenant: TenantFixture
+    spec: ClientSpecData
+    file: string
+}
+
+/**
+ * Creates tenants and clients for one test and removes them again afterwards.
+ */
+export class EntityBuilder {
+    private readonly files: { kind: 'tenant' | 'client', file: string, removed: () => Promise<boolean> }[] = []
+
+    constructor(private readonly context: APIRequestContext, private readonly prefix: string) {
+    }
+
+    /**
+     * Writes a tenant and waits until the server serves it. Without `hosts` the tenant gets a unique host below
+     * `fixtureDomain`.
+     */
+    async tenant(spec: Partial<TenantSpecData> = {}): Promise<TenantFixture> {
+        const slug = this.slug()
+        const hosts = spec.hosts ?? [`${slug}.${fixtureDomain}`]
+        const tenant: TenantFixture = {
+            name: `fixtures/${slug}`,
+            host: hosts[0],
+            issuer: `https://${hosts[0]}`,
+            spec: {providers: defaultProviders, ...spec, hosts},
+            file: path.join(configurationsDir, 'Tenants', `fixtures-${slug}.yaml`),
+        }
+
+        const isServed = async () => {
+            const response = await this.context.get(`${tenant.issuer}/.well-known/openid-configuration`)
+            return response.status() === 200
+        }
+        await this.write('tenant', tenant.file, tenant.name, tenant.spec, async () => !await isServed())
+        await expect.poll(isServed, {
+            message: `Tenant ${tenant.name} is not loaded from ${tenant.file}`,
+            timeout: pickupTimeout,
+        }).toBe(true)
+
+        return tenant
+    }
+
+    /**
+     * Writes a client of `tenant` and waits until the server knows it. Without `redirect_urls` every url of the
+     * tenant host is allowed.
+     */
+    async client(tenant: TenantFixture, spec: Partial<ClientSpecData> = {}): Promise<ClientFixture> {
+        const slug = this.slug()
+        const ident = spec.ident ?? randomUUID()
+        const client: ClientFixture = {
+            name: slug,
+            ident,
+            tenant,
+            spec: {
+                redirect_urls: [`https://${tenant.host.replace(/\./g, '\\.')}/.*`],
+                scopes: ['access'],
+                ...spec,
+                ident,
+                tenantname: tenant.name,
+            },
+            file: path.join(configurationsDir, 'Clients', `fixtures-${slug}.yaml`),
+        }
+
+        const isKnown = async () => {
+            const response = await this.context.get(`${tenant.issuer}/authorize`, {
+                params: {
+                    client_id: client.ident,
+                    response_type: 'code',
+                    redirect_uri: `${tenant.issuer}/`,
+                },
+                maxRedirects: 0,
+            })
+            return !(await response.text()).includes('NO_CLIENT')
+        }
+        await this.write('client', client.file, client.name, client.spec, async () => !await isKnown())
+        await expect.poll(isKnown, {
+            message: `Client ${client.name} is not loaded from ${client.file}`,
+            timeout: pickupTimeout,
+        }).toBe(true)
+
+        return client
+    }
+
+    /**
+     * Removes all entities in reverse order of creation and waits until the server has dropped them.
+     */
+    async dispose() {
+        const files = this.files.splice(0).reverse()
+        files.forEach(({file}) => fs.rmSync(file, {force: true}))
+        for (const {kind, file, removed} of files) {
+            await expect.poll(removed, {
+                message: `The ${kind} of ${file} is still loaded after removing the file`,
+                timeout: pickupTimeout,
+            }).toBe(true)
+        }
+    }
+
+    private slug(): string {
+        return `${this.prefix}-${randomUUID().slice(0, 8)}`
+    }
+
+    private async write(kind: 'tenant' | 'client', file: string, name: string, spec: object,
+                        removed: () => Promise<boolean>) {
+        this.files.push({kind, file, removed})
+        fs.writeFileSync(file, ['---', `name: ${name}`, 'config:', ...toYaml(spec, '  ')].join('\n') + '\n')
+    }
+}
+
+// YAML of plain objects: scalars as JSON strings, multi-line strings as block scalars
+function toYaml(value: object, indent: string): string[] {
+    const lines: string[] = []
+    const entries: [string | null, unknown][] = Array.isArray(value)
+        ? value.map((item) => [null, item])
+        : Object.entries(value).filter(([, item]) => item !== undefined)
+
+    for (const [key, item] of entries) {
+        const prefix = key === null ? `${indent}- ` : `${indent}${key}: `
+        if (typeof item === 'string' && item.includes('\n')) {
+            lines.push(`${prefix}|`, ...item.replace(/\n+$/, '').split('\n').map((line) => `${indent}  ${line}`))
+        } else if (typeof item === 'object' && item !== null && Object.keys(item).length > 0) {
+            lines.push(prefix.trimEnd(), ...toYaml(item, indent + '  '))
+        } else {
+            lines.push(prefix + JSON.stringify(item))
+        }
+    }
+    return lines
+}
+
+export interface EntityOptions {
+    /** Overrides of the spec of the `tenant` fixture */
+    tenantConfig: Partial<TenantSpecData>
+    /** Overrides of the spec of the `client` fixture */
+    clientConfig: Partial<ClientSpecData>
+}
+
+export interface EntityFixtures {
+    /** Builder for additional tenants and clients of a test */
+    entities: EntityBuilder
+    /** A tenant of its own for the test, configured with `test.use({tenantConfig})` */
+    tenant: TenantFixture
+    /** A client of `tenant`, configured with `test.use({clientConfig})` */
+    client: ClientFixture
+}
+
+/**
+ * `test` with tenants and clients that are written for the EntityFileLoader of the server and removed after the
+ * test. Specs that use these fixtures are skipped when the configuration directory is unknown, which is the case
+ * for the kubernetes cluster where tenants and clients are custom resources.
+ *
+ *     test.use({clientConfig: {grant_types: ['password']}})
+ *
+ *     test('login', async ({tenant, client}) => { ... })
+ */
+export const test = base.extend<EntityOptions & EntityFixtures>({
+    tenantConfig: [{}, {option: true}],
+    clientConfig: [{}, {option: true}],
+
+    entities: async ({}, use, testInfo) => {
+        test.skip(configurationsDir === undefined,
+            'Tenant and client fixtures need the local test stack or UITSMIJTER_E2E_CONFIGURATIONS');
+
+        const context = await request.newContext({ignoreHTTPSErrors: true})
+        const builder = new EntityBuilder(context, `w${testInfo.workerIndex}`)
+        try {
+            await use(builder)
+        } finally {
+            await builder.dispose()
+            await context.dispose()
+        }
+    },
+
+    tenant: async ({entities, tenantConfig}, use) => {
+        await use(await entities.tenant(tenantConfig))
+    },
+
+    client: async ({entities, tenant, clientConfig}, use) => {
+        await use(await entities.client(tenant, clientConfig))
+    },
+})
+
+export {expect}
@@ -0,0 +1,76 @@
+import * as localStack from '../../local/config';
+import {readDocuments, specList, specScripts, specValue} from '../../local/manifests';
+
+export interface TenantInventoryEntry {
+    /** `namespace/name` of the Tenant resource */
+    name: string
+    /** All hosts of the tenant spec, may contain wildcards */
+    hosts: string[]
+    /** Hosts of the tenant that are routed to Uitsmijter, the issuers of the tenant */
+    issuerHosts: string[]
+    /** The `grant_types` of all clients of the tenant that set them */
+    clientGrantTypes: string[]
+}
+
+/**
+ * The tenants of `Deployment/e2e` that the suite runs against.
+ *
+ * Only hosts that the ingresses route to Uitsmijter can serve the OAuth endpoints, the other hosts of a tenant are
+ * pages behind the interceptor. The routes are taken from `local/config.js`, which mirrors the cluster.
+ */
+export function tenantInventory(): TenantInventoryEntry[] {
+    const routedHosts = Object.entries(localStack.hosts as Record<string, { type: string }>)
+        .filter(([host, route]) => route.type === 'uitsmijter' && !host.startsWith('*.'))
+        .map(([host]) => host)
+
+    const documents = manifestDocuments()
+    const clients = documents.filter((document) => document.kind === 'Client')
+
+    return documents
+        .filter((document) => document.kind === 'Tenant')
+        .map((document) => {
+            const name = `${document.namespace}/${document.name}`
+            const hosts: string[] = specList(document, 'hosts')
+            return {
+                name,
+                hosts,
+                issuerHosts: routedHosts.filter((host) => hosts.some((pattern) => matchesHost(pattern, host))),
+                clientGrantTypes: [...new Set(clients
+                    .filter((client) => specValue(client, 'tenantname') === name)
+                    .flatMap((client): string[] => specList(client, 'grant_types')))],
+            }
+        })
+        .filter((tenant) => tenant.issuerHosts.length > 0)
+}
+
+/**
+ * The `namespace/name` of all tenants of `Deployment/e2e`.
+ */
+export function tenantNames(): string[] {
+    return manifestDocuments()
+        .filter((document) => document.kind === 'Tenant')
+        .map((document) => `${document.namespace}/${document.name}`)
+}
+
+/**
+ * The `providers` scripts of a tenant of `Deployment/e2e` by its `namespace/name`.
+ */
+export function tenantProviders(name: string): string[] {
+    const tenant = manifestDocuments()
+        .find((document) => document.kind === 'Tenant' && `${document.namespace}/${document.name}` === name)
+    if (!tenant) {
+        throw new Error(`Tenant ${name} is not part of Deployment/e2e`)
+    }
+    return specScripts(tenant, 'providers')
+}
+
+function manifestDocuments() {
+    return localStack.manifests.flatMap(([namespace, file]) => readDocuments(file, namespace))
+}
+
+function matchesHost(pattern: string, host: string): boolean {
+    if (pattern.startsWith('*.')) {
+        return host.endsWith(pattern.slice(1))
+    }
+    return pattern === host
+}
@@ -0,0 +1,302 @@
+import * as http from 'http';
+import {AddressInfo} from 'net';
+import {randomUUID} from 'crypto';
+import {test as base, expect} from '@playwright/test';
+import {ClientResponse, UitsmijterClient} from '../OAuth/UitsmijterClient';
+import {createCodeChallenge, generateCodeVerifier} from '../OAuth/Pkce';
+import {TokenResponseData} from '../types/TokenResponseData';
+import {JwtData} from '../types/JwtToken';
+
+export interface RelyingPartyOptions {
+    /** Base url of the tenant, e.g. `https://id.example.com` */
+    issuer: string
+    /** A public client that allows `http://localhost:<port>/callback` as `redirect_uri` */
+    clientId: string
+    scope?: string
+}
+
+/** The default client of the relying party: `cheese/cheese-relying-party` of `Deployment/e2e/applications/Cheese` */
+export const relyingPartyClient: RelyingPartyOptions = {
+    issuer: 'https://id.example.com',
+    clientId: '5f0e6b3e-7d0a-4c59-9a0f-2b8e4c1d7a63',
+    scope: 'access',
+}
+
+/**
+ * An authorization request that the relying party started.
+ */
+export interface RelyingPartyAuthorization {
+    state: string
+    codeVerifier: string
+    /** The url of the authorization endpoint the browser was sent to */
+    url: string
+}
+
+/**
+ * A logout that the relying party started at the `end_session_endpoint` of the issuer.
+ */
+export interface RelyingPartyLogout {
+    state: string
+    /** The ID Token of the session, sent as `id_token_hint` */
+    idTokenHint?: string
+    /** The url of the end session endpoint the browser was sent to */
+    url: string
+}
+
+/**
+ * Everything the relying party received on its `redirect_uri`.
+ */
+export interface RelyingPartyCallback {
+    /** The query of the callback, e.g. `code` and `state` or `error` */
+    query: Record<string, string>
+    /** The authorization request of `state`, undefined for an unknown state */
+    authorization?: RelyingPartyAuthorization
+    /** The response of the token request, only sent for a known state with a code */
+    token?: ClientResponse<TokenResponseData>
+}
+
+interface Session {
+    tokens: TokenResponseData
+    payload: JwtData
+}
+
+/**
+ * A minimal OAuth client application that runs in the test worker.
+ *
+ * It performs the authorization code flow with PKCE (S256) in the browser, keeps the tokens in a session of its own
+ * and records every authorization request, callback and logout, so specs can assert what a real application
+ * receives instead of scraping the pages of `Deployment/e2e/applications`.
+ *
+ * Pages, all served on `http://localhost:<port>`:
+ *   /           status page with a login link or the user and a logout button
+ *   /login      starts an authorization request and redirects to the authorization endpoint
+ *   /callback   the `redirect_uri`, exchanges the code and redirects to `/protected`
+ *   /protected  requires a session, starts a login otherwise
+ *   /logout     POST, drops the session and redirects to the logout of the issuer with `client_id`, `state`,
+ *               `post_logout_redirect_uri` and the ID Token of the session as `id_token_hint`
+ */
+export class RelyingParty {
+    readonly authorizations: RelyingPartyAuthorization[] = []
+    readonly callbacks: RelyingPartyCallback[] = []
+    /** The subjects of all sessions that were logged out */
+    readonly logouts: string[] = []
+    /** Every logout request that was sent to the issuer */
+    readonly endSessions: RelyingPartyLogout[] = []
+    /** The queries of the returns to `/` after a logout */
+    readonly postLogoutCallbacks: Record<string, string>[] = []
+
+    private readonly server: http.Server
+    private readonly client: UitsmijterClient
+    private readonly sessions = new Map<string, Session>()
+    private port?: number
+
+    constructor(readonly options: RelyingPartyOptions) {
+        this.client = new UitsmijterClient({issuer: options.issuer, clientId: options.clientId})
+        this.server = http.createServer((request, response) => {
+            this.handle(request, response).catch((error) => {
+                if (!response.headersSent) {
+                    response.writeHead(500, {'Content-Type': 'text/plain; charset=utf-8'})
+                }
+                response.end(`Relying party failed: ${error.message}\n`)
+            })
+        })
+    }
+
+    /**
+     * Starts the server on a free port of the loopback interface.
+     */
+    async start(): Promise<this> {
+        await new Promise<void>((resolve, reject) => {
+            this.server.once('error', reject)
+            this.server.listen(0, '127.0.0.1', () => resolve())
+        })
+        this.port = (this.server.address() as AddressInfo).port
+        return this
+    }
+
+    async stop() {
+        this.server.closeAllConnections()
+        await new Promise<void>((resolve) => this.server.close(() => resolve()))
+        await this.client.dispose()
+    }
+
+    /** Base url of the relying party */
+    get url(): string {
+        if (this.port === undefined) {
+            throw new Error('The relying party is not started')
+        }
+        return `http://localhost:${this.port}`
+    }
+
+    get redirectUri(): string {
+        return `${this.url}/callback`
+    }
+
+    /** The last callback, fails if there was none */
+    get lastCallback(): RelyingPartyCallback {
+        const callback = this.callbacks.at(-1)
+        if (!callback) {
+            throw new Error(`The relying party at ${this.url} did not receive a callback`)
+        }
+        return callback
+    }
+
+    // Cookies do not separate ports, every instance needs a name of its own
+    private get cookieName(): string {
+        return `relying-party-${this.port}`
+    }
+
+    private async handle(request: http.IncomingMessage, response: http.ServerResponse) {
+        const url = new URL(request.url ?? '/', this.url)
+        const sessionId = this.sessionId(request)
+        const session = sessionId ? this.sessions.get(sessionId) : undefined
+
+        switch (`${request.method} ${url.pathname}`) {
+            case 'GET /':
+                if (url.searchParams.has('state')) {
+                    this.postLogoutCallbacks.push(Object.fromEntries(url.searchParams))
+                }
+                this.page(response, 200, 'Relying Party', session
+                    ? this.profile(session)
+                    : '<a id="login" href="/login">Login</a>')
+                return
+            case 'GET /login':
+                this.redirect(response, this.authorize())
+                return
+            case 'GET /callback':
+                await this.callback(url, response)
+                return
+            case 'GET /protected':
+                if (!session) {
+                    this.redirect(response, this.authorize())
+                    return
+                }
+                this.page(response, 200, 'Protected', this.profile(session))
+                return
+            case 'POST /logout':
+                if (sessionId && session) {
+                    this.sessions.delete(sessionId)
+                    this.logouts.push(session.payload.sub)
+                }
+                this.redirect(response, this.endSession(session), {'Set-Cookie': `${this.cookieName}=; Path=/; Max-Age=0`})
+                return
+            default:
+                this.page(response, 404, 'Not Found', '')
+        }
+    }
+
+    private authorize(): string {
+        const state = randomUUID()
+        const codeVerifier = generateCodeVerifier()
+        const url = `${this.client.issuer}/authorize?` + this.client.authorizeQuery({
+            redirect_uri: this.redirectUri,
+            scope: this.options.scope,
+            state: state,
+            code_challenge: createCodeChallenge(codeVerifier),
+            code_challenge_method: 'S256',
+        })
+        this.authorizations.push({state, codeVerifier, url})
+        return url
+    }
+
+    private endSession(session?: Session): string {
+        const logout: RelyingPartyLogout = {state: randomUUID(), idTokenHint: session?.tokens.id_token, url: ''}
+        const query = new URLSearchParams({
+            client_id: this.options.clientId,
+            post_logout_redirect_uri: `${this.url}/`,
+            state: logout.state,
+        })
+        if (logout.idTokenHint) {
+            query.set('id_token_hint', logout.idTokenHint)
+        }
+        logout.url = `${this.client.issuer}/logout?` + query
+        this.endSessions.push(logout)
+        return logout.url
+    }
+
+    private async callback(url: URL, response: http.ServerResponse) {
+        const callback: RelyingPartyCallback = {
+            query: Object.fromEntries(url.searchParams),
+            authorization: this.authorizations.find(({state}) => state === url.searchParams.get('state')),
+        }
+        this.callbacks.push(callback)
+
+        const code = url.searchParams.get('code')
+        if (!callback.authorization || !code) {
+            this.page(response, 400, 'Login failed', `<pre id="error">${escape(JSON.stringify(callback.query))}</pre>`)
+            return
+        }
+
+        callback.token = await this.client.exchangeCode(code, {
+            scope: this.options.scope,
+            code_verifier: callback.authorization.codeVerifier,
+        })
+        if (!callback.token.data) {
+            this.page(response, 502, 'Login failed', `<pre id="error">${escape(JSON.stringify(callback.token.error))}</pre>`)
+            return
+        }
+
+        const sessionId = randomUUID()
+        this.sessions.set(sessionId, {
+            tokens: callback.token.data,
+            payload: JSON.parse(Buffer.from(callback.token.data.access_token.split('.')[1], 'base64url').toString()),
+        })
+        this.redirect(response, '/protected', {'Set-Cookie': `${this.cookieName}=${sessionId}; Path=/; HttpOnly`})
+    }
+
+    private sessionId(request: http.IncomingMessage): string | undefined {
+        return (request.headers.cookie ?? '')
+            .split(';')
+            .map((cookie) => cookie.trim().split('='))
+            .find(([name]) => name === this.cookieName)?.[1]
+    }
+
+    private profile(session: Session): string {
+        return `<p id="user">${escape(session.payload.user)}</p>`
+            + `<pre id="profile">${escape(JSON.stringify(session.payload, null, 2))}</pre>`
+            + '<form method="post" action="/logout"><button id="logout">Logout</button></form>'
+    }
+
+    private redirect(response: http.ServerResponse, location: string, headers: Record<string, string> = {}) {
+        response.writeHead(302, {...headers, Location: location})
+        response.end()
+    }
+
+    private page(response: http.ServerResponse, status: number, title: string, body: string) {
+        response.writeHead(status, {'Content-Type': 'text/html; charset=utf-8'})
+        response.end(`<!DOCTYPE html><html lang="en"><head><title>${title}</title></head><body><h1>${title}</h1>${body}</body></html>`)
+    }
+}
+
+function escape(text: string): string {
+    return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`)
+}
+
+export interface RelyingPartyFixtures {
+    /** Issuer, client and scope of the `relyingParty` fixture, configured with `test.use({relyingPartyConfig})` */
+    relyingPartyConfig: RelyingPartyOptions
+    /** A started relying party of its own for the test */
+    relyingParty: RelyingParty
+}
+
+/**
+ * Extends the tests with a mock relying party.
+ *
+ * @example
+ *     test('login', async ({page, relyingParty}) => {
+ *         await page.goto(relyingParty.url + '/protected')
+ *         ...
+ *         expect(relyingParty.lastCallback.token?.status).toBe(200)
+ *     })
+ */
+export const test = base.extend<RelyingPartyFixtures>({
+    relyingPartyConfig: [relyingPartyClient, {option: true}],
+
+    relyingParty: async ({relyingPartyConfig}, use) => {
+        const relyingParty = await new RelyingParty(relyingPartyConfig).start()
+        await use(relyingParty)
+        await relyingParty.stop()
+    },
+});
+
+export {expect}
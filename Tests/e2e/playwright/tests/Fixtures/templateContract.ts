@@ -0,0 +1,212 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {expect, Page} from '@playwright/test';
+import * as localStack from '../../local/config';
+import {Application} from './app';
+import {ClientFixture, test as base, TenantFixture, viewsDir} from './entities';
+
+/** Template bundles that the S3 stand-in serves from the `bundles` bucket, by name */
+export const templateBundles: Record<string, string> = localStack.s3.buckets.bundles
+
+/** Pages of a bundle, the server falls back to the default views for missing pages */
+export const templatePages = ['index', 'login', 'logout', 'error']
+
+const pickupTimeout = 15 * 1000
+
+/**
+ * A tenant that loads its templates from a bundle of the S3 stand-in, with a client for the login.
+ */
+export interface TemplateTenant {
+    bundle: string
+    tenant: TenantFixture
+    client: ClientFixture
+    /** The pages of `templatePages` that the bundle contains */
+    pages: string[]
+}
+
+/**
+ * Checks the rendered pages of a template bundle against the contract the server relies on.
+ *
+ * Every check returns the violations as readable messages, an empty list for a page that fulfills the contract.
+ */
+export class TemplateContract {
+    constructor(private readonly page: Page, private readonly template: TemplateTenant) {
+    }
+
+    /** Opens the login page of the tenant through `/authorize`, like a client does */
+    async openLogin(): Promise<string[]> {
+        const {tenant, client} = this.template
+        const query = new URLSearchParams({
+            client_id: client.ident,
+            response_type: 'code',
+            redirect_uri: `${tenant.issuer}/`,
+            scope: 'access',
+        })
+        return this.collectAssetFailures(() => this.page.goto(`${tenant.issuer}/authorize?${query}`))
+    }
+
+    /**
+     * The login form: `input#username`, `input#password`, `button#loginButton` and the hidden `location` and
+     * `mode` fields in a form that posts to `/login`.
+     */
+    async login(): Promise<string[]> {
+        const form = this.page.locator('form[method="post" i]').filter({has: this.page.locator('#username')})
+        const violations = await this.expectElements({
+            'a form that posts the credentials': form,
+            'input#username': form.locator('input#username'),
+            'input#password of type password': form.locator('input#password[type="password"]'),
+            'button#loginButton': form.locator('button#loginButton'),
+            'hidden input location': form.locator('input[type="hidden"][name="location"]'),
+            'hidden input mode': form.locator('input[type="hidden"][name="mode"]'),
+        })
+        const action = await form.first().getAttribute('action').catch(() => null)
+        if (action !== null && !/\/login$/.test(new URL(action, this.page.url()).pathname)) {
+            violations.push(`the form posts to ${action} instead of /login`)
+        }
+        return violations
+    }
+
+    /** A wrong login renders the error key in `data-error`, e.g. `LOGIN.ERRORS.WRONG_CREDENTIALS` */
+    async loginError(): Promise<string[]> {
+        await this.submit('contract@invalid.test', 'wrong')
+        return this.expectElements({
+            'an error placeholder with data-error="LOGIN.ERRORS.WRONG_CREDENTIALS"':
+                this.page.locator('[data-error="LOGIN.ERRORS.WRONG_CREDENTIALS"]'),
+        })
+    }
+
+    /** A valid login follows `location` back to the client with a code */
+    async loginSuccess(): Promise<string[]> {
+        await this.submit('contract@example.com', 'secret')
+        const url = new URL(this.page.url())
+        if (url.origin !== this.template.tenant.issuer || !url.searchParams.has('code')) {
+            return [`a valid login did not redirect to the client with a code, but to ${this.page.url()}`]
+        }
+        return []
+    }
+
+    /** The logout page links, posts or refreshes to `/logout/finalize` */
+    async logout(): Promise<string[]> {
+        const failures = await this.collectAssetFailures(() => this.page.goto(`${this.template.tenant.issuer}/logout`))
+        return [...failures, ...await this.expectElements({
+            'a link, form or refresh to /logout/finalize': this.page.locator([
+                'a[href*="/logout/finalize"]',
+                'form[action*="/logout/finalize"]',
+                'meta[http-equiv="refresh" i][content*="/logout/finalize"]',
+            ].join(', ')),
+        })]
+    }
+
+    /** The error page renders for a missing page */
+    async error(): Promise<string[]> {
+        let status = 0
+        const failures = await this.collectAssetFailures(async () => {
+            const response = await this.page.goto(`${this.template.tenant.issuer}/template-contract-not-found`)
+            status = response?.status() ?? 0
+        })
+        return status === 404 ? failures : [...failures, `a missing page answers ${status} instead of 404`]
+    }
+
+    private async submit(username: string, password: string) {
+        await new Application(this.page).auth.login(username, password)
+    }
+
+    private async expectElements(elements: Record<string, ReturnType<Page['locator']>>): Promise<string[]> {
+        const violations: string[] = []
+        for (const [description, locator] of Object.entries(elements)) {
+            if (await locator.count() === 0) {
+                violations.push(`${description} is missing on ${this.page.url()}`)
+            }
+        }
+        return violations
+    }
+
+    /** Runs the navigation and returns the assets (css, scripts, images and fonts) that did not load */
+    private async collectAssetFailures(navigate: () => Promise<unknown>): Promise<string[]> {
+        const failures: string[] = []
+        const isAsset = (url: string) => /\.(png|jpe?g|gif|svg|webp|css|js|ttf|otf|ico|woff2?)($|\?)/.test(url)
+        const onResponse = (response: { url(): string, status(): number }) => {
+            if (isAsset(response.url()) && response.status() >= 400) {
+                failures.push(`asset ${response.url()} answers ${response.status()}`)
+            }
+        }
+        const onFailed = (request: { url(): string, failure(): { errorText: string } | null }) => {
+            if (isAsset(request.url())) {
+                failures.push(`asset ${request.url()} failed: ${request.failure()?.errorText}`)
+            }
+        }
+
+        this.page.on('response', onResponse)
+        this.page.on('requestfailed', onFailed)
+        try {
+            await navigate()
+            await this.page.waitForLoadState('networkidle')
+        } finally {
+            this.page.off('response', onResponse)
+            this.page.off('requestfailed', onFailed)
+        }
+        return failures
+    }
+}
+
+export interface TemplateOptions {
+    /** The bundle of `templateBundles` for the `templateTenant`, configured with `test.use({templateBundle})` */
+    templateBundle: string
+}
+
+export interface TemplateFixtures {
+    /** A tenant of its own that renders the pages of `templateBundle` */
+    templateTenant: TemplateTenant
+    /** The contract checks for the pages of `templateTenant` */
+    templateContract: TemplateContract
+}
+
+/**
+ * Extends the entity fixtures with a tenant that loads a template bundle from the S3 stand-in.
+ *
+ * The fixture waits until the server has written the templates of the tenant to its views.
+ *
+ * @example
+ *     test.use({templateBundle: 'ham-template-techy'})
+ *
+ *     test('login', async ({templateContract}) => {
+ *         expect(await templateContract.openLogin()).toEqual([])
+ *         expect(await templateContract.login()).toEqual([])
+ *     })
+ */
+export const test = base.extend<TemplateOptions & TemplateFixtures>({
+    templateBundle: [Object.keys(templateBundles)[0], {option: true}],
+
+    templateTenant: async ({entities, templateBundle}, use) => {
+        const directory = templateBundles[templateBundle]
+        if (!directory) {
+            throw new Error(`Unknown template bundle ${templateBundle}, known are ${Object.keys(templateBundles)}`)
+        }
+        const pages = templatePages.filter((page) => fs.existsSync(path.join(directory, `${page}.leaf`)))
+
+        const tenant = await entities.tenant({
+            templates: {
+                access_key_id: 'test',
+                secret_access_key: 'testsecret',
+                bucket: 'bundles',
+                host: localStack.s3.host,
+                path: templateBundle,
+            },
+        })
+        const client = await entities.client(tenant)
+
+        const slug = tenant.name.toLowerCase().split(/[^a-z0-9-]+/).filter((part) => part !== '').join('-')
+        await expect.poll(
+            () => pages.every((page) => fs.existsSync(path.join(viewsDir, slug, `${page}.leaf`))),
+            {message: `Templates of ${templateBundle} are not written for ${tenant.name}`, timeout: pickupTimeout}
+        ).toBe(true)
+
+        await use({bundle: templateBundle, tenant, client, pages})
+    },
+
+    templateContract: async ({page, templateTenant}, use) => {
+        await use(new TemplateContract(page, templateTenant))
+    },
+})
+
+export {expect}
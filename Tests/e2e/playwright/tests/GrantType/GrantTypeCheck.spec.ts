@@ -1,6 +1,6 @@
 import {test, expect} from '@playwright/test';
 import {Application} from "../Fixtures/app";
-import {loginAuthorizeFormRequest} from "../OAuth/AuthorizeRequests";
+import {UitsmijterClient} from "../OAuth/UitsmijterClient";
 
 const hamAuthUrl = 'https://id.ham.test';
 const hamClientId = 'cd7a444a-7aa9-4f27-9305-9e2a9c4d47ee';
@@ -15,24 +15,18 @@ test.describe('Grant type check in provider', () => {
     test.describe('happy path: authorization_code grant is allowed', () => {
         test.describe.configure({mode: 'serial'});
 
-        const myState = Math.floor(Math.random() * 999999999);
+        const myState = '' + Math.floor(Math.random() * 999999999);
 
         test('should return an authorization code for a valid OAuth login', async ({page}) => {
-            const response = await loginAuthorizeFormRequest(
-                page,
-                hamAuthUrl,
-                {
-                    client_id: hamClientId,
-                    redirect_uri: hamRedirectUri,
-                    response_type: 'code',
-                    scope: '',
-                    state: '' + myState,
-                    username: validUsername,
-                }
-            );
-
-            expect(response.url()).toContain('code=');
-            expect(response.url()).toContain('state=' + myState);
+            const client = new UitsmijterClient({issuer: hamAuthUrl, clientId: hamClientId, context: page.request})
+            const result = await client.login(validUsername, 'secretPassword', {
+                redirect_uri: hamRedirectUri,
+                scope: '',
+                state: myState,
+            });
+
+            expect(result.code).toBeDefined();
+            expect(result.state).toBe(myState);
         });
     });
 
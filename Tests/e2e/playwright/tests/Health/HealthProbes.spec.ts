@@ -0,0 +1,123 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {test, expect} from '@playwright/test';
+import * as localStack from '../../local/config';
+import {RedisStandIn} from './RedisStandIn';
+import {serverBinaryAvailable, ServerInstance} from './ServerInstance';
+
+const authUrl = 'https://id.example.com';
+
+// The server notices changed tenant files and lost Redis connections with a delay
+const settleTimeout = 30 * 1000
+
+// Liveness: 204 while the process answers. Readiness: 204 with storage and tenants, 417 otherwise.
+// See `HealthController.swift`
+test.describe('Health probes', () => {
+
+    test.describe('normal operation', () => {
+        test('should be alive', async ({request}) => {
+            const response = await request.get(`${authUrl}/health`)
+            expect(response.status()).toBe(204)
+        });
+
+        test('should be ready', async ({request}) => {
+            const response = await request.get(`${authUrl}/health/ready`)
+            expect(response.status()).toBe(204)
+        });
+
+        test('should not send a body', async ({request}) => {
+            const response = await request.get(`${authUrl}/health/ready`)
+            expect(await response.body()).toHaveLength(0)
+        });
+    });
+
+    test.describe('helm chart', () => {
+        const deployment = fs.readFileSync(
+            path.join(localStack.projectDir, 'Deployment', 'helm', 'uitsmijter', 'templates', 'deployment.yaml'),
+            'utf8'
+        )
+
+        // The path of the first `httpGet` of a probe
+        const probePath = (probe: string) => new RegExp(`\\n\\s+${probe}:\\n(?:\\s+.*\\n)*?\\s+path: (\\S+)`)
+            .exec(deployment)?.[1]
+
+        test('should restart pods with the liveness endpoint', () => {
+            expect(probePath('livenessProbe')).toBe('/health')
+        });
+
+        test('should route traffic by the readiness endpoint', () => {
+            expect(probePath('readinessProbe')).toBe('/health/ready')
+        });
+    });
+
+    test.describe('with a server of its own', () => {
+        test.skip(!serverBinaryAvailable, 'Needs the server binary, see `Tests/e2e/readme.md#local-test-stack`');
+        test.describe.configure({mode: 'serial'});
+
+        test.describe('without tenants', () => {
+            let server: ServerInstance
+
+            test.beforeAll(async () => {
+                test.setTimeout(90 * 1000)
+                server = await new ServerInstance().start()
+            });
+
+            test.afterAll(async () => {
+                await server?.stop()
+            });
+
+            test('should be alive but not ready', async () => {
+                expect(await server.probe('/health')).toBe(204)
+                expect(await server.probe('/health/ready')).toBe(417)
+            });
+
+            test('should become ready when a tenant is loaded', async () => {
+                server.addTenant('cheese/cheese')
+                await expect.poll(() => server.probe('/health/ready'), {timeout: settleTimeout}).toBe(204)
+                expect(await server.probe('/health')).toBe(204)
+            });
+
+            test('should not be ready after the last tenant is removed', async () => {
+                server.removeTenant('cheese/cheese')
+                await expect.poll(() => server.probe('/health/ready'), {timeout: settleTimeout}).toBe(417)
+                expect(await server.probe('/health')).toBe(204)
+            });
+        });
+
+        test.describe('with a Redis', () => {
+            let redis: RedisStandIn
+            let server: ServerInstance
+
+            test.beforeAll(async () => {
+                test.setTimeout(90 * 1000)
+                redis = await new RedisStandIn().start()
+                server = await new ServerInstance({redisPort: redis.port}).start()
+                server.addTenant('cheese/cheese')
+            });
+
+            test.afterAll(async () => {
+                await server?.stop()
+                await redis?.stop()
+            });
+
+            test('should be ready while the Redis answers', async () => {
+                await expect.poll(() => server.probe('/health/ready'), {timeout: settleTimeout}).toBe(204)
+                expect(redis.commands).toContain('PING')
+            });
+
+            test('should stay alive but not ready when the Redis is gone', async () => {
+                await redis.stop()
+
+                await expect.poll(() => server.probe('/health/ready'), {timeout: settleTimeout}).toBe(417)
+                expect(await server.probe('/health')).toBe(204)
+            });
+
+            test('should be ready again when the Redis is back', async () => {
+                await redis.start()
+
+                await expect.poll(() => server.probe('/health/ready'), {timeout: settleTimeout}).toBe(204)
+                expect(await server.probe('/health')).toBe(204)
+            });
+        });
+    });
+});
@@ -0,0 +1,186 @@
+import * as net from 'net';
+import {AddressInfo} from 'net';
+
+type Reply = string | number | null | Reply[] | { status: string } | { error: string }
+
+/**
+ * A Redis stand-in for a `ServerInstance`: answers the commands that the Redis implementations of the
+ * `AuthCodeStorage` and the `KeyStorage` send (RESP2) and keeps the values in memory, without expiry.
+ *
+ * `stop()` drops all connections like a crashed Redis, `start()` afterwards listens on the same port again.
+ *
+ * @example
+ *     const redis = await new RedisStandIn().start()
+ *     const server = await new ServerInstance({redisPort: redis.port}).start()
+ */
+export class RedisStandIn {
+    /** The names of all received commands, e.g. `PING` */
+    readonly commands: string[] = []
+    private readonly values = new Map<string, string>()
+    private readonly sortedSets = new Map<string, Map<string, number>>()
+    private readonly sockets = new Set<net.Socket>()
+    private server?: net.Server
+    private listeningPort = 0
+
+    async start(): Promise<this> {
+        const server = net.createServer((socket) => this.connect(socket))
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject)
+            server.listen(this.listeningPort, '127.0.0.1', () => resolve())
+        })
+        this.server = server
+        this.listeningPort = (server.address() as AddressInfo).port
+        return this
+    }
+
+    async stop() {
+        const server = this.server
+        this.server = undefined
+        this.sockets.forEach((socket) => socket.destroy())
+        if (server) {
+            await new Promise<void>((resolve) => server.close(() => resolve()))
+        }
+    }
+
+    get port(): number {
+        return this.listeningPort
+    }
+
+    get running(): boolean {
+        return this.server !== undefined
+    }
+
+    private connect(socket: net.Socket) {
+        this.sockets.add(socket)
+        socket.on('close', () => this.sockets.delete(socket))
+        socket.on('error', () => socket.destroy())
+
+        let buffer: Buffer = Buffer.alloc(0)
+        socket.on('data', (chunk) => {
+            buffer = Buffer.concat([buffer, chunk])
+            let parsed: { command: string[], rest: Buffer } | undefined
+            while ((parsed = parseCommand(buffer))) {
+                buffer = parsed.rest
+                socket.write(encode(this.execute(parsed.command)))
+            }
+        })
+    }
+
+    private execute([name, ...args]: string[]): Reply {
+        const command = name.toUpperCase()
+        this.commands.push(command)
+        switch (command) {
+            case 'PING':
+                return {status: 'PONG'}
+            case 'SELECT':
+            case 'AUTH':
+                return {status: 'OK'}
+            case 'GET':
+                return this.values.get(args[0]) ?? null
+            case 'SET':
+                this.values.set(args[0], args[1])
+                return {status: 'OK'}
+            case 'DEL':
+                return args.filter((key) => this.values.delete(key) || this.sortedSets.delete(key)).length
+            case 'EXPIRE':
+                return this.values.has(args[0]) || this.sortedSets.has(args[0]) ? 1 : 0
+            case 'SCAN': {
+                const match = args.findIndex((arg) => arg.toUpperCase() === 'MATCH')
+                const pattern = match >= 0 ? globPattern(args[match + 1]) : /^/
+                return ['0', [...this.values.keys(), ...this.sortedSets.keys()].filter((key) => pattern.test(key))]
+            }
+            case 'ZADD': {
+                const set = this.sortedSets.get(args[0]) ?? new Map<string, number>()
+                this.sortedSets.set(args[0], set)
+                let added = 0
+                for (let index = 1; index + 1 < args.length; index += 2) {
+                    added += set.has(args[index + 1]) ? 0 : 1
+                    set.set(args[index + 1], Number(args[index]))
+                }
+                return added
+            }
+            case 'ZREM': {
+                const set = this.sortedSets.get(args[0])
+                return args.slice(1).filter((member) => set?.delete(member)).length
+            }
+            case 'ZRANGE': {
+                const members = this.sortedMembers(args[0])
+                const stop = Number(args[2]) < 0 ? members.length + Number(args[2]) : Number(args[2])
+                return members.slice(Number(args[1]), stop + 1).map(([member]) => member)
+            }
+            case 'ZRANGEBYSCORE': {
+                const [min, max] = [scoreBound(args[1]), scoreBound(args[2])]
+                return this.sortedMembers(args[0])
+                    .filter(([, score]) => min.test(score, 1) && max.test(score, -1))
+                    .map(([member]) => member)
+            }
+            default:
+                return {error: `ERR unknown command '${name}'`}
+        }
+    }
+
+    private sortedMembers(key: string): [string, number][] {
+        return [...(this.sortedSets.get(key) ?? new Map<string, number>()).entries()]
+            .sort(([, left], [, right]) => left - right)
+    }
+}
+
+// One command as array of bulk strings or as inline command, `undefined` until it is received completely
+function parseCommand(buffer: Buffer): { command: string[], rest: Buffer } | undefined {
+    const lineEnd = buffer.indexOf('\r\n')
+    if (lineEnd < 0) {
+        return undefined
+    }
+    if (buffer[0] !== 0x2a /* '*' */) {
+        return {command: buffer.subarray(0, lineEnd).toString().trim().split(/\s+/), rest: buffer.subarray(lineEnd + 2)}
+    }
+
+    const count = Number(buffer.subarray(1, lineEnd).toString())
+    const command: string[] = []
+    let offset = lineEnd + 2
+    for (let index = 0; index < count; index++) {
+        const headerEnd = buffer.indexOf('\r\n', offset)
+        if (headerEnd < 0) {
+            return undefined
+        }
+        const length = Number(buffer.subarray(offset + 1, headerEnd).toString())
+        if (buffer.length < headerEnd + 2 + length + 2) {
+            return undefined
+        }
+        command.push(buffer.subarray(headerEnd + 2, headerEnd + 2 + length).toString())
+        offset = headerEnd + 2 + length + 2
+    }
+    return {command, rest: buffer.subarray(offset)}
+}
+
+function encode(reply: Reply): string {
+    if (reply === null) {
+        return '$-1\r\n'
+    }
+    if (typeof reply === 'number') {
+        return `:${reply}\r\n`
+    }
+    if (typeof reply === 'string') {
+        return `$${Buffer.byteLength(reply)}\r\n${reply}\r\n`
+    }
+    if (Array.isArray(reply)) {
+        return `*${reply.length}\r\n${reply.map(encode).join('')}`
+    }
+    return 'status' in reply ? `+${reply.status}\r\n` : `-${reply.error}\r\n`
+}
+
+function globPattern(glob: string): RegExp {
+    const escaped = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')
+    return new RegExp(`^${escaped}$`)
+}
+
+// `-inf`, `+inf`, `1.5` or the exclusive `(1.5`; `direction` is 1 for the minimum and -1 for the maximum
+function scoreBound(bound: string): { test: (score: number, direction: number) => boolean } {
+    const exclusive = bound.startsWith('(')
+    const value = Number(bound.replace(/^\(/, '').replace(/^-inf$/i, '-Infinity').replace(/^\+?inf$/i, 'Infinity'))
+    return {
+        test: (score, direction) => exclusive
+            ? (score - value) * direction > 0
+            : (score - value) * direction >= 0,
+    }
+}
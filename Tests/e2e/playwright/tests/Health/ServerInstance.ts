@@ -0,0 +1,137 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as net from 'net';
+import {AddressInfo} from 'net';
+import {ChildProcess, spawn} from 'child_process';
+import {expect} from '@playwright/test';
+import * as localStack from '../../local/config';
+import {readDocuments, toEntityFile} from '../../local/manifests';
+
+/** True if the server binary of `swift build` (or `UITSMIJTER_BINARY`) exists */
+export const serverBinaryAvailable = fs.existsSync(localStack.binary)
+
+const startTimeout = 60 * 1000
+
+export interface ServerInstanceOptions {
+    /** Port of a `RedisStandIn` or a Redis on localhost, without it the server keeps everything in memory */
+    redisPort?: number
+}
+
+/**
+ * A Uitsmijter server of its own, for specs that change what the shared server depends on: its Redis or its
+ * tenants. The server runs the binary of the local test stack with the environment of `Deployment/e2e/helm.yml`, in a
+ * working directory with empty `Tenants` and `Clients` folders that `addTenant()` fills.
+ *
+ * The server is reachable on `url` without the proxy, use it for endpoints that do not need a tenant host.
+ */
+export class ServerInstance {
+    private readonly workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'uitsmijter-e2e-'))
+    private process?: ChildProcess
+    private port = 0
+
+    constructor(readonly options: ServerInstanceOptions = {}) {
+    }
+
+    /**
+     * Starts the server and waits until it is alive.
+     */
+    async start(): Promise<this> {
+        this.prepareWorkDir()
+        this.port = await freePort()
+
+        const useRedis = this.options.redisPort !== undefined
+        this.process = spawn(
+            localStack.binary,
+            ['serve', '--env', useRedis ? 'production' : 'development', '--hostname', '127.0.0.1',
+                '--port', String(this.port)],
+            {
+                stdio: ['ignore', process.env.UITSMIJTER_E2E_LOG ? 'inherit' : 'ignore', 'inherit'],
+                env: {
+                    ...process.env,
+                    ...localStack.environment,
+                    ...(useRedis ? {
+                        ENVIRONMENT: 'production',
+                        REDIS_HOST: '127.0.0.1',
+                        REDIS_PORT: String(this.options.redisPort),
+                    } : {}),
+                    DIRECTORY: this.workDir,
+                },
+            }
+        )
+
+        await expect.poll(() => this.probe('/health').catch(() => 0), {
+            message: `Uitsmijter did not start on ${this.url}`,
+            timeout: startTimeout,
+        }).toBe(204)
+        return this
+    }
+
+    async stop() {
+        const child = this.process
+        this.process = undefined
+        if (child && child.exitCode === null) {
+            const exited = new Promise<void>((resolve) => child.once('exit', () => resolve()))
+            child.kill('SIGTERM')
+            await exited
+        }
+        fs.rmSync(this.workDir, {recursive: true, force: true})
+    }
+
+    get url(): string {
+        return `http://127.0.0.1:${this.port}`
+    }
+
+    /**
+     * GET `path` and return the status code.
+     */
+    async probe(path: string): Promise<number> {
+        const response = await fetch(this.url + path)
+        return response.status
+    }
+
+    /**
+     * Writes the file of a tenant of `Deployment/e2e`, e.g. `cheese/cheese`, for the EntityFileLoader.
+     */
+    addTenant(name: string) {
+        const tenant = localStack.manifests
+            .flatMap(([namespace, file]) => readDocuments(file, namespace))
+            .find((document) => document.kind === 'Tenant' && `${document.namespace}/${document.name}` === name)
+        if (!tenant) {
+            throw new Error(`Tenant ${name} is not part of Deployment/e2e`)
+        }
+        fs.writeFileSync(this.tenantFile(name), toEntityFile(tenant))
+    }
+
+    removeTenant(name: string) {
+        fs.rmSync(this.tenantFile(name), {force: true})
+    }
+
+    private tenantFile(name: string): string {
+        return path.join(this.workDir, 'Resources', 'Configurations', 'Tenants', `${name.replace('/', '-')}.yaml`)
+    }
+
+    // Like `local/uitsmijter.js`, templates of tenants are written into the views, so the resources are copied
+    private prepareWorkDir() {
+        const resources = path.join(this.workDir, 'Resources')
+        fs.cpSync(path.join(localStack.projectDir, 'Resources'), resources, {
+            recursive: true,
+            filter: (source) => !source.includes(`${path.sep}Configurations`),
+        })
+        for (const folder of ['Tenants', 'Clients']) {
+            fs.mkdirSync(path.join(resources, 'Configurations', folder), {recursive: true})
+        }
+        fs.symlinkSync(path.join(localStack.projectDir, 'Public'), path.join(this.workDir, 'Public'), 'dir')
+    }
+}
+
+function freePort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const server = net.createServer()
+        server.once('error', reject)
+        server.listen(0, '127.0.0.1', () => {
+            const {port} = server.address() as AddressInfo
+            server.close(() => resolve(port))
+        })
+    })
+}
@@ -0,0 +1,176 @@
+import {test, expect} from '../Fixtures/entities';
+import {UitsmijterClient} from '../OAuth/UitsmijterClient';
+import {expectMetricDelta} from './Metrics';
+
+// Every test has a tenant of its own, the `tenant` label selects the samples that only the test changes.
+// See `Tests/e2e/readme.md#metrics`
+
+const password = 'secretPassword'
+
+test.describe('Metrics of the auth flows', () => {
+    test.use({
+        clientConfig: {
+            grant_types: ['authorization_code', 'refresh_token', 'password', 'device_code'],
+            device_grant_config: {expires_in: 60, interval: 1},
+        },
+    })
+
+    let oauth: UitsmijterClient
+
+    test.beforeEach(async ({tenant, client}) => {
+        oauth = new UitsmijterClient({issuer: tenant.issuer, clientId: client.ident})
+    });
+
+    test.afterEach(async () => {
+        await oauth.dispose()
+    });
+
+    test.describe('login', () => {
+        test('should count a successful login of the tenant', async ({tenant}) => {
+            const login = await expectMetricDelta(tenant.issuer, [
+                {name: 'uitsmijter_login_success', labels: {tenant: tenant.name, mode: 'oauth'}, delta: 1},
+                {name: 'uitsmijter_login_failure', labels: {tenant: tenant.name}, delta: 0},
+            ], () => oauth.login('metrics@example.com', password, {redirect_uri: `${tenant.issuer}/callback`}))
+
+            expect(login.code).toBeDefined()
+        });
+
+        test('should count a rejected login of the tenant', async ({tenant}) => {
+            const login = await expectMetricDelta(tenant.issuer, [
+                {name: 'uitsmijter_login_failure', labels: {tenant: tenant.name, mode: 'oauth'}, delta: 1},
+                {name: 'uitsmijter_login_success', labels: {tenant: tenant.name}, delta: 0},
+            ], () => oauth.login('metrics@example.net', password, {redirect_uri: `${tenant.issuer}/callback`}))
+
+            expect(login.code).toBeUndefined()
+        });
+
+        test('should count the logout of the tenant', async ({tenant}) => {
+            await oauth.login('metrics@example.com', password, {redirect_uri: `${tenant.issuer}/callback`})
+            const context = await oauth.requestContext()
+
+            const logout = await expectMetricDelta(tenant.issuer, [
+                {name: 'uitsmijter_logout', labels: {tenant: tenant.name}, delta: 1},
+            ], () => context.get(`${tenant.issuer}/logout/finalize?location=${tenant.issuer}/`, {maxRedirects: 0}))
+
+            expect(logout.status()).toBe(303)
+        });
+    });
+
+    test.describe('token', () => {
+        test('should count the token of an authorization code with the client and grant type', async ({tenant, client}) => {
+            const login = await oauth.login('metrics@example.com', password, {redirect_uri: `${tenant.issuer}/callback`})
+
+            const token = await expectMetricDelta(tenant.issuer, [{
+                name: 'uitsmijter_oauth_success',
+                labels: {tenant: tenant.name, client: client.name, grant_type: 'authorization_code', token_type: 'Bearer'},
+                delta: 1,
+            }, {
+                name: 'uitsmijter_oauth_failure', labels: {tenant: tenant.name}, delta: 0,
+            }], () => oauth.exchangeCode(login.code))
+
+            expect(token.status).toBe(200)
+        });
+
+        test('should count the token of a password grant', async ({tenant}) => {
+            const token = await expectMetricDelta(tenant.issuer, [
+                {name: 'uitsmijter_oauth_success', labels: {tenant: tenant.name, grant_type: 'password'}, delta: 1},
+            ], () => oauth.token({grant_type: 'password', username: 'metrics@example.com', password, scope: 'access'}))
+
+            expect(token.status).toBe(200)
+        });
+
+        test('should count a failed token request with the reason', async ({tenant, entities}) => {
+            const codeOnly = await entities.client(tenant, {grant_types: ['authorization_code']})
+            const codeOnlyClient = new UitsmijterClient({issuer: tenant.issuer, clientId: codeOnly.ident})
+
+            const token = await expectMetricDelta(tenant.issuer, [{
+                name: 'uitsmijter_oauth_failure',
+                labels: {tenant: tenant.name, client: codeOnly.name, grant_type: 'password', reason: 'UNSUPPORTED_GRANT_TYPE'},
+                delta: 1,
+            }, {
+                name: 'uitsmijter_oauth_success', labels: {tenant: tenant.name}, delta: 0,
+            }], () => codeOnlyClient.token({grant_type: 'password', username: 'metrics@example.com', password}))
+
+            expect(token.status).toBe(400)
+            await codeOnlyClient.dispose()
+        });
+    });
+
+    test.describe('revoke', () => {
+        test('should count revoked access and refresh tokens', async ({tenant, client}) => {
+            const token = await oauth.token({grant_type: 'password', username: 'metrics@example.com', password, scope: 'access'})
+            expect(token.status).toBe(200)
+
+            const revoked = (tokenType: string) => ({
+                name: 'uitsmijter_revoke_success',
+                labels: {tenant: tenant.name, client: client.name, token_type: tokenType},
+            })
+            await expectMetricDelta(tenant.issuer, [
+                {...revoked('access_token'), delta: 1},
+                {...revoked('refresh_token'), delta: 0},
+            ], () => oauth.revoke(token.data.access_token, 'access_token'))
+            await expectMetricDelta(tenant.issuer, [
+                {...revoked('access_token'), delta: 0},
+                {...revoked('refresh_token'), delta: 1},
+            ], () => oauth.revoke(token.data.refresh_token, 'refresh_token'))
+        });
+
+        test('should count a revocation of an unauthenticated client', async ({tenant, client}) => {
+            const token = await oauth.token({grant_type: 'password', username: 'metrics@example.com', password, scope: 'access'})
+            const impostor = new UitsmijterClient({issuer: tenant.issuer, clientId: client.ident, clientSecret: 'wrong'})
+
+            const response = await expectMetricDelta(tenant.issuer, [
+                {name: 'uitsmijter_revoke_failure', labels: {tenant: tenant.name, reason: 'invalid_client'}, delta: 1},
+                {name: 'uitsmijter_revoke_success', labels: {tenant: tenant.name}, delta: 0},
+            ], () => impostor.revoke(token.data.access_token))
+
+            expect(response.status()).toBe(401)
+            await impostor.dispose()
+        });
+    });
+
+    test.describe('device flow', () => {
+        test('should count every step of the device flow', async ({tenant, client, request}) => {
+            const labels = {tenant: tenant.name, client: client.name}
+
+            const device = await expectMetricDelta(tenant.issuer, [
+                {name: 'uitsmijter_device_flow_initiation', labels, delta: 1},
+            ], () => oauth.deviceAuthorization('access'))
+            expect(device.status).toBe(200)
+
+            const pending = await expectMetricDelta(tenant.issuer, [
+                {name: 'uitsmijter_device_flow_pending', labels, delta: 1},
+            ], () => oauth.deviceToken(device.data.device_code))
+            expect(pending.error.reason).toBe('ERRORS.AUTHORIZATION_PENDING')
+
+            const activation = await expectMetricDelta(tenant.issuer, [
+                {name: 'uitsmijter_device_flow_authorized', labels, delta: 1},
+                {name: 'uitsmijter_login_success', labels: {tenant: tenant.name, mode: 'oauth'}, delta: 1},
+            ], () => request.post(`${tenant.issuer}/activate`, {
+                form: {user_code: device.data.user_code, username: 'metrics@example.com', password},
+            }))
+            expect(activation.status()).toBe(200)
+
+            // Honor the interval of the client, a faster poll is answered with slow_down
+            await new Promise((resolve) => setTimeout(resolve, 1100))
+            const token = await expectMetricDelta(tenant.issuer, [
+                {name: 'uitsmijter_device_flow_success', labels, delta: 1},
+                {name: 'uitsmijter_device_flow_pending', labels, delta: 0},
+                {name: 'uitsmijter_oauth_success', labels: {...labels, grant_type: 'device_code'}, delta: 1},
+            ], () => oauth.deviceToken(device.data.device_code))
+            expect(token.status).toBe(200)
+        });
+
+        test('should count a rejected activation as login failure of the tenant', async ({tenant, client, request}) => {
+            const device = await oauth.deviceAuthorization('access')
+
+            const activation = await expectMetricDelta(tenant.issuer, [
+                {name: 'uitsmijter_login_failure', labels: {tenant: tenant.name, mode: 'oauth'}, delta: 1},
+                {name: 'uitsmijter_device_flow_authorized', labels: {tenant: tenant.name, client: client.name}, delta: 0},
+            ], () => request.post(`${tenant.issuer}/activate`, {
+                form: {user_code: device.data.user_code, username: 'metrics@example.net', password},
+            }))
+            expect(activation.status()).toBe(403)
+        });
+    });
+});
@@ -0,0 +1,61 @@
+import {test, expect} from '@playwright/test';
+import {metricValue, parseMetrics} from './Metrics';
+
+const metrics = `# HELP uitsmijter_login_success Counter of successful logins.
+# TYPE uitsmijter_login_success counter
+uitsmijter_login_success 0
+uitsmijter_login_success{forward_host="id.example.com", mode="oauth", tenant="cheese/cheese"} 3
+uitsmijter_login_success{forward_host="login.example.com",mode="interceptor",tenant="cheese/cheese"} 2
+uitsmijter_login_success{forward_host="id.example.com", mode="oauth", tenant="ham/ham"} 1
+# HELP uitsmijter_login_attempts Histogram of the number of total login attempts.
+# TYPE uitsmijter_login_attempts histogram
+uitsmijter_login_attempts_bucket{le="0.005"} 0
+uitsmijter_login_attempts_bucket{le="+Inf"} 4
+uitsmijter_login_attempts_sum 4.5
+uitsmijter_login_attempts_count 4
+# EOF
+`
+
+test.describe('Metrics parser', () => {
+
+    test('should parse samples with and without labels', () => {
+        const samples = parseMetrics(metrics)
+
+        expect(samples).toHaveLength(8)
+        expect(samples[0]).toEqual({name: 'uitsmijter_login_success', labels: {}, value: 0})
+        expect(samples[1]).toEqual({
+            name: 'uitsmijter_login_success',
+            labels: {forward_host: 'id.example.com', mode: 'oauth', tenant: 'cheese/cheese'},
+            value: 3,
+        })
+        expect(samples[2].labels).toEqual({forward_host: 'login.example.com', mode: 'interceptor', tenant: 'cheese/cheese'})
+    });
+
+    test('should parse histograms and special values', () => {
+        const samples = parseMetrics(metrics)
+
+        expect(samples[5]).toEqual({name: 'uitsmijter_login_attempts_bucket', labels: {le: '+Inf'}, value: 4})
+        expect(samples[6].value).toBe(4.5)
+        expect(parseMetrics('up NaN\ndown -Inf 1700000000')).toMatchObject([{value: NaN}, {value: -Infinity}])
+    });
+
+    test('should unescape label values', () => {
+        const [sample] = parseMetrics('uitsmijter_logout{redirect="https://a.test/?q=\\"x\\", y",path="C:\\\\",multi="a\\nb"} 1')
+        expect(sample.labels).toEqual({redirect: 'https://a.test/?q="x", y', path: 'C:\\', multi: 'a\nb'})
+    });
+
+    test('should reject invalid lines', () => {
+        expect(() => parseMetrics('uitsmijter_logout{tenant=cheese} 1')).toThrow('Invalid metric labels')
+        expect(() => parseMetrics('uitsmijter logout 1 2 3')).toThrow('Invalid metrics line')
+    });
+
+    test('should sum the samples that have the labels', () => {
+        const samples = parseMetrics(metrics)
+
+        expect(metricValue(samples, 'uitsmijter_login_success')).toBe(6)
+        expect(metricValue(samples, 'uitsmijter_login_success', {tenant: 'cheese/cheese'})).toBe(5)
+        expect(metricValue(samples, 'uitsmijter_login_success', {tenant: 'cheese/cheese', mode: 'oauth'})).toBe(3)
+        expect(metricValue(samples, 'uitsmijter_login_success', {tenant: 'egg/egg'})).toBe(0)
+        expect(metricValue(samples, 'uitsmijter_logout')).toBe(0)
+    });
+});
@@ -0,0 +1,139 @@
+import {expect, request, APIRequestContext} from '@playwright/test';
+
+/** One line of the metrics, e.g. `uitsmijter_login_success{tenant="cheese/cheese"} 3` */
+export interface MetricSample {
+    name: string
+    labels: Record<string, string>
+    value: number
+}
+
+/** An expected change of the samples of `name` that have (at least) the `labels` */
+export interface MetricDelta {
+    name: string
+    labels?: Record<string, string>
+    delta: number
+}
+
+// Seconds to wait until a counter has moved
+const settleTimeout = 5
+
+// name{labels} value [timestamp]
+const samplePattern = /^([a-zA-Z_:][a-zA-Z0-9_:]*)(?:\{(.*)\})?\s+(\S+)(?:\s+\S+)?$/
+const labelPattern = /\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*=\s*"((?:[^"\\]|\\.)*)"\s*,?/gy
+
+/**
+ * Parses the Prometheus text format, the OpenMetrics text format of `/metrics` is a superset of it.
+ *
+ * `# HELP`, `# TYPE` and `# EOF` lines are skipped, histograms are returned as their `_bucket`, `_sum` and
+ * `_count` samples.
+ */
+export function parseMetrics(text: string): MetricSample[] {
+    const samples: MetricSample[] = []
+    for (const line of text.split('\n').map((line) => line.trim())) {
+        if (line === '' || line.startsWith('#')) {
+            continue
+        }
+        const match = samplePattern.exec(line)
+        if (!match) {
+            throw new Error(`Invalid metrics line: ${line}`)
+        }
+        const [, name, labels, value] = match
+        samples.push({name, labels: parseLabels(labels ?? ''), value: parseValue(value)})
+    }
+    return samples
+}
+
+function parseLabels(text: string): Record<string, string> {
+    const labels: Record<string, string> = {}
+    labelPattern.lastIndex = 0
+    let match: RegExpExecArray | null
+    while (labelPattern.lastIndex < text.length && (match = labelPattern.exec(text))) {
+        labels[match[1]] = match[2].replace(/\\(.)/g, (_, escaped) => escaped === 'n' ? '\n' : escaped)
+    }
+    if (labelPattern.lastIndex < text.trimEnd().length) {
+        throw new Error(`Invalid metric labels: {${text}}`)
+    }
+    return labels
+}
+
+function parseValue(text: string): number {
+    switch (text) {
+        case '+Inf':
+            return Infinity
+        case '-Inf':
+            return -Infinity
+        default:
+            return Number(text)
+    }
+}
+
+/**
+ * Sums the samples of `name` that have all the `labels`, 0 if there is none.
+ *
+ * Counters are created on their first increment with a set of labels, so a missing sample is a counter at 0.
+ */
+export function metricValue(samples: MetricSample[], name: string, labels: Record<string, string> = {}): number {
+    return samples
+        .filter((sample) => sample.name === name)
+        .filter((sample) => Object.entries(labels).every(([key, value]) => sample.labels[key] === value))
+        .reduce((sum, sample) => sum + sample.value, 0)
+}
+
+/**
+ * GET /metrics of the server behind `issuer`. The server only answers requests that accept OpenMetrics.
+ */
+export async function scrapeMetrics(issuer: string, context?: APIRequestContext): Promise<MetricSample[]> {
+    const requestContext = context ?? await request.newContext({ignoreHTTPSErrors: true})
+    try {
+        const response = await requestContext.get(`${issuer.replace(/\/+$/, '')}/metrics`, {
+            headers: {'Accept': 'application/openmetrics-text'},
+        })
+        expect(response.status(), 'GET /metrics').toBe(200)
+        return parseMetrics(await response.text())
+    } finally {
+        if (!context) {
+            await requestContext.dispose()
+        }
+    }
+}
+
+/**
+ * Runs `action` and expects that the metrics of the server behind `issuer` change exactly by the `deltas`.
+ *
+ * The metrics are scraped before and after the action, a delta of `0` asserts that a counter did not move. Counters
+ * are shared by all tests that hit the server at the same time, so the `labels` should select samples that only the
+ * action changes, e.g. the `tenant` of a fixture.
+ *
+ * @example
+ *     await expectMetricDelta(tenant.issuer, [
+ *         {name: 'uitsmijter_login_success', labels: {tenant: tenant.name}, delta: 1},
+ *         {name: 'uitsmijter_login_failure', labels: {tenant: tenant.name}, delta: 0},
+ *     ], () => oauth.login('ada@example.com', 'secret', {redirect_uri}))
+ *
+ * @returns the result of `action`
+ */
+export async function expectMetricDelta<T>(issuer: string, deltas: MetricDelta[], action: () => Promise<T>): Promise<T> {
+    const context = await request.newContext({ignoreHTTPSErrors: true})
+    try {
+        const values = (samples: MetricSample[]) => deltas.map(({name, labels}) => metricValue(samples, name, labels))
+        const before = values(await scrapeMetrics(issuer, context))
+
+        const result = await action()
+
+        const describe = (changes: number[]) => Object.fromEntries(deltas.map(({name, labels}, index) => [
+            `${name}${JSON.stringify(labels ?? {})}`,
+            changes[index],
+        ]))
+        await expect.poll(async () => {
+            const after = values(await scrapeMetrics(issuer, context))
+            return describe(after.map((value, index) => value - before[index]))
+        }, {
+            message: 'Metric deltas',
+            timeout: settleTimeout * 1000,
+        }).toEqual(describe(deltas.map(({delta}) => delta)))
+
+        return result
+    } finally {
+        await context.dispose()
+    }
+}
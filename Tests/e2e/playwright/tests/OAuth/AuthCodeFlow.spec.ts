@@ -1,11 +1,10 @@
 import {test, expect} from '@playwright/test';
 import {Application} from "../Fixtures/app";
-import {
-    authorizeApiRequest, decodeJwt,
-    getTokenForAuthorisationCode,
-    getTokenInfo,
-    loginAuthorizeFormRequest
-} from "./AuthorizeRequests";
+import {UitsmijterClient} from "./UitsmijterClient";
+import {decodeJwt} from "./AuthorizeRequests";
+
+const issuer = 'https://id.example.com'
+const clientId = '143A3135-5DE2-46D4-828F-DDCF20C72060'
 
 test.describe('Authorization code OAuth flow', () => {
 
@@ -26,93 +25,69 @@ test.describe('Authorization code OAuth flow', () => {
             // All tests in this describe must be executed in series
             test.describe.configure({mode: 'serial'});
 
+            const client = new UitsmijterClient({issuer, clientId})
+
             // Flow context
-            const myState = Math.floor(Math.random() * 999999999);
+            const myState = '' + Math.floor(Math.random() * 999999999);
             let code: string = null
             let accessToken: string = null
             let refreshToken: string = null
 
+            test.afterAll(async () => {
+                await client.dispose()
+            });
+
             // General Auth 2 Flow (SPA) - Step 1 - 2
             test('should respond with a login page to the request for an authorization code', async () => {
-                const response = await authorizeApiRequest(
-                    'https://id.example.com',
-                    {
-                        response_type: 'code',
-                        client_id: '143A3135-5DE2-46D4-828F-DDCF20C72060',
-                        client_secret: null,
-                        redirect_uri: 'https://api.example.com',
-                        scope: '',
-                        state: '' + myState
-                    }
-                );
+                const result = await client.authorize({
+                    redirect_uri: 'https://api.example.com',
+                    scope: '',
+                    state: myState,
+                })
 
-                await expect(response.headers()['server']).toContain('Uitsmijter');
-                await expect(response.status()).toBe(401);
+                await expect(result.response.headers()['server']).toContain('Uitsmijter');
+                await expect(result.status).toBe(401);
 
-                const content = await response.text();
+                const content = await result.response.text();
                 await expect(content).toContain('form action="/login"')
                 await expect(content).toContain('state=' + myState)
             });
 
             // General Auth 2 Flow (SPA) - Step 3 - 5
             test('should respond after login with a code for authorization', async ({page}) => {
-                const response = await loginAuthorizeFormRequest(
-                    page,
-                    'https://id.example.com',
-                    {
-                        client_id: "143A3135-5DE2-46D4-828F-DDCF20C72060",
-                        redirect_uri: "https://api.example.com/",
-                        response_type: "code",
-                        scope: "access",
-                        state: "" + myState,
-                        username: "cee8Esh5@example.com"
-                    }
+                const result = await new UitsmijterClient({issuer, clientId, context: page.request}).login(
+                    'cee8Esh5@example.com',
+                    'secretPassword',
+                    {redirect_uri: 'https://api.example.com/', scope: 'access', state: myState}
                 );
 
-                await expect(response.status()).toBe(404); // redirect_uri is not known
+                await expect(result.status).toBe(404); // redirect_uri is not known
 
-                expect(response.url()).toContain("state=" + myState)
-                expect(response.url()).toContain("code=");
-                code = response.url().match(/code=(.+)&/)[1];
-                expect(code.length).toBeGreaterThan(0);
+                expect(result.state).toBe(myState)
+                expect(result.code.length).toBeGreaterThan(0);
+                code = result.code
             });
 
             // Should be able to request multiple scopes -> UIT-317
             test(
                 'should respond with multible scopes after login with a code for authorization',
                 async ({page}) => {
-                    const response = await loginAuthorizeFormRequest(
-                        page,
-                        'https://id.example.com',
-                        {
-                            client_id: "143A3135-5DE2-46D4-828F-DDCF20C72060",
-                            redirect_uri: "https://api.example.com",
-                            response_type: "code",
-                            scope: "access+write+change",
-                            state: "" + myState,
-                            username: "cee8Esh5@example.com"
-                        }
+                    const result = await new UitsmijterClient({issuer, clientId, context: page.request}).login(
+                        'cee8Esh5@example.com',
+                        'secretPassword',
+                        {redirect_uri: 'https://api.example.com', scope: 'access+write+change', state: myState}
                     );
-                    expect(response.url()).toContain("state=" + myState)
-                    expect(response.url()).toContain("code=");
-                    code = response.url().match(/code=(.+)&/)[1];
-                    expect(code.length).toBeGreaterThan(0);
+                    expect(result.state).toBe(myState)
+                    expect(result.code.length).toBeGreaterThan(0);
+                    code = result.code
                 }
             );
 
             test('should respond with a token for a code', async () => {
                 // request authorization_code
-                const tokenResponse = await getTokenForAuthorisationCode(
-                    'https://id.example.com',
-                    {
-                        "grant_type": "authorization_code",
-                        "client_id": "143A3135-5DE2-46D4-828F-DDCF20C72060",
-                        "scope": "access",
-                        "code": "" + code
-                    }
-                );
+                const result = await client.exchangeCode(code, {scope: 'access'});
 
-                const jsonResponse = await tokenResponse.json();
+                const jsonResponse = result.data;
                 expect(jsonResponse).toHaveProperty('scope')
                 expect(jsonResponse).toHaveProperty('access_token')
                 expect(jsonResponse).toHaveProperty('refresh_token')
@@ -125,31 +100,19 @@ test.describe('Authorization code OAuth flow', () => {
 
             // Info
             test('should respond info for a valid token', async () => {
-                const tokenInfoResponse = await getTokenInfo(
-                    'https://id.example.com',
-                    accessToken
-                )
+                const tokenInfo = await client.userInfo(accessToken)
 
-                const jsonInfoResponse = await tokenInfoResponse.json();
+                const jsonInfoResponse = tokenInfo.data;
                 expect(jsonInfoResponse).toHaveProperty('name')
                 expect(jsonInfoResponse.name).toBe('Test User')
             });
 
             // refresh
             test('should respond with a new token for a refresh token', async () => {
-                // request authorization_code
-                const tokenResponse = await getTokenForAuthorisationCode(
-                    'https://id.example.com',
-                    {
-                        "grant_type": "refresh_token",
-                        "client_id": "143A3135-5DE2-46D4-828F-DDCF20C72060",
-                        "refresh_token": refreshToken
-                    },
-                    accessToken
-                );
+                const result = await client.refresh(refreshToken, accessToken);
                 const oldAccessToken = accessToken
 
-                const jsonResponse = await tokenResponse.json();
+                const jsonResponse = result.data;
                 expect(jsonResponse).toHaveProperty('scope')
                 expect(jsonResponse).toHaveProperty('access_token')
                 expect(jsonResponse).toHaveProperty('refresh_token')
@@ -172,30 +135,28 @@ test.describe('Authorization code OAuth flow', () => {
             // All tests in this describe must be executed in series
             test.describe.configure({mode: 'serial'});
 
+            const client = new UitsmijterClient({issuer, clientId})
+
             // Flow context
-            const myState = Math.floor(Math.random() * 999999999);
+            const myState = '' + Math.floor(Math.random() * 999999999);
             let code: string = null
 
+            test.afterAll(async () => {
+                await client.dispose()
+            });
+
             test('should respond after login with a code for authorization', async ({page}) => {
-                const response = await loginAuthorizeFormRequest(
-                    page,
-                    'https://id.example.com',
-                    {
-                        client_id: "143A3135-5DE2-46D4-828F-DDCF20C72060",
-                        redirect_uri: "https://api.example.com/",
-                        response_type: "code",
-                        scope: "access+write+delete",
-                        state: "" + myState,
-                        username: "cee8Esh5@example.com"
-                    }
+                const result = await new UitsmijterClient({issuer, clientId, context: page.request}).login(
+                    'cee8Esh5@example.com',
+                    'secretPassword',
+                    {redirect_uri: 'https://api.example.com/', scope: 'access+write+delete', state: myState}
                 );
 
-                await expect(response.status()).toBe(404); // redirect_uri is not known
+                await expect(result.status).toBe(404); // redirect_uri is not known
 
-                expect(response.url()).toContain("state=" + myState)
-                expect(response.url()).toContain("code=");
-                code = response.url().match(/code=(.+)&/)[1];
-                expect(code.length).toBeGreaterThan(0);
+                expect(result.state).toBe(myState)
+                expect(result.code.length).toBeGreaterThan(0);
+                code = result.code
             });
 
             test('should respond with filtered scopes', async () => {
@@ -204,17 +165,9 @@ test.describe('Authorization code OAuth flow', () => {
                 //     - access
                 //     - update
                 //     - delete
-                const tokenResponse = await getTokenForAuthorisationCode(
-                    'https://id.example.com',
-                    {
-                        "grant_type": "authorization_code",
-                        "client_id": "143A3135-5DE2-46D4-828F-DDCF20C72060",
-                        "scope": "access write delete",
-                        "code": "" + code
-                    }
-                );
+                const result = await client.exchangeCode(code, {scope: 'access write delete'});
 
-                const jsonResponse = await tokenResponse.json();
+                const jsonResponse = result.data;
                 expect(jsonResponse).toHaveProperty('scope')
 
                 expect(jsonResponse.scope).toContain('access');
@@ -229,46 +182,37 @@ test.describe('Authorization code OAuth flow', () => {
             test.describe.configure({mode: 'serial'});
 
             // Flow context
-            const myState = Math.floor(Math.random() * 999999999);
+            const myState = '' + Math.floor(Math.random() * 999999999);
 
             // Invalid client
             test('should respond with forbidden when client not found', async ({page}) => {
-                const response = await loginAuthorizeFormRequest(
-                    page,
-                    'https://id.example.com',
-                    {
-                        client_id: "596de0f2-6b47-4c0e-9460-f7402f4a136d",
-                        redirect_uri: "https://api.example.com",
-                        response_type: "code",
-                        scope: "",
-                        state: "" + myState,
-                        username: ""
-                    }
-                );
-
-                expect(response.status()).toEqual(400)
-                expect(response.url()).toContain("https://id.example.com/login")
-                expect(String(await response.body())).toContain("LOGIN.ERRORS.NO_CLIENT");
+                const unknownClient = new UitsmijterClient({
+                    issuer,
+                    clientId: '596de0f2-6b47-4c0e-9460-f7402f4a136d',
+                    context: page.request,
+                })
+                const result = await unknownClient.login('', 'secretPassword', {
+                    redirect_uri: 'https://api.example.com',
+                    scope: '',
+                    state: myState,
+                });
+
+                expect(result.status).toEqual(400)
+                expect(result.response.url()).toContain("https://id.example.com/login")
+                expect(String(await result.response.body())).toContain("LOGIN.ERRORS.NO_CLIENT");
             });
 
             // Invalid credentials
             test('should respond with forbidden after entering invalid credentials', async ({page}) => {
-                const response = await loginAuthorizeFormRequest(
-                    page,
-                    'https://id.example.com',
-                    {
-                        client_id: "143A3135-5DE2-46D4-828F-DDCF20C72060",
-                        redirect_uri: "https://api.example.com",
-                        response_type: "code",
-                        scope: "",
-                        state: "" + myState,
-                        username: "not-existing-user"
-                    }
+                const result = await new UitsmijterClient({issuer, clientId, context: page.request}).login(
+                    'not-existing-user',
+                    'secretPassword',
+                    {redirect_uri: 'https://api.example.com', scope: '', state: myState}
                 );
 
-                expect(response.status()).toEqual(403)
-                expect(response.url()).toContain("https://id.example.com/login")
-                expect(String(await response.body())).toContain("LOGIN.ERRORS.WRONG_CREDENTIALS");
+                expect(result.status).toEqual(403)
+                expect(result.response.url()).toContain("https://id.example.com/login")
+                expect(String(await result.response.body())).toContain("LOGIN.ERRORS.WRONG_CREDENTIALS");
             });
         });
     });
@@ -1,124 +1,164 @@
-import {AuthorizeApiRequestData, AuthorizeFormRequestData} from "../types/AuthorizeRequestData";
-import {Page, request} from "@playwright/test";
-import {TokenRequestData, TokenRequestDataPassword, TokenRequestDataVerified} from "../types/TokenRequestData";
-import {JwtToken} from "../types/JwtToken";
+import {Page} from "@playwright/test";
+import {TokenRequestDataDevice} from "../types/TokenRequestData";
+import {
+    IdToken,
+    JwtToken,
+    LogoutToken,
+    validateIdToken,
+    validateJwtToken,
+    validateLogoutToken
+} from "../types/JwtToken";
+import {DeviceAuthorizationRequestData} from "../types/DeviceAuthorizationData";
+import {ErrorResponseData, TokenResponseData} from "../types/TokenResponseData";
+import {RevokeRequestData} from "../types/RevokeRequestData";
+import {UitsmijterClient} from "./UitsmijterClient";
 import jwt from 'jsonwebtoken';
 
-export async function authorizeFormRequest(url: string, data: AuthorizeFormRequestData) {
-    const context = await request.newContext({
-        baseURL: url,
-        extraHTTPHeaders: {
-            'Content-Type': 'application/x-www-form-urlencoded',
-        },
-    });
-
-    return await context.post('/login', {
-        form: {
-            location: url + `/authorize?client_id=${data.client_id}&redirect_uri=${data.redirect_uri}&response_type=${data.response_type}&scope=${data.scope}&state=${data.state}` +
-                `&code_challenge=${data.code_challenge}&code_challenge_method=${data.code_challenge_method}&response_mode=${data.response_mode}`,
-            mode: '',
-            username: data.username,
-            password: 'secretPassword',
-        },
-    });
+export async function revokeToken(url: string, data: RevokeRequestData) {
+    const client = new UitsmijterClient({issuer: url, clientId: data.client_id, clientSecret: data.client_secret})
+    const response = await client.revoke(data.token, data.token_type_hint)
+    await client.dispose()
+
+    // The revocation endpoint answers without a body, only the status is of interest
+    return response
 }
 
-export async function authorizeApiRequest(url: string, data: AuthorizeApiRequestData) {
-    const context = await request.newContext({
-        baseURL: url,
-        extraHTTPHeaders: {
-            'Content-Type': 'application/json',
-        },
-    });
-
-    return await context.get('/authorize', {
-        params: {...data},
-    });
+export async function requestDeviceCode(url: string, data: DeviceAuthorizationRequestData) {
+    const client = new UitsmijterClient({issuer: url, clientId: data.client_id})
+    const result = await client.deviceAuthorization(data.scope)
+    await client.dispose()
+
+    return result
 }
 
-export async function authorizeApiRequestOnPage(page: Page, url: string, data: AuthorizeApiRequestData) {
-    return await page.request.get(url + '/authorize', {
-        headers: {
-            'Content-Type': 'application/json',
-        },
-        params: {...data},
-    });
+/**
+ * Enters the `user_code` on the `/activate` page and authenticates with the given credentials.
+ * Returns the response of the form submission; the page shows the result (success message or `data-error`).
+ */
+export async function activateDevice(page: Page, url: string, userCode: string, username: string, password: string) {
+    await page.goto(url + '/activate')
+    await page.fill("input#user_code", userCode)
+    await page.fill("input#username", username)
+    await page.fill("input#password", password)
+
+    const [response] = await Promise.all([
+        page.waitForResponse((response) => {
+            return response.url().endsWith('/activate') && response.request().method() === 'POST'
+        }),
+        page.click("button#activateButton"),
+    ]);
+    await page.waitForLoadState("domcontentloaded");
+
+    return response
 }
 
-export async function loginAuthorizeFormRequest(page: Page, url: string, data: AuthorizeFormRequestData) {
-    const queryParams: Record<string, string> = {
-        response_type: data.response_type,
-        client_id: data.client_id,
-        client_secret: data.client_secret || "null",
-        redirect_uri: data.redirect_uri,
-        scope: data.scope,
-        state: data.state
-    }
+export interface DevicePollOptions {
+    /** Seconds between two polls, as returned by the device authorization endpoint */
+    interval: number
+    /** Seconds after which polling gives up, usually `expires_in` of the device authorization */
+    expiresIn: number
+    /** Called after every poll that is answered with `authorization_pending` */
+    onPending?: (polls: number) => Promise<void>
+}
 
-    // Add optional PKCE parameters if provided
-    if (data.code_challenge) {
-        queryParams.code_challenge = data.code_challenge
-    }
-    if (data.code_challenge_method) {
-        queryParams.code_challenge_method = data.code_challenge_method
-    }
+export interface DevicePollResult {
+    status: number
+    token?: TokenResponseData
+    error?: ErrorResponseData
+    polls: number
+    slowDowns: number
+    interval: number
+}
 
-    const queryString = new URLSearchParams(queryParams).toString();
-
-    return await page.request.post(url + '/login', {
-        headers: {
-            'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        form: {
-            location: "/authorize" + `?${queryString}`,
-            mode: '',
-            username: data.username,
-            password: 'secretPassword'
+/**
+ * Polls `/token` with a device code until the server answers with a token or a final error (RFC 8628, Section 3.5).
+ *
+ * Waits `interval` seconds before every poll, keeps polling on `authorization_pending` and adds 5 seconds to the
+ * interval on every `slow_down`.
+ */
+export async function pollDeviceToken(url: string, data: TokenRequestDataDevice, options: DevicePollOptions): Promise<DevicePollResult> {
+    const client = new UitsmijterClient({issuer: url, clientId: data.client_id, clientSecret: data.client_secret})
+    const deadline = Date.now() + options.expiresIn * 1000
+    const result: DevicePollResult = {status: 0, polls: 0, slowDowns: 0, interval: options.interval}
+
+    try {
+        while (Date.now() < deadline) {
+            await new Promise((resolve) => setTimeout(resolve, result.interval * 1000))
+
+            const response = await client.deviceToken(data.device_code)
+            result.polls++
+            result.status = response.status
+            result.token = response.data
+            result.error = response.error
+
+            if (response.status === 429 && response.error?.reason === 'ERRORS.SLOW_DOWN') {
+                result.slowDowns++
+                result.interval += 5
+                continue
+            }
+            if (response.status === 400 && response.error?.reason === 'ERRORS.AUTHORIZATION_PENDING') {
+                if (options.onPending) {
+                    await options.onPending(result.polls)
+                }
+                continue
+            }
+            return result
         }
-    });
+        return result
+    } finally {
+        await client.dispose()
+    }
 }
 
-export async function getTokenForAuthorisationCode(url: string, data: TokenRequestData | TokenRequestDataPassword | TokenRequestDataVerified, token?: string) {
-    let header = {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-    };
-    if (token) {
-        header['Authorization'] = 'Bearer ' + token;
+/**
+ * Decodes a token without verifying the signature, see `verifyJwt` for that.
+ *
+ * Throws if the header or the payload does not match the schema in `types/JwtToken.ts`.
+ */
+export function decodeJwt(access_token: string): JwtToken {
+    const decoded = decodeTokenParts(access_token)
+    const errors = validateJwtToken(decoded)
+    if (errors.length > 0) {
+        throw new Error(`Token does not match the JwtToken schema:\n  ${errors.join('\n  ')}`)
     }
-    const context = await request.newContext({
-        baseURL: url,
-        extraHTTPHeaders: header,
-    });
-
-    return await context.post('/token', {
-        data: {...data},
-    });
+    return decoded
 }
 
-export async function getTokenInfo(url: string, token: string) {
-    const context = await request.newContext({
-        baseURL: url,
-        extraHTTPHeaders: {
-            'Content-Type': 'application/json',
-            'Authorization': 'Bearer ' + token,
-            'Accept': 'application/json',
-        },
-    });
-    return await context.get('/token/info', {});
+/**
+ * Decodes an OpenID Connect ID Token without verifying the signature, see `verifyIdToken` for that.
+ *
+ * Throws if the header or the payload does not match the ID Token schema in `types/JwtToken.ts`.
+ */
+export function decodeIdToken(id_token: string): IdToken {
+    const decoded = decodeTokenParts(id_token)
+    const errors = validateIdToken(decoded)
+    if (errors.length > 0) {
+        throw new Error(`Token does not match the IdToken schema:\n  ${errors.join('\n  ')}`)
+    }
+    return decoded
 }
 
-export function decodeJwt(access_token: string): JwtToken {
-    const b64d = (data: string): string => Buffer.from(data, 'base64').toString('binary');
-    const token = access_token.split('.')
-    const header = b64d(token[0])
-    const payload = b64d(token[1])
-    const signature = token[1]
+/**
+ * Decodes an OpenID Connect Back-Channel Logout token without verifying the signature, see `verifyLogoutToken`.
+ *
+ * Throws if the header or the payload does not match the logout token schema in `types/JwtToken.ts`.
+ */
+export function decodeLogoutToken(logout_token: string): LogoutToken {
+    const decoded = decodeTokenParts(logout_token)
+    const errors = validateLogoutToken(decoded)
+    if (errors.length > 0) {
+        throw new Error(`Token does not match the LogoutToken schema:\n  ${errors.join('\n  ')}`)
+    }
+    return decoded
+}
 
+function decodeTokenParts(token: string) {
+    const b64d = (data: string): string => Buffer.from(data, 'base64url').toString('utf8');
+    const parts = token.split('.')
     return {
-        header: JSON.parse(header),
-        payload: JSON.parse(payload),
-        signature: signature,
+        header: JSON.parse(b64d(parts[0])),
+        payload: JSON.parse(b64d(parts[1])),
+        signature: parts[2],
     }
 }
 
@@ -0,0 +1,130 @@
+import {ClientFixture, TenantFixture} from '../Fixtures/entities';
+import {expect, test as base} from '../Fixtures/backchannelReceiver';
+import {UitsmijterClient} from "./UitsmijterClient";
+import {decodeJwt} from "./AuthorizeRequests";
+import {verifyLogoutToken} from "./JwtVerification";
+import {backchannelLogoutEvent} from "../types/JwtToken";
+import {OpenidConfigurationData} from "../types/OpenidConfigurationData";
+import {TokenResponseData} from "../types/TokenResponseData";
+
+// OpenID Connect Back-Channel Logout: a logout posts a signed logout_token to every client that received tokens
+// for the user and registered a backchannel_logout_uri
+
+const clientSpec = {
+    grant_types: ['authorization_code', 'refresh_token'],
+    scopes: ['openid', 'access'],
+}
+
+type Login = { oauth: UitsmijterClient, tokens: TokenResponseData }
+
+/** Logs the user in at the client and exchanges the code, every client of a login keeps its own cookies */
+type LoginWithTokens = (tenant: TenantFixture, client: ClientFixture, username?: string) => Promise<Login>
+
+const test = base.extend<{ loginWithTokens: LoginWithTokens }>({
+    loginWithTokens: async ({}, use) => {
+        const clients: UitsmijterClient[] = []
+        await use(async (tenant, client, username = 'bob@example.com') => {
+            const oauth = new UitsmijterClient({issuer: tenant.issuer, clientId: client.ident})
+            clients.push(oauth)
+            const login = await oauth.login(username, 'secretPassword', {
+                redirect_uri: `${tenant.issuer}/callback`,
+                scope: 'openid access',
+                state: 'backchannel',
+            })
+            expect(login.code).toBeDefined()
+
+            const result = await oauth.exchangeCode(login.code, {scope: 'openid access'})
+            expect(result.status).toBe(200)
+            expect(result.data.refresh_token).toBeDefined()
+            return {oauth, tokens: result.data}
+        })
+        await Promise.all(clients.map((oauth) => oauth.dispose()))
+    },
+});
+
+async function logout(oauth: UitsmijterClient) {
+    const context = await oauth.requestContext()
+    const response = await context.get('/logout/finalize', {maxRedirects: 0})
+    expect(response.status()).toBe(303)
+}
+
+test.describe('Back-channel logout', () => {
+    test.use({clientConfig: clientSpec})
+
+    test('should post a signed logout_token to the client', async ({
+        entities, tenant, backchannelReceiver, loginWithTokens
+    }) => {
+        const client = await entities.client(tenant, {...clientSpec, backchannel_logout_uri: backchannelReceiver.uri})
+        const {oauth, tokens} = await loginWithTokens(tenant, client)
+        expect(backchannelReceiver.requests).toHaveLength(0)
+
+        await logout(oauth)
+        await backchannelReceiver.waitForRequests()
+
+        const [received] = backchannelReceiver.requests
+        expect(received.method).toBe('POST')
+        expect(received.path).toBe('/backchannel-logout')
+        expect(received.headers['content-type']).toContain('application/x-www-form-urlencoded')
+
+        const verified = await verifyLogoutToken(received.form.logout_token, tenant.issuer, {
+            audience: client.ident,
+            secret: 'forTestingPurposesOnly',
+        })
+        expect(verified.errors).toEqual([])
+
+        const logoutToken = verified.token.payload
+        expect(logoutToken.sub).toBe(decodeJwt(tokens.access_token).payload.sub)
+        expect(logoutToken.events).toEqual({[backchannelLogoutEvent]: {}})
+        expect(logoutToken.jti).toBeTruthy()
+        expect(logoutToken).not.toHaveProperty('nonce')
+    });
+
+    test('should notify a client once for all sessions of the user', async ({
+        entities, tenant, backchannelReceiver, loginWithTokens
+    }) => {
+        const client = await entities.client(tenant, {...clientSpec, backchannel_logout_uri: backchannelReceiver.uri})
+        const first = await loginWithTokens(tenant, client)
+        const second = await loginWithTokens(tenant, client)
+
+        await logout(first.oauth)
+        await backchannelReceiver.waitForRequests()
+
+        expect(backchannelReceiver.logoutTokens).toHaveLength(1)
+        const refreshed = await second.oauth.refresh(second.tokens.refresh_token)
+        expect(refreshed.status).toBe(403)
+    });
+
+    test('should not notify a client without a backchannel_logout_uri', async ({
+        entities, client, tenant, backchannelReceiver, loginWithTokens
+    }) => {
+        // a client of the tenant that would receive the logout_token if the server notified every client
+        await entities.client(tenant, {...clientSpec, backchannel_logout_uri: backchannelReceiver.uri})
+        const {oauth} = await loginWithTokens(tenant, client)
+
+        await logout(oauth)
+
+        await backchannelReceiver.expectNoRequests()
+    });
+
+    test('should logout even if the client fails', async ({
+        entities, tenant, backchannelReceiver, loginWithTokens
+    }) => {
+        backchannelReceiver.status = 500
+        const client = await entities.client(tenant, {...clientSpec, backchannel_logout_uri: backchannelReceiver.uri})
+        const {oauth, tokens} = await loginWithTokens(tenant, client)
+
+        await logout(oauth)
+        await backchannelReceiver.waitForRequests()
+
+        const refreshed = await oauth.refresh(tokens.refresh_token)
+        expect(refreshed.status).toBe(403)
+    });
+
+    test('should be announced in the discovery', async ({tenant, request}) => {
+        const response = await request.get(`${tenant.issuer}/.well-known/openid-configuration`)
+        expect(response.status()).toBe(200)
+
+        const configuration: OpenidConfigurationData = await response.json()
+        expect(configuration.backchannel_logout_supported).toBe(true)
+    });
+});
@@ -0,0 +1,108 @@
+import {test, expect} from '../Fixtures/entities';
+import {UitsmijterClient} from "./UitsmijterClient";
+import {decodeJwt} from "./AuthorizeRequests";
+import {verifyJwt} from "./JwtVerification";
+import {TokenRequestDataClientCredentials} from "../types/TokenRequestData";
+
+// Client credentials grant (RFC 6749, Section 4.4): confidential clients request tokens for themselves
+//
+// The clients share the `request` context of the test, Playwright disposes it even if an expectation fails.
+
+const clientSecret = 'serviceSecret'
+
+function clientCredentials(secret: string, scope?: string): Omit<TokenRequestDataClientCredentials, "client_id"> {
+    return {grant_type: 'client_credentials', client_secret: secret, scope}
+}
+
+test.describe('Client credentials grant', () => {
+
+    test.describe('of a confidential client', () => {
+        test.use({
+            clientConfig: {
+                grant_types: ['client_credentials'],
+                secret: clientSecret,
+                scopes: ['access', 'reports:*'],
+            },
+        })
+
+        test('should issue an access token for the client itself', async ({tenant, client, request}) => {
+            const oauth = new UitsmijterClient({issuer: tenant.issuer, clientId: client.ident, context: request})
+
+            const result = await oauth.token(clientCredentials(clientSecret, 'access'))
+            expect(result.status).toBe(200)
+            expect(result.data.token_type).toBe('Bearer')
+            expect(result.data.expires_in).toBeGreaterThan(0)
+            expect(result.data.refresh_token).toBeUndefined()
+
+            const token = decodeJwt(result.data.access_token)
+            expect(token.payload.sub).toBe(client.ident)
+            expect(token.payload.tenant).toBe(tenant.name)
+            expect(token.payload.role).toBe('client')
+
+            const verified = await verifyJwt(result.data.access_token, tenant.issuer, {
+                audience: client.ident,
+                secret: 'forTestingPurposesOnly',
+            })
+            expect(verified.errors).toEqual([])
+        });
+
+        test('should only grant the scopes of the client', async ({tenant, client, request}) => {
+            const oauth = new UitsmijterClient({issuer: tenant.issuer, clientId: client.ident, context: request})
+
+            const result = await oauth.token(clientCredentials(clientSecret, 'access reports:read admin'))
+            expect(result.status).toBe(200)
+            expect(result.data.scope?.split(' ').sort()).toEqual(['access', 'reports:read'])
+            expect(decodeJwt(result.data.access_token).payload.scope).toBe(result.data.scope)
+        });
+
+        test('should grant the scopes of the client without a requested scope', async ({tenant, client, request}) => {
+            const oauth = new UitsmijterClient({issuer: tenant.issuer, clientId: client.ident, context: request})
+
+            const result = await oauth.token(clientCredentials(clientSecret))
+            expect(result.status).toBe(200)
+            // Patterns like `reports:*` are never granted as they are
+            expect(result.data.scope).toBe('access')
+        });
+
+        test('should refuse a wrong client secret', async ({tenant, client, request}) => {
+            const oauth = new UitsmijterClient({issuer: tenant.issuer, clientId: client.ident, context: request})
+
+            const result = await oauth.token(clientCredentials('wrongSecret', 'access'))
+            expect(result.status).toBe(401)
+            expect(result.data).toBeUndefined()
+        });
+
+        // The `client` fixture writes the client that adds the grant type to the discovery
+        test('should be advertised in the discovery of the tenant', async ({tenant, client, request}) => {
+            expect(client.spec.grant_types).toContain('client_credentials')
+            const response = await request.get(`${tenant.issuer}/.well-known/openid-configuration`)
+            expect(response.status()).toBe(200)
+            expect((await response.json()).grant_types_supported).toContain('client_credentials')
+        });
+    });
+
+    test.describe('of a public client', () => {
+        test.use({clientConfig: {grant_types: ['client_credentials'], scopes: ['access']}})
+
+        test('should be refused', async ({tenant, client, request}) => {
+            const oauth = new UitsmijterClient({issuer: tenant.issuer, clientId: client.ident, context: request})
+
+            const result = await oauth.token(clientCredentials('', 'access'))
+            expect(result.status).toBe(401)
+            expect(result.error?.reason).toBe('ERRORS.CLIENT_NOT_CONFIDENTIAL')
+            expect(result.data).toBeUndefined()
+        });
+    });
+
+    test.describe('of a client without the grant type', () => {
+        test.use({clientConfig: {grant_types: ['authorization_code'], secret: clientSecret}})
+
+        test('should be refused', async ({tenant, client, request}) => {
+            const oauth = new UitsmijterClient({issuer: tenant.issuer, clientId: client.ident, context: request})
+
+            const result = await oauth.token(clientCredentials(clientSecret, 'access'))
+            expect(result.status).toBe(400)
+            expect(result.data).toBeUndefined()
+        });
+    });
+});
@@ -0,0 +1,236 @@
+import {test, expect} from '@playwright/test';
+import {Application} from "../Fixtures/app";
+import {activateDevice, decodeJwt, pollDeviceToken, requestDeviceCode} from "./AuthorizeRequests";
+import {UitsmijterClient} from "./UitsmijterClient";
+import {DeviceAuthorizationResponseData} from "../types/DeviceAuthorizationData";
+
+const authUrl = 'https://id.example.com';
+
+// https://datatracker.ietf.org/doc/html/rfc8628
+// ------------------------------------------------------
+// 4e2c8a9f-7d31-4b5e-9c0a-1f6d2e8b3a75 = cheese-device (expires_in: 300, interval: 2)
+// 8b1f3d62-5a94-4c7e-a2d8-93e0c6f4b1d9 = cheese-device-short (expires_in: 5, interval: 1)
+// 143A3135-5DE2-46D4-828F-DDCF20C72060 = cheese-api-insecure (no device grant)
+const deviceClientId = '4e2c8a9f-7d31-4b5e-9c0a-1f6d2e8b3a75';
+const shortDeviceClientId = '8b1f3d62-5a94-4c7e-a2d8-93e0c6f4b1d9';
+
+test.describe('Device Authorization Grant', () => {
+
+    test.beforeEach(async ({page}) => {
+        const app = new Application(page)
+        test.setTimeout(app.timeout)
+    });
+
+    test.describe('device authorization request', () => {
+
+        test('should return a device code and a user code', async () => {
+            const result = await requestDeviceCode(authUrl, {client_id: deviceClientId, scope: 'access'})
+
+            expect(result.status).toBe(200)
+            expect(result.data.device_code.length).toBeGreaterThan(0)
+            expect(result.data.user_code).toMatch(/^[A-HJ-NP-Z2-9]{4}-[A-HJ-NP-Z2-9]{4}$/)
+            expect(result.data.verification_uri).toBe(authUrl + '/activate')
+            expect(result.data.expires_in).toBe(300)
+            expect(result.data.interval).toBe(2)
+        });
+
+        test('should return a new user code for every request', async () => {
+            const first = await requestDeviceCode(authUrl, {client_id: deviceClientId})
+            const second = await requestDeviceCode(authUrl, {client_id: deviceClientId})
+
+            expect(first.data.user_code).not.toBe(second.data.user_code)
+            expect(first.data.device_code).not.toBe(second.data.device_code)
+        });
+
+        test('should be refused for a client without a device grant', async () => {
+            const result = await requestDeviceCode(authUrl, {client_id: '143A3135-5DE2-46D4-828F-DDCF20C72060'})
+
+            expect(result.status).toBe(400)
+            expect(result.error.reason).toBe('ERRORS.DEVICE_GRANT_NOT_CONFIGURED')
+        });
+    });
+
+    test.describe('polling', () => {
+
+        test('should answer authorization_pending until the device is activated', async () => {
+            const device = await requestDeviceCode(authUrl, {client_id: deviceClientId})
+            const client = new UitsmijterClient({issuer: authUrl, clientId: deviceClientId})
+            const result = await client.deviceToken(device.data.device_code)
+            await client.dispose()
+
+            expect(result.status).toBe(400)
+            expect(result.error.reason).toBe('ERRORS.AUTHORIZATION_PENDING')
+        });
+
+        test('should answer slow_down when polling faster than the interval', async () => {
+            const device = await requestDeviceCode(authUrl, {client_id: deviceClientId})
+            const client = new UitsmijterClient({issuer: authUrl, clientId: deviceClientId})
+            const first = await client.deviceToken(device.data.device_code)
+            const second = await client.deviceToken(device.data.device_code)
+            await client.dispose()
+
+            expect(first.error.reason).toBe('ERRORS.AUTHORIZATION_PENDING')
+            expect(second.status).toBe(429)
+            expect(second.error.reason).toBe('ERRORS.SLOW_DOWN')
+        });
+
+        test('should not answer slow_down when the interval is honored', async () => {
+            const device = await requestDeviceCode(authUrl, {client_id: deviceClientId})
+            const result = await pollDeviceToken(
+                authUrl,
+                {grant_type: 'device_code', client_id: deviceClientId, device_code: device.data.device_code},
+                {
+                    interval: device.data.interval,
+                    expiresIn: device.data.interval * 3,
+                }
+            )
+
+            expect(result.polls).toBeGreaterThanOrEqual(2)
+            expect(result.slowDowns).toBe(0)
+            expect(result.error.reason).toBe('ERRORS.AUTHORIZATION_PENDING')
+        });
+
+        test('should reject an unknown device code', async () => {
+            const client = new UitsmijterClient({issuer: authUrl, clientId: deviceClientId})
+            const result = await client.deviceToken('not-a-device-code')
+            await client.dispose()
+
+            expect(result.status).toBe(400)
+            expect(result.error.reason).toBe('ERRORS.INVALID_GRANT')
+        });
+    });
+
+    test.describe('happy path', () => {
+        // All tests in this describe must be executed in series
+        test.describe.configure({mode: 'serial'});
+
+        let device: DeviceAuthorizationResponseData = null
+
+        test('should issue a token after the user activated the device', async ({page}) => {
+            device = (await requestDeviceCode(authUrl, {client_id: deviceClientId, scope: 'access'})).data
+
+            const result = await pollDeviceToken(
+                authUrl,
+                {grant_type: 'device_code', client_id: deviceClientId, device_code: device.device_code},
+                {
+                    interval: device.interval,
+                    expiresIn: device.expires_in,
+                    onPending: async (polls) => {
+                        // The user enters the code on another device after the first poll
+                        if (polls === 1) {
+                            const response = await activateDevice(
+                                page, authUrl, device.user_code, 'device@example.com', 'secretPassword'
+                            )
+                            expect(response.status()).toBe(200)
+                            await expect(page.locator('.message[data-result="success"]')).toBeVisible()
+                        }
+                    }
+                }
+            )
+
+            expect(result.status).toBe(200)
+            expect(result.polls).toBeGreaterThanOrEqual(2)
+            expect(result.slowDowns).toBe(0)
+            expect(result.token.token_type).toBe('Bearer')
+            expect(result.token.access_token.length).toBeGreaterThan(0)
+            expect(result.token.refresh_token.length).toBeGreaterThan(0)
+            expect(result.token.scope).toContain('access')
+
+            const payload = decodeJwt(result.token.access_token).payload
+            expect(payload.tenant).toBe('cheese/cheese')
+            expect(payload.user).toBe('device@example.com')
+        });
+
+        test('should not issue a token for the same device code twice', async () => {
+            const client = new UitsmijterClient({issuer: authUrl, clientId: deviceClientId})
+            const result = await client.deviceToken(device.device_code)
+            await client.dispose()
+
+            expect(result.status).toBe(400)
+            expect(result.error.reason).toBe('ERRORS.INVALID_GRANT')
+        });
+    });
+
+    test.describe('activation', () => {
+
+        test('should show an error for a wrong user code', async ({page}) => {
+            const response = await activateDevice(page, authUrl, 'AAAA-2222', 'device@example.com', 'secretPassword')
+
+            expect(response.status()).toBe(400)
+            await expect(page.locator('.error[data-error="ACTIVATE.ERRORS.INVALID_CODE"]')).toBeVisible()
+        });
+
+        test('should accept a user code without separator and in lower case', async ({page}) => {
+            const device = (await requestDeviceCode(authUrl, {client_id: deviceClientId})).data
+            const response = await activateDevice(
+                page, authUrl, device.user_code.replace('-', '').toLowerCase(), 'device@example.com', 'secretPassword'
+            )
+
+            expect(response.status()).toBe(200)
+            await expect(page.locator('.message[data-result="success"]')).toBeVisible()
+        });
+
+        test('should not activate a user code twice', async ({page}) => {
+            const device = (await requestDeviceCode(authUrl, {client_id: deviceClientId})).data
+            const first = await activateDevice(page, authUrl, device.user_code, 'device@example.com', 'secretPassword')
+            expect(first.status()).toBe(200)
+
+            const second = await activateDevice(page, authUrl, device.user_code, 'device@example.com', 'secretPassword')
+            expect(second.status()).toBe(400)
+            await expect(page.locator('.error[data-error="ACTIVATE.ERRORS.CODE_ALREADY_USED"]')).toBeVisible()
+        });
+
+        // The activation page has no explicit deny action. A denied activation is a login the tenant provider
+        // refuses: the device must not get a token and stays pending.
+        test('should deny the activation for a user the provider refuses', async ({page}) => {
+            const device = (await requestDeviceCode(authUrl, {client_id: deviceClientId})).data
+            const response = await activateDevice(page, authUrl, device.user_code, 'device@example.net', 'secretPassword')
+
+            expect(response.status()).toBe(403)
+            await expect(page.locator('.error[data-error="LOGIN.ERRORS.WRONG_CREDENTIALS"]')).toBeVisible()
+
+            const client = new UitsmijterClient({issuer: authUrl, clientId: deviceClientId})
+            const result = await client.deviceToken(device.device_code)
+            await client.dispose()
+
+            expect(result.status).toBe(400)
+            expect(result.error.reason).toBe('ERRORS.AUTHORIZATION_PENDING')
+        });
+
+        test('should require credentials', async ({page}) => {
+            const device = (await requestDeviceCode(authUrl, {client_id: deviceClientId})).data
+            const response = await activateDevice(page, authUrl, device.user_code, '', '')
+
+            expect(response.status()).toBe(400)
+            await expect(page.locator('.error[data-error="ACTIVATE.ERRORS.CREDENTIALS_REQUIRED"]')).toBeVisible()
+        });
+    });
+
+    test.describe('expiry', () => {
+
+        test('should reject a device code after expires_in', async ({page}) => {
+            const device = (await requestDeviceCode(authUrl, {client_id: shortDeviceClientId})).data
+            expect(device.expires_in).toBe(5)
+
+            // Wait until the device code is expired
+            await page.waitForTimeout((device.expires_in + 2) * 1000)
+
+            const client = new UitsmijterClient({issuer: authUrl, clientId: shortDeviceClientId})
+            const result = await client.deviceToken(device.device_code)
+            await client.dispose()
+
+            expect(result.status).toBe(400)
+            expect(result.error.reason).toBe('ERRORS.INVALID_GRANT')
+        });
+
+        test('should not activate an expired user code', async ({page}) => {
+            const device = (await requestDeviceCode(authUrl, {client_id: shortDeviceClientId})).data
+            await page.waitForTimeout((device.expires_in + 2) * 1000)
+
+            const response = await activateDevice(page, authUrl, device.user_code, 'device@example.com', 'secretPassword')
+
+            expect(response.status()).toBe(400)
+            await expect(page.locator('.error[data-error="ACTIVATE.ERRORS.INVALID_CODE"]')).toBeVisible()
+        });
+    });
+})
@@ -0,0 +1,98 @@
+import {test, expect} from '../Fixtures/entities';
+import {UitsmijterClient} from "./UitsmijterClient";
+import {decodeJwt} from "./AuthorizeRequests";
+import {verifyJwt} from "./JwtVerification";
+
+// Specs with tenants and clients of their own, see `Tests/e2e/readme.md#tenant-and-client-fixtures`
+
+test.describe('Generated tenant and client', () => {
+
+    test('should issue tokens of the generated tenant for an authorization code', async ({tenant, client}) => {
+        const oauth = new UitsmijterClient({issuer: tenant.issuer, clientId: client.ident})
+        const redirectUri = `${tenant.issuer}/callback`
+
+        const login = await oauth.login('fixture@example.com', 'secretPassword', {
+            redirect_uri: redirectUri,
+            scope: 'access',
+            state: 'fixture',
+        })
+        expect(login.state).toBe('fixture')
+        expect(login.code).toBeDefined()
+
+        const result = await oauth.exchangeCode(login.code, {scope: 'access'})
+        expect(result.status).toBe(200)
+
+        const token = decodeJwt(result.data.access_token)
+        expect(token.payload.tenant).toBe(tenant.name)
+        expect(token.payload.iss).toBe(tenant.issuer)
+
+        const verified = await verifyJwt(result.data.access_token, tenant.issuer, {
+            audience: client.ident,
+            secret: 'forTestingPurposesOnly',
+        })
+        expect(verified.errors).toEqual([])
+        await oauth.dispose()
+    });
+
+    test('should reject users that the providers of the tenant do not accept', async ({tenant, client}) => {
+        const oauth = new UitsmijterClient({issuer: tenant.issuer, clientId: client.ident})
+
+        const login = await oauth.login('fixture@example.net', 'secretPassword', {
+            redirect_uri: `${tenant.issuer}/callback`,
+            scope: 'access',
+        })
+        expect(login.code).toBeUndefined()
+        await oauth.dispose()
+    });
+
+    test.describe('with options', () => {
+        test.use({
+            tenantConfig: {jwt_algorithm: 'RS256'},
+            clientConfig: {grant_types: ['password', 'refresh_token'], secret: 'fixtureSecret'},
+        })
+
+        test('should apply the tenant and client config', async ({tenant, client}) => {
+            const oauth = new UitsmijterClient({
+                issuer: tenant.issuer,
+                clientId: client.ident,
+                clientSecret: 'fixtureSecret',
+            })
+
+            const result = await oauth.token({
+                grant_type: 'password',
+                username: 'fixture@example.com',
+                password: 'secretPassword',
+                scope: 'access',
+            })
+            expect(result.status).toBe(200)
+            expect(decodeJwt(result.data.access_token).header.alg).toBe('RS256')
+
+            const verified = await verifyJwt(result.data.access_token, tenant.issuer, {audience: client.ident})
+            expect(verified.errors).toEqual([])
+            await oauth.dispose()
+        });
+    });
+
+    test('should create further clients of a tenant', async ({tenant, client, entities}) => {
+        const serviceClient = await entities.client(tenant, {grant_types: ['password']})
+        expect(serviceClient.ident).not.toBe(client.ident)
+
+        const oauth = new UitsmijterClient({issuer: tenant.issuer, clientId: serviceClient.ident})
+        const result = await oauth.token({
+            grant_type: 'password',
+            username: 'fixture@example.com',
+            password: 'secretPassword',
+            scope: 'access',
+        })
+        expect(result.status).toBe(200)
+        expect(decodeJwt(result.data.access_token).payload.aud).toBe(serviceClient.ident)
+        await oauth.dispose()
+    });
+
+    test('should unload removed entities', async ({tenant, entities, request}) => {
+        await entities.dispose()
+
+        const response = await request.get(`${tenant.issuer}/.well-known/openid-configuration`)
+        expect(response.status()).not.toBe(200)
+    });
+});
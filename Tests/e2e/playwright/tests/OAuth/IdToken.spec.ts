@@ -0,0 +1,176 @@
+import {ClientFixture, expect, TenantFixture, test} from '../Fixtures/entities';
+import {UitsmijterClient} from "./UitsmijterClient";
+import {decodeIdToken, decodeJwt} from "./AuthorizeRequests";
+import {accessTokenHash, verifyIdToken} from "./JwtVerification";
+
+// OpenID Connect: an `id_token` for the `openid` scope and the `/userinfo` endpoint, both with the standard claims
+// of the granted `profile` and `email` scopes
+
+const providers = [
+    `class UserLoginProvider {
+  constructor(credentials) {
+    this.username = credentials.username;
+    commit(true);
+  }
+  get canLogin() { return true; }
+  get userProfile() {
+    return { name: "Ida Token", given_name: "Ida", email: this.username, email_verified: true, department: "QA" };
+  }
+  get role() { return "user"; }
+}`,
+    `class UserValidationProvider {
+  constructor(args) { commit(true); }
+  get isValid() { return true; }
+}`,
+]
+
+async function openIdTokens(tenant: TenantFixture, client: ClientFixture, scope: string, nonce?: string) {
+    const oauth = new UitsmijterClient({issuer: tenant.issuer, clientId: client.ident})
+    const login = await oauth.login('ida@example.com', 'secretPassword', {
+        redirect_uri: `${tenant.issuer}/callback`,
+        scope: scope,
+        state: 'openid',
+        nonce: nonce,
+    })
+    expect(login.code).toBeDefined()
+
+    const result = await oauth.exchangeCode(login.code, {scope: scope})
+    expect(result.status).toBe(200)
+    return {oauth, tokens: result.data}
+}
+
+test.describe('OpenID Connect', () => {
+    test.use({
+        tenantConfig: {providers: providers},
+        clientConfig: {
+            grant_types: ['authorization_code', 'refresh_token'],
+            scopes: ['openid', 'profile', 'email', 'access'],
+        },
+    })
+
+    test.describe('id_token', () => {
+
+        test('should be issued for the openid scope and round-trip the nonce', async ({tenant, client}) => {
+            const nonce = 'n-' + Math.floor(Math.random() * 999999999)
+            const {oauth, tokens} = await openIdTokens(tenant, client, 'openid', nonce)
+            expect(tokens.id_token).toBeDefined()
+
+            const verified = await verifyIdToken(tokens.id_token, tenant.issuer, {
+                audience: client.ident,
+                secret: 'forTestingPurposesOnly',
+            })
+            expect(verified.errors).toEqual([])
+
+            const idToken = verified.token.payload
+            const accessToken = decodeJwt(tokens.access_token).payload
+            expect(idToken.nonce).toBe(nonce)
+            expect(idToken.at_hash).toBe(accessTokenHash(tokens.access_token))
+            expect(idToken.sub).toBe(accessToken.sub)
+            expect(idToken.auth_time).toBe(accessToken.auth_time)
+            await oauth.dispose()
+        });
+
+        test('should not be issued without the openid scope', async ({tenant, client}) => {
+            const {oauth, tokens} = await openIdTokens(tenant, client, 'profile email')
+            expect(tokens.id_token).toBeUndefined()
+            await oauth.dispose()
+        });
+
+        test('should carry the claims of the profile scope only', async ({tenant, client}) => {
+            const {oauth, tokens} = await openIdTokens(tenant, client, 'openid profile')
+            const idToken = decodeIdToken(tokens.id_token).payload
+
+            expect(idToken.nonce).toBeUndefined()
+            expect(idToken.name).toBe('Ida Token')
+            expect(idToken.given_name).toBe('Ida')
+            expect(idToken.email).toBeUndefined()
+            expect(idToken).not.toHaveProperty('department')
+            await oauth.dispose()
+        });
+
+        test('should carry the claims of the email scope only', async ({tenant, client}) => {
+            const {oauth, tokens} = await openIdTokens(tenant, client, 'openid email')
+            const idToken = decodeIdToken(tokens.id_token).payload
+
+            expect(idToken.email).toBe('ida@example.com')
+            expect(idToken.email_verified).toBe(true)
+            expect(idToken.name).toBeUndefined()
+            await oauth.dispose()
+        });
+
+        test('should be issued again without a nonce on refresh', async ({tenant, client}) => {
+            const {oauth, tokens} = await openIdTokens(tenant, client, 'openid email', 'refresh-nonce')
+
+            const refreshed = await oauth.refresh(tokens.refresh_token)
+            expect(refreshed.status).toBe(200)
+
+            const idToken = decodeIdToken(refreshed.data.id_token).payload
+            expect(idToken.nonce).toBeUndefined()
+            expect(idToken.at_hash).toBe(accessTokenHash(refreshed.data.access_token))
+            expect(idToken.email).toBe('ida@example.com')
+            await oauth.dispose()
+        });
+    });
+
+    test.describe('userinfo endpoint', () => {
+
+        test('should return the subject of the id_token', async ({tenant, client}) => {
+            const {oauth, tokens} = await openIdTokens(tenant, client, 'openid')
+
+            const result = await oauth.openIdUserInfo(tokens.access_token)
+            expect(result.status).toBe(200)
+            expect(result.data).toEqual({sub: decodeIdToken(tokens.id_token).payload.sub})
+            await oauth.dispose()
+        });
+
+        test('should return the claims of the profile scope only', async ({tenant, client}) => {
+            const {oauth, tokens} = await openIdTokens(tenant, client, 'openid profile')
+
+            const result = await oauth.openIdUserInfo(tokens.access_token)
+            expect(result.status).toBe(200)
+            expect(result.data.name).toBe('Ida Token')
+            expect(result.data.given_name).toBe('Ida')
+            expect(result.data).not.toHaveProperty('email')
+            expect(result.data).not.toHaveProperty('department')
+            await oauth.dispose()
+        });
+
+        test('should return the claims of the email scope only', async ({tenant, client}) => {
+            const {oauth, tokens} = await openIdTokens(tenant, client, 'openid email')
+
+            const result = await oauth.openIdUserInfo(tokens.access_token)
+            expect(result.status).toBe(200)
+            expect(result.data.email).toBe('ida@example.com')
+            expect(result.data.email_verified).toBe(true)
+            expect(result.data).not.toHaveProperty('name')
+            await oauth.dispose()
+        });
+
+        test('should refuse access tokens without the openid scope', async ({tenant, client}) => {
+            const {oauth, tokens} = await openIdTokens(tenant, client, 'access profile')
+
+            const result = await oauth.openIdUserInfo(tokens.access_token)
+            expect(result.status).toBe(403)
+            expect(result.error.reason).toBe('ERRORS.INSUFFICIENT_SCOPE')
+            await oauth.dispose()
+        });
+
+        test('should refuse an invalid access token', async ({tenant, client}) => {
+            const oauth = new UitsmijterClient({issuer: tenant.issuer, clientId: client.ident})
+
+            const result = await oauth.openIdUserInfo('invalid')
+            expect(result.status).toBe(401)
+            await oauth.dispose()
+        });
+    });
+
+    test('should advertise the userinfo endpoint', async ({tenant, client}) => {
+        const oauth = new UitsmijterClient({issuer: tenant.issuer, clientId: client.ident})
+        const context = await oauth.requestContext()
+
+        const config = await (await context.get('/.well-known/openid-configuration')).json()
+        expect(config.userinfo_endpoint).toBe(`${tenant.issuer}/userinfo`)
+        expect(config.claims_supported).toEqual(expect.arrayContaining(['nonce', 'at_hash']))
+        await oauth.dispose()
+    });
+});
@@ -1,9 +1,20 @@
 import {test, expect} from '@playwright/test';
 import {Application} from "../Fixtures/app";
-import {
-    getTokenForAuthorisationCode,
-    getTokenInfo,
-} from "./AuthorizeRequests";
+import {UitsmijterClient, UitsmijterClientOptions} from "./UitsmijterClient";
+import {TokenRequestDataPassword} from "../types/TokenRequestData";
+
+const issuer = 'https://id.example.com'
+const clientSecret = 'luaTha1qu019ohc13qu3ze1yuo5MumEl0hQuoE9bon'
+
+// Sends one token request with a client of its own
+async function passwordGrant(options: UitsmijterClientOptions, data: Omit<TokenRequestDataPassword, "client_id">) {
+    const client = new UitsmijterClient(options)
+    try {
+        return await client.token(data)
+    } finally {
+        await client.dispose()
+    }
+}
 
 test.describe('Password/Implicit OAuth mode', () => {
 
@@ -26,24 +37,29 @@ test.describe('Password/Implicit OAuth mode', () => {
             // All tests in this describe must be executed in series
             test.describe.configure({mode: 'serial'});
 
+            const client = new UitsmijterClient({
+                issuer,
+                clientId: 'e92b4a0b-d1d7-4d55-b2e3-dc570faca745',
+                clientSecret,
+            })
+
             // Flow context
             let accessToken: string = null
 
+            test.afterAll(async () => {
+                await client.dispose()
+            });
+
             test('should respond with a token on authentication', async () => {
                 // request authorization_code
-                const tokenResponse = await getTokenForAuthorisationCode(
-                    'https://id.example.com',
-                    {
-                        "grant_type": "password",
-                        "client_id": "e92b4a0b-d1d7-4d55-b2e3-dc570faca745",
-                        "client_secret": "luaTha1qu019ohc13qu3ze1yuo5MumEl0hQuoE9bon",
-                        "scope": "read learn",
-                        "username": "testuser@example.com",
-                        "password": "Tes1Pas5w0r1",
-                    }
-                );
-
-                const jsonResponse = await tokenResponse.json();
+                const result = await client.token({
+                    grant_type: 'password',
+                    scope: 'read learn',
+                    username: 'testuser@example.com',
+                    password: 'Tes1Pas5w0r1',
+                });
+
+                const jsonResponse = result.data;
                 expect(jsonResponse).toHaveProperty('access_token')
                 expect(jsonResponse).toHaveProperty('expires_in')
                 expect(jsonResponse).toHaveProperty('scope')
@@ -54,12 +70,9 @@ test.describe('Password/Implicit OAuth mode', () => {
 
             // Info
             test('should respond info for a valid token', async () => {
-                const tokenInfoResponse = await getTokenInfo(
-                    'https://id.example.com',
-                    accessToken
-                )
+                const tokenInfo = await client.userInfo(accessToken)
 
-                const jsonInfoResponse = await tokenInfoResponse.json();
+                const jsonInfoResponse = tokenInfo.data;
                 expect(jsonInfoResponse).toHaveProperty('name')
                 expect(jsonInfoResponse.name).toBe('Test User')
             });
@@ -68,21 +81,14 @@ test.describe('Password/Implicit OAuth mode', () => {
         test.describe('error case', async () => {
             test('should respond with error when not enabled', async () => {
                 // request authorization_code with password flow
-                const tokenResponse = await getTokenForAuthorisationCode(
-                    'https://id.example.com',
-                    {
-                        "grant_type": "password",
-                        "client_id": "d9c48a1b-46bd-49d8-9305-08b8e380a69e",
-                        "client_secret": "luaTha1qu019ohc13qu3ze1yuo5MumEl0hQuoE9bon",
-                        "scope": "read learn",
-                        "username": "testuser@example.com",
-                        "password": "Tes1Pas5w0r1",
-                    }
+                const result = await passwordGrant(
+                    {issuer, clientId: 'd9c48a1b-46bd-49d8-9305-08b8e380a69e', clientSecret},
+                    {grant_type: 'password', scope: 'read learn', username: 'testuser@example.com', password: 'Tes1Pas5w0r1'}
                 );
 
-                expect(tokenResponse.status()).toBe(400)
+                expect(result.status).toBe(400)
 
-                const jsonResponse = await tokenResponse.json()
+                const jsonResponse = result.error
                 expect(jsonResponse).toHaveProperty('status')
                 expect(jsonResponse.status).toBe(400)
                 expect(jsonResponse).toHaveProperty('error')
@@ -93,21 +99,14 @@ test.describe('Password/Implicit OAuth mode', () => {
 
             test('should respond with unauthorized when using wrong client secret', async () => {
                 // request authorization_code with wrong client secret
-                const tokenResponse = await getTokenForAuthorisationCode(
-                    'https://id.example.com',
-                    {
-                        "grant_type": "password",
-                        "client_id": "e92b4a0b-d1d7-4d55-b2e3-dc570faca745",
-                        "client_secret": "wrongClientSecret",
-                        "scope": "",
-                        "username": "",
-                        "password": "",
-                    }
+                const result = await passwordGrant(
+                    {issuer, clientId: 'e92b4a0b-d1d7-4d55-b2e3-dc570faca745', clientSecret: 'wrongClientSecret'},
+                    {grant_type: 'password', scope: '', username: '', password: ''}
                 );
 
-                expect(tokenResponse.status()).toBe(401)
+                expect(result.status).toBe(401)
 
-                const jsonResponse = await tokenResponse.json()
+                const jsonResponse = result.error
                 expect(jsonResponse).toHaveProperty('status')
                 expect(jsonResponse.status).toBe(401)
                 expect(jsonResponse).toHaveProperty('error')
@@ -118,21 +117,14 @@ test.describe('Password/Implicit OAuth mode', () => {
 
             test('should respond with unauthorized when using wrong credentials', async () => {
                 // request authorization_code with wrong credentials
-                const tokenResponse = await getTokenForAuthorisationCode(
-                    'https://id.example.com',
-                    {
-                        "grant_type": "password",
-                        "client_id": "e92b4a0b-d1d7-4d55-b2e3-dc570faca745",
-                        "client_secret": "luaTha1qu019ohc13qu3ze1yuo5MumEl0hQuoE9bon",
-                        "scope": "read learn",
-                        "username": "not-existing-user",
-                        "password": "test",
-                    }
+                const result = await passwordGrant(
+                    {issuer, clientId: 'e92b4a0b-d1d7-4d55-b2e3-dc570faca745', clientSecret},
+                    {grant_type: 'password', scope: 'read learn', username: 'not-existing-user', password: 'test'}
                 );
 
-                expect(tokenResponse.status()).toBe(403)
+                expect(result.status).toBe(403)
 
-                const jsonResponse = await tokenResponse.json()
+                const jsonResponse = result.error
                 expect(jsonResponse).toHaveProperty('status')
                 expect(jsonResponse.status).toBe(403)
                 expect(jsonResponse).toHaveProperty('error')
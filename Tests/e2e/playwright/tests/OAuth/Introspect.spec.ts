@@ -0,0 +1,124 @@
+import {test, expect, TenantFixture, ClientFixture} from '../Fixtures/entities';
+import {UitsmijterClient} from "./UitsmijterClient";
+import {TokenResponseData} from "../types/TokenResponseData";
+
+// Token introspection (RFC 7662): a confidential client of the tenant, the resource server, asks for the state of
+// the tokens of a public client
+
+const resourceServerSecret = 'resourceServerSecret'
+
+async function userTokens(tenant: TenantFixture, client: ClientFixture): Promise<TokenResponseData> {
+    const oauth = new UitsmijterClient({issuer: tenant.issuer, clientId: client.ident})
+    const login = await oauth.login('introspect@example.com', 'secretPassword', {
+        redirect_uri: `${tenant.issuer}/callback`,
+        scope: 'access',
+    })
+    const result = await oauth.exchangeCode(login.code, {scope: 'access'})
+    expect(result.status).toBe(200)
+    await oauth.dispose()
+    return result.data
+}
+
+test.describe('Token introspection', () => {
+    let resourceServer: UitsmijterClient
+
+    test.beforeEach(async ({tenant, entities}) => {
+        const client = await entities.client(tenant, {grant_types: ['client_credentials'], secret: resourceServerSecret})
+        resourceServer = new UitsmijterClient({
+            issuer: tenant.issuer,
+            clientId: client.ident,
+            clientSecret: resourceServerSecret,
+        })
+    });
+
+    test.afterEach(async () => {
+        await resourceServer.dispose()
+    });
+
+    test('should describe an active access token', async ({tenant, client}) => {
+        const tokens = await userTokens(tenant, client)
+
+        const result = await resourceServer.introspect(tokens.access_token, 'access_token')
+        expect(result.status).toBe(200)
+        expect(result.data.active).toBe(true)
+        expect(result.data.client_id).toBe(client.ident)
+        expect(result.data.sub).toBeDefined()
+        expect(result.data.tenant).toBe(tenant.name)
+        expect(result.data.scope).toBe('access')
+        expect(result.data.token_type).toBe('Bearer')
+        expect(result.data.exp).toBeGreaterThan(Date.now() / 1000)
+        expect(result.data.iat).toBeLessThanOrEqual(Date.now() / 1000)
+    });
+
+    test('should describe an active refresh token', async ({tenant, client}) => {
+        const tokens = await userTokens(tenant, client)
+
+        const result = await resourceServer.introspect(tokens.refresh_token, 'refresh_token')
+        expect(result.status).toBe(200)
+        expect(result.data.active).toBe(true)
+        expect(result.data.client_id).toBe(client.ident)
+    });
+
+    test('should find the token with a wrong hint', async ({tenant, client}) => {
+        const tokens = await userTokens(tenant, client)
+
+        const result = await resourceServer.introspect(tokens.access_token, 'refresh_token')
+        expect(result.data.active).toBe(true)
+    });
+
+    test('should report a revoked access token as inactive', async ({tenant, client}) => {
+        const tokens = await userTokens(tenant, client)
+        const owner = new UitsmijterClient({issuer: tenant.issuer, clientId: client.ident})
+        expect((await owner.revoke(tokens.access_token, 'access_token')).status()).toBe(200)
+        await owner.dispose()
+
+        const result = await resourceServer.introspect(tokens.access_token)
+        expect(result.status).toBe(200)
+        expect(result.data).toEqual({active: false})
+
+        expect((await resourceServer.userInfo(tokens.access_token)).status).toBe(401)
+    });
+
+    test('should report an unknown token as inactive', async () => {
+        const result = await resourceServer.introspect('unknown-' + Math.floor(Math.random() * 999999999))
+        expect(result.status).toBe(200)
+        expect(result.data).toEqual({active: false})
+    });
+
+    test('should report a token of another tenant as inactive', async ({entities}) => {
+        const otherTenant = await entities.tenant()
+        const otherClient = await entities.client(otherTenant)
+        const tokens = await userTokens(otherTenant, otherClient)
+
+        const result = await resourceServer.introspect(tokens.access_token)
+        expect(result.data).toEqual({active: false})
+    });
+
+    test('should refuse a public client', async ({tenant, client}) => {
+        const tokens = await userTokens(tenant, client)
+        const publicClient = new UitsmijterClient({issuer: tenant.issuer, clientId: client.ident})
+
+        const result = await publicClient.introspect(tokens.access_token)
+        expect(result.status).toBe(401)
+        expect(result.error?.reason).toBe('ERRORS.INVALID_CLIENT')
+        await publicClient.dispose()
+    });
+
+    test('should refuse a wrong client secret', async ({tenant, client}) => {
+        const tokens = await userTokens(tenant, client)
+        const intruder = new UitsmijterClient({
+            issuer: tenant.issuer,
+            clientId: resourceServer.clientId,
+            clientSecret: 'wrongSecret',
+        })
+
+        const result = await intruder.introspect(tokens.access_token)
+        expect(result.status).toBe(401)
+        await intruder.dispose()
+    });
+
+    test('should be advertised in the discovery of the tenant', async ({tenant, request}) => {
+        const response = await request.get(`${tenant.issuer}/.well-known/openid-configuration`)
+        expect((await response.json()).introspection_endpoint).toBe(`${tenant.issuer}/introspect`)
+    });
+});
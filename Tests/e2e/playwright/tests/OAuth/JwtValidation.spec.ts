@@ -1,12 +1,10 @@
 import {test, expect} from '@playwright/test';
 import {Application} from "../Fixtures/app";
-import {
-    decodeJwt,
-    getTokenForAuthorisationCode,
-    loginAuthorizeFormRequest
-} from "./AuthorizeRequests";
+import {decodeJwt} from "./AuthorizeRequests";
+import {UitsmijterClient} from "./UitsmijterClient";
 import {request} from "@playwright/test";
-import jwt from 'jsonwebtoken';
+import {verifyJwt} from "./JwtVerification";
+import {validateJwtToken} from "../types/JwtToken";
 
 test.describe('JWT Token Validation with JWKS', () => {
 
@@ -18,40 +16,26 @@ test.describe('JWT Token Validation with JWKS', () => {
     test.describe('HS256 Tenant - Symmetric Signing', () => {
         test.describe.configure({mode: 'serial'});
 
-        const myState = Math.floor(Math.random() * 999999999);
-        let code: string = null;
+        const myState = '' + Math.floor(Math.random() * 999999999);
         let accessToken: string = null;
 
         test('should complete OAuth flow and get HS256 token', async ({page}) => {
-            const response = await loginAuthorizeFormRequest(
-                page,
-                'https://id.example.com',
-                {
-                    client_id: "143A3135-5DE2-46D4-828F-DDCF20C72060",
-                    redirect_uri: "https://api.example.com/",
-                    response_type: "code",
-                    scope: "access",
-                    state: "" + myState,
-                    username: "cee8Esh5@example.com"
-                }
-            );
-
-            expect(response.url()).toContain("state=" + myState);
-            expect(response.url()).toContain("code=");
-            code = response.url().match(/code=(.+)&/)[1];
-
-            const tokenResponse = await getTokenForAuthorisationCode(
-                'https://id.example.com',
-                {
-                    "grant_type": "authorization_code",
-                    "client_id": "143A3135-5DE2-46D4-828F-DDCF20C72060",
-                    "scope": "access",
-                    "code": "" + code
-                }
-            );
-
-            const jsonResponse = await tokenResponse.json();
-            accessToken = jsonResponse.access_token;
+            const client = new UitsmijterClient({
+                issuer: 'https://id.example.com',
+                clientId: '143A3135-5DE2-46D4-828F-DDCF20C72060',
+                context: page.request,
+            })
+            const login = await client.login('cee8Esh5@example.com', 'secretPassword', {
+                redirect_uri: 'https://api.example.com/',
+                scope: 'access',
+                state: myState,
+            });
+
+            expect(login.state).toBe(myState);
+            expect(login.code).toBeDefined();
+
+            const result = await client.exchangeCode(login.code, {scope: 'access'});
+            accessToken = result.data.access_token;
         });
 
         test('should verify HS256 token uses symmetric algorithm', async () => {
@@ -90,6 +74,26 @@ test.describe('JWT Token Validation with JWKS', () => {
             console.log(`HS256 tenant JWKS contains ${jwks.keys.length} keys (expected 0 for HS256-only)`);
         });
 
+        test('should verify HS256 token signature and claims with the tenant secret', async () => {
+            const result = await verifyJwt(accessToken, 'https://id.example.com', {
+                audience: '143A3135-5DE2-46D4-828F-DDCF20C72060',
+                secret: 'forTestingPurposesOnly',
+            });
+
+            expect(result.errors).toEqual([]);
+            expect(result.valid).toBe(true);
+            expect(result.key).toBeUndefined();
+        });
+
+        test('should not verify HS256 token with a wrong secret', async () => {
+            const result = await verifyJwt(accessToken, 'https://id.example.com', {
+                secret: 'notTheSecret',
+            });
+
+            expect(result.valid).toBe(false);
+            expect(result.errors.join()).toContain('invalid signature');
+        });
+
         test('should have valid token payload structure', async () => {
             const decodedToken = decodeJwt(accessToken);
 
@@ -104,45 +108,54 @@ test.describe('JWT Token Validation with JWKS', () => {
             expect(decodedToken.payload).toHaveProperty('tenant');
             expect(decodedToken.payload.tenant).toBe('cheese/cheese');
         });
+
+        test('should match the JwtToken schema', async () => {
+            const [header, payload] = accessToken.split('.').map(
+                (part) => JSON.parse(Buffer.from(part, 'base64url').toString('utf8'))
+            );
+            expect(validateJwtToken({header, payload})).toEqual([]);
+        });
+
+        test('should report claims that do not match the JwtToken schema', async () => {
+            const payload = {...decodeJwt(accessToken).payload, exp: 'tomorrow', nonce: 'unknown'};
+            delete payload.tenant;
+
+            expect(validateJwtToken({header: {typ: 'JWT', alg: 'HS256'}, payload})).toEqual([
+                'payload.exp should be of type number, got "tomorrow"',
+                'payload.tenant is missing',
+                'payload.nonce is unknown',
+            ]);
+
+            const token = [{typ: 'JWT', alg: 'HS256'}, payload]
+                .map((part) => Buffer.from(JSON.stringify(part)).toString('base64url'))
+                .join('.') + '.signature';
+            expect(() => decodeJwt(token)).toThrow('Token does not match the JwtToken schema');
+        });
     });
 
     test.describe('RS256 Tenant - Asymmetric Signing with JWKS', () => {
         test.describe.configure({mode: 'serial'});
 
-        const myState = Math.floor(Math.random() * 999999999);
-        let code: string = null;
+        const myState = '' + Math.floor(Math.random() * 999999999);
         let accessToken: string = null;
 
         test('should complete OAuth flow and get RS256 token', async ({page}) => {
-            const response = await loginAuthorizeFormRequest(
-                page,
-                'https://id-rs256.example.com',
-                {
-                    client_id: "9F8E7D6C-5B4A-3210-FEDC-BA9876543210",
-                    redirect_uri: "https://api-rs256.example.com/",
-                    response_type: "code",
-                    scope: "access",
-                    state: "" + myState,
-                    username: "cee8Esh5@example.com"
-                }
-            );
-
-            expect(response.url()).toContain("state=" + myState);
-            expect(response.url()).toContain("code=");
-            code = response.url().match(/code=(.+)&/)[1];
-
-            const tokenResponse = await getTokenForAuthorisationCode(
-                'https://id-rs256.example.com',
-                {
-                    "grant_type": "authorization_code",
-                    "client_id": "9F8E7D6C-5B4A-3210-FEDC-BA9876543210",
-                    "scope": "access",
-                    "code": "" + code
-                }
-            );
-
-            const jsonResponse = await tokenResponse.json();
-            accessToken = jsonResponse.access_token;
+            const client = new UitsmijterClient({
+                issuer: 'https://id-rs256.example.com',
+                clientId: '9F8E7D6C-5B4A-3210-FEDC-BA9876543210',
+                context: page.request,
+            })
+            const login = await client.login('cee8Esh5@example.com', 'secretPassword', {
+                redirect_uri: 'https://api-rs256.example.com/',
+                scope: 'access',
+                state: myState,
+            });
+
+            expect(login.state).toBe(myState);
+            expect(login.code).toBeDefined();
+
+            const result = await client.exchangeCode(login.code, {scope: 'access'});
+            accessToken = result.data.access_token;
         });
 
         test('should verify RS256 token uses asymmetric algorithm', async () => {
@@ -216,47 +229,51 @@ test.describe('JWT Token Validation with JWKS', () => {
         });
 
         test('should verify RS256 token signature using JWKS public key', async () => {
-            const context = await request.newContext();
             const decodedToken = decodeJwt(accessToken);
-            const kid = decodedToken.header.kid;
+            const result = await verifyJwt(accessToken, 'https://id-rs256.example.com', {
+                audience: '9F8E7D6C-5B4A-3210-FEDC-BA9876543210',
+            });
 
-            // Fetch JWKS
-            const jwksResponse = await context.get('https://id-rs256.example.com/.well-known/jwks.json');
-            const jwks = await jwksResponse.json();
+            expect(result.errors).toEqual([]);
+            expect(result.valid).toBe(true);
 
-            // Find the key matching the token's kid
-            const signingKey = jwks.keys.find((key: any) => key.kid === kid);
-            expect(signingKey).toBeDefined();
+            // The key was selected by the token's kid
+            expect(result.key.kid).toBe(decodedToken.header.kid);
+            expect(result.key.kty).toBe('RSA');
+            expect(result.token.payload.tenant).toBe('cheese/cheese-rs256');
+        });
 
-            console.log(`Found matching key for kid: ${kid}`);
+        test('should not verify RS256 token with a manipulated payload', async () => {
+            const [header, payload, signature] = accessToken.split('.');
+            const manipulated = {...decodeJwt(accessToken).payload, role: 'admin'};
+            const manipulatedToken = [
+                header,
+                Buffer.from(JSON.stringify(manipulated)).toString('base64url'),
+                signature
+            ].join('.');
+            expect(payload).not.toBe(manipulatedToken.split('.')[1]);
 
-            // Convert JWK to PEM format for verification
-            const publicKey = jwkToPem(signingKey);
+            const result = await verifyJwt(manipulatedToken, 'https://id-rs256.example.com');
 
-            // Verify token signature using the public key
-            let verified = false;
-            let verifiedPayload: any = null;
+            expect(result.valid).toBe(false);
+            expect(result.errors.join()).toContain('invalid signature');
+        });
 
-            try {
-                verifiedPayload = jwt.verify(accessToken, publicKey, {
-                    algorithms: ['RS256'],
-                    complete: false
-                });
-                verified = true;
-            } catch (error) {
-                console.error('Token verification failed:', error);
-                verified = false;
-            }
+        test('should not verify RS256 token for another audience', async () => {
+            const result = await verifyJwt(accessToken, 'https://id-rs256.example.com', {
+                audience: 'another-client',
+            });
 
-            expect(verified).toBe(true);
-            expect(verifiedPayload).toBeTruthy();
+            expect(result.valid).toBe(false);
+            expect(result.errors.join()).toContain('jwt audience invalid');
+        });
 
-            // Verify the payload matches what we decoded earlier
-            expect(verifiedPayload.sub).toBe(decodedToken.payload.sub);
-            expect(verifiedPayload.aud).toBe(decodedToken.payload.aud);
-            expect(verifiedPayload.tenant).toBe('cheese/cheese-rs256');
+        test('should not verify RS256 token for another issuer', async () => {
+            // id.example.com is a HS256 tenant, its JWKS does not know the kid of the RS256 tenant
+            const result = await verifyJwt(accessToken, 'https://id.example.com');
 
-            console.log('✓ Token signature verified successfully using JWKS public key');
+            expect(result.valid).toBe(false);
+            expect(result.errors.length).toBeGreaterThan(0);
         });
 
         test('should verify token is not expired', async () => {
@@ -290,123 +307,3 @@ test.describe('JWT Token Validation with JWKS', () => {
         });
     });
 });
-
-/**
- * Convert JWK (JSON Web Key) to PEM format for use with jsonwebtoken library
- * This is a simplified implementation for RSA public keys
- */
-function jwkToPem(jwk: any): string {
-    // For a production implementation, use a library like 'jwk-to-pem'
-    // This is a basic implementation for testing purposes
-
-    // Decode base64url to buffer
-    const n = base64UrlToBuffer(jwk.n);
-    const e = base64UrlToBuffer(jwk.e);
-
-    // Build ASN.1 structure for RSA public key
-    const publicKeyDer = buildRsaPublicKeyDer(n, e);
-
-    // Convert to PEM format
-    const base64Der = publicKeyDer.toString('base64');
-    const pem = [
-        '-----BEGIN PUBLIC KEY-----',
-        base64Der.match(/.{1,64}/g)!.join('\n'),
-        '-----END PUBLIC KEY-----'
-    ].join('\n');
-
-    return pem;
-}
-
-/**
- * Decode base64url string to Buffer
- */
-function base64UrlToBuffer(base64url: string): Buffer {
-    // Convert base64url to base64
-    let base64 = base64url.replace(/-/g, '+').replace(/_/g, '/');
-
-    // Add padding if needed
-    while (base64.length % 4) {
-        base64 += '=';
-    }
-
-    return Buffer.from(base64, 'base64');
-}
-
-/**
- * Build ASN.1 DER structure for RSA public key
- * This follows the PKCS#1 / RFC 8017 format
- */
-function buildRsaPublicKeyDer(modulus: Buffer, exponent: Buffer): Buffer {
-    // ASN.1 INTEGER encoding
-    const encodeInteger = (buffer: Buffer): Buffer => {
-        // Add leading 0x00 if high bit is set (to indicate positive number)
-        const needsPadding = buffer[0] >= 0x80;
-        const paddedBuffer = needsPadding
-            ? Buffer.concat([Buffer.from([0x00]), buffer])
-            : buffer;
-
-        // Tag: 0x02 (INTEGER), Length, Value
-        const lengthBuffer = encodeLength(paddedBuffer.length);
-        return Buffer.concat([Buffer.from([0x02]), lengthBuffer, paddedBuffer]);
-    };
-
-    // ASN.1 length encoding
-    const encodeLength = (length: number): Buffer => {
-        if (length < 128) {
-            return Buffer.from([length]);
-        }
-
-        const lengthBytes: number[] = [];
-        let temp = length;
-        while (temp > 0) {
-            lengthBytes.unshift(temp & 0xff);
-            temp >>= 8;
-        }
-
-        return Buffer.concat([
-            Buffer.from([0x80 | lengthBytes.length]),
-            Buffer.from(lengthBytes)
-        ]);
-    };
-
-    // Build SEQUENCE of (modulus, exponent)
-    const modulusEncoded = encodeInteger(modulus);
-    const exponentEncoded = encodeInteger(exponent);
-    const sequenceContent = Buffer.concat([modulusEncoded, exponentEncoded]);
-
-    // Tag: 0x30 (SEQUENCE), Length, Value
-    const sequenceLength = encodeLength(sequenceContent.length);
-    const rsaPublicKey = Buffer.concat([
-        Buffer.from([0x30]),
-        sequenceLength,
-        sequenceContent
-    ]);
-
-    // Wrap in SPKI (Subject Public Key Info) structure
-    // Algorithm Identifier for RSA encryption
-    const algorithmIdentifier = Buffer.from([
-        0x30, 0x0d, // SEQUENCE of length 13
-        0x06, 0x09, // OID of length 9
-        0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01, // rsaEncryption OID
-        0x05, 0x00  // NULL
-    ]);
-
-    // BIT STRING containing the RSA public key
-    const bitStringLength = encodeLength(rsaPublicKey.length + 1);
-    const bitString = Buffer.concat([
-        Buffer.from([0x03]), // BIT STRING tag
-        bitStringLength,
-        Buffer.from([0x00]), // No unused bits
-        rsaPublicKey
-    ]);
-
-    // Final SEQUENCE (SPKI)
-    const spkiContent = Buffer.concat([algorithmIdentifier, bitString]);
-    const spkiLength = encodeLength(spkiContent.length);
-
-    return Buffer.concat([
-        Buffer.from([0x30]), // SEQUENCE tag
-        spkiLength,
-        spkiContent
-    ]);
-}
@@ -0,0 +1,170 @@
+import {request} from "@playwright/test";
+import {createHash, createPublicKey, JsonWebKey, KeyObject} from "crypto";
+import jwt from 'jsonwebtoken';
+import {IdToken, JwtToken, LogoutToken} from "../types/JwtToken";
+import {decodeIdToken, decodeJwt, decodeLogoutToken} from "./AuthorizeRequests";
+
+export interface JwksKey extends JsonWebKey {
+    kid: string
+    kty: string
+    use?: string
+    alg?: string
+}
+
+export interface JwtVerificationOptions {
+    /** Expected `aud`, usually the client_id that requested the token */
+    audience?: string
+    /** Shared secret of tenants that sign with HS256, those tenants do not publish keys */
+    secret?: string
+    /** Allowed clock skew in seconds between the server and the test runner */
+    clockTolerance?: number
+}
+
+export interface JwtVerificationResult<Token = JwtToken> {
+    /** true if the signature and all checked claims are valid */
+    valid: boolean
+    /** Decoded token, also set if the verification failed */
+    token?: Token
+    /** The key from the JWKS that verified the signature, unset for HS256 */
+    key?: JwksKey
+    /** Every check that failed, empty if the token is valid */
+    errors: string[]
+}
+
+/**
+ * Fetches the JSON Web Key Set of an issuer through the `jwks_uri` of its discovery document.
+ */
+export async function fetchJwks(issuer: string): Promise<JwksKey[]> {
+    const context = await request.newContext({ignoreHTTPSErrors: true});
+    try {
+        const configResponse = await context.get(issuer + '/.well-known/openid-configuration');
+        if (!configResponse.ok()) {
+            throw new Error(`Can not load the openid configuration of ${issuer}: ${configResponse.status()}`)
+        }
+        const config = await configResponse.json();
+
+        const jwksResponse = await context.get(config.jwks_uri);
+        if (!jwksResponse.ok()) {
+            throw new Error(`Can not load the JWKS ${config.jwks_uri}: ${jwksResponse.status()}`)
+        }
+        const jwks = await jwksResponse.json();
+        return jwks.keys ?? []
+    } finally {
+        await context.dispose()
+    }
+}
+
+/**
+ * Verifies a token issued by Uitsmijter.
+ *
+ * RS256 tokens are verified with the key of the issuer's JWKS that matches the `kid` header, HS256 tokens with the
+ * `secret` option. Checks `iss` against the issuer, `aud` against the `audience` option, `exp`, `nbf` (if set) and
+ * that `auth_time` is not in the future and not after `iat`.
+ */
+export async function verifyJwt(token: string, issuer: string, options?: JwtVerificationOptions): Promise<JwtVerificationResult> {
+    return verifyToken(token, issuer, decodeJwt, options)
+}
+
+/**
+ * Verifies an OpenID Connect ID Token issued by Uitsmijter, with the same checks as `verifyJwt`.
+ *
+ * The `nonce` and `at_hash` claims are not checked, they depend on the authorization request.
+ */
+export async function verifyIdToken(token: string, issuer: string, options?: JwtVerificationOptions): Promise<JwtVerificationResult<IdToken>> {
+    return verifyToken(token, issuer, decodeIdToken, options)
+}
+
+/**
+ * Verifies an OpenID Connect Back-Channel Logout token issued by Uitsmijter, with the same checks as `verifyJwt`
+ * but without `auth_time`, a logout token does not carry one.
+ */
+export async function verifyLogoutToken(token: string, issuer: string, options?: JwtVerificationOptions): Promise<JwtVerificationResult<LogoutToken>> {
+    return verifyToken(token, issuer, decodeLogoutToken, options, false)
+}
+
+async function verifyToken<Token extends JwtToken | IdToken | LogoutToken>(
+    token: string,
+    issuer: string,
+    decode: (token: string) => Token,
+    options?: JwtVerificationOptions,
+    hasAuthTime: boolean = true
+): Promise<JwtVerificationResult<Token>> {
+    issuer = issuer.replace(/\/+$/, '')
+    const clockTolerance = options?.clockTolerance ?? 5
+    const result: JwtVerificationResult<Token> = {valid: false, errors: []}
+
+    try {
+        result.token = decode(token)
+    } catch (error) {
+        result.errors.push(`token can not be decoded: ${error}`)
+        return result
+    }
+
+    let verificationKey: KeyObject | string
+    const header = result.token.header
+    switch (header.alg) {
+        case 'RS256': {
+            if (!header.kid) {
+                result.errors.push('RS256 token has no kid')
+                return result
+            }
+            const keys = await fetchJwks(issuer)
+            result.key = keys.find((key) => key.kid === header.kid)
+            if (!result.key) {
+                result.errors.push(`no key with kid ${header.kid} in the JWKS of ${issuer}`)
+                return result
+            }
+            verificationKey = createPublicKey({key: result.key, format: 'jwk'})
+            break
+        }
+        case 'HS256':
+            if (!options?.secret) {
+                result.errors.push('HS256 token can only be verified with a secret')
+                return result
+            }
+            verificationKey = options.secret
+            break
+        default:
+            result.errors.push(`unsupported algorithm ${header.alg}`)
+            return result
+    }
+
+    try {
+        jwt.verify(token, verificationKey, {
+            algorithms: [header.alg as jwt.Algorithm],
+            issuer: issuer,
+            audience: options?.audience,
+            clockTolerance: clockTolerance,
+        })
+    } catch (error) {
+        result.errors.push(`${error.name}: ${error.message}`)
+    }
+
+    // jsonwebtoken does not know about auth_time (OpenID Connect Core 1.0, Section 2)
+    if (hasAuthTime) {
+        const payload = result.token.payload as { auth_time?: number, iat?: number }
+        const now = Math.floor(Date.now() / 1000)
+        if (typeof payload.auth_time !== 'number') {
+            result.errors.push('auth_time is missing')
+        } else {
+            if (payload.auth_time > now + clockTolerance) {
+                result.errors.push('auth_time is in the future')
+            }
+            if (typeof payload.iat === 'number' && payload.auth_time > payload.iat + clockTolerance) {
+                result.errors.push('auth_time is after iat')
+            }
+        }
+    }
+
+    result.valid = result.errors.length === 0
+    return result
+}
+
+/**
+ * The `at_hash` of an access token: the base64url encoded left half of its SHA-256 hash (OpenID Connect Core 1.0,
+ * Section 3.1.3.6).
+ */
+export function accessTokenHash(accessToken: string): string {
+    const hash = createHash('sha256').update(accessToken, 'ascii').digest()
+    return hash.subarray(0, hash.length / 2).toString('base64url')
+}
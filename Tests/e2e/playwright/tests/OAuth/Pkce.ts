@@ -1,19 +1,42 @@
-import { createHash } from "crypto"
+import { createHash, randomInt } from "crypto"
 
+// https://datatracker.ietf.org/doc/html/rfc7636#section-4.1
+export const codeVerifierCharset = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789-._~';
+export const codeVerifierMinLength = 43;
+export const codeVerifierMaxLength = 128;
 
-export function generateCodeVerifier() {
-    const charset = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789-._~';
+export type CodeChallengeMethod = 'S256' | 'plain'
+
+/**
+ * A random code verifier of `length` unreserved characters, picked with a cryptographically secure generator.
+ *
+ * Lengths outside of 43 to 128 characters are allowed to produce invalid verifiers for negative tests.
+ */
+export function generateCodeVerifier(length: number = codeVerifierMinLength) {
     let codeVerifier = '';
-    for (let i = 0; i < 43; i++) {
-        codeVerifier += charset[Math.floor(Math.random() * charset.length)];
+    for (let i = 0; i < length; i++) {
+        codeVerifier += codeVerifierCharset[randomInt(codeVerifierCharset.length)];
     }
     return codeVerifier;
 }
 
-export function createCodeChallenge(codeVerifier) {
+/**
+ * True if the verifier has 43 to 128 characters of the unreserved charset.
+ */
+export function isValidCodeVerifier(codeVerifier: string) {
+    return codeVerifier.length >= codeVerifierMinLength
+        && codeVerifier.length <= codeVerifierMaxLength
+        && [...codeVerifier].every((char) => codeVerifierCharset.includes(char));
+}
+
+export function createCodeChallenge(codeVerifier: string, method: CodeChallengeMethod = 'S256') {
+    if (method === 'plain') {
+        return codeVerifier;
+    }
+
     // Perform SHA-256 hash of codeVerifier
     const hash = createHash('sha256');
-    hash.update(codeVerifier);
+    hash.update(codeVerifier, 'ascii');
     const codeChallenge = hash.digest('base64');
 
     // Base64-url encode the code challenge
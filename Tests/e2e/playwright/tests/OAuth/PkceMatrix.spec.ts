@@ -0,0 +1,219 @@
+import {test, expect} from '@playwright/test';
+import {UitsmijterClient, AuthorizeParameters} from "./UitsmijterClient";
+import {
+    CodeChallengeMethod,
+    codeVerifierMaxLength,
+    codeVerifierMinLength,
+    createCodeChallenge,
+    generateCodeVerifier,
+    isValidCodeVerifier
+} from './Pkce';
+
+// https://datatracker.ietf.org/doc/html/rfc7636
+// ------------------------------------------------------
+// 143A3135-5DE2-46D4-828F-DDCF20C72060 = cheese-api-insecure (public, PKCE optional)
+// b88d44ed-4e8f-4f50-817b-58b86297ccab = cheese-api-pkce (public, isPkceOnly)
+const issuer = 'https://id.example.com'
+const redirectUri = 'https://api.example.com/'
+const username = 'pkce-matrix@example.com'
+
+/**
+ * Logs in with a fresh client and returns the code of an authorization request with the given PKCE parameters.
+ */
+async function authorizationCode(clientId: string, pkce: Pick<AuthorizeParameters, 'code_challenge' | 'code_challenge_method'>) {
+    const client = new UitsmijterClient({issuer, clientId})
+    const result = await client.login(username, 'secretPassword', {
+        redirect_uri: redirectUri,
+        scope: 'access',
+        state: 'pkce',
+        ...pkce,
+    })
+    return {client, result}
+}
+
+test.describe('OAuth PKCE matrix', () => {
+
+    test.describe('verifier generator', () => {
+        test('should create verifiers of the requested length', () => {
+            for (const length of [codeVerifierMinLength, 64, codeVerifierMaxLength]) {
+                const verifier = generateCodeVerifier(length)
+                expect(verifier).toHaveLength(length)
+                expect(isValidCodeVerifier(verifier)).toBe(true)
+            }
+        });
+
+        test('should create unique verifiers', () => {
+            const verifiers = new Set(Array.from({length: 100}, () => generateCodeVerifier()))
+            expect(verifiers.size).toBe(100)
+        });
+
+        test('should detect invalid verifiers', () => {
+            expect(isValidCodeVerifier(generateCodeVerifier(codeVerifierMinLength - 1))).toBe(false)
+            expect(isValidCodeVerifier(generateCodeVerifier(codeVerifierMaxLength + 1))).toBe(false)
+            expect(isValidCodeVerifier(generateCodeVerifier(42) + '+')).toBe(false)
+        });
+
+        test('should create the S256 challenge of RFC 7636 appendix B', () => {
+            expect(createCodeChallenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk'))
+                .toBe('E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM')
+            expect(createCodeChallenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk', 'plain'))
+                .toBe('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk')
+        });
+    });
+
+    const methods: CodeChallengeMethod[] = ['S256', 'plain']
+
+    for (const method of methods) {
+        test.describe(`code_challenge_method ${method}`, () => {
+            const clientId = '143A3135-5DE2-46D4-828F-DDCF20C72060'
+
+            async function exchange(verifier: string, tokenVerifier: string | undefined = verifier, tokenMethod?: string) {
+                const {client, result} = await authorizationCode(clientId, {
+                    code_challenge: createCodeChallenge(verifier, method),
+                    code_challenge_method: method,
+                })
+                expect(result.code, 'code of the authorization request').toBeDefined()
+
+                const response = await client.token({
+                    grant_type: 'authorization_code',
+                    code: result.code,
+                    scope: 'access',
+                    ...(tokenVerifier !== undefined ? {code_verifier: tokenVerifier} : {}),
+                    ...(tokenMethod !== undefined ? {code_challenge_method: tokenMethod} : {}),
+                })
+                await client.dispose()
+                return response
+            }
+
+            test(`should accept a verifier of ${codeVerifierMinLength} characters`, async () => {
+                const response = await exchange(generateCodeVerifier(codeVerifierMinLength))
+                expect(response.status).toBe(200)
+                expect(response.data.access_token).toBeDefined()
+            });
+
+            test(`should accept a verifier of ${codeVerifierMaxLength} characters`, async () => {
+                const response = await exchange(generateCodeVerifier(codeVerifierMaxLength))
+                expect(response.status).toBe(200)
+                expect(response.data.access_token).toBeDefined()
+            });
+
+            test(`should reject a verifier of ${codeVerifierMinLength - 1} characters`, async () => {
+                const response = await exchange(generateCodeVerifier(codeVerifierMinLength - 1))
+                expect(response.status).toBe(400)
+                expect(response.error?.reason).toBe('ERRORS.INVALID_CODE_VERIFIER')
+            });
+
+            test(`should reject a verifier of ${codeVerifierMaxLength + 1} characters`, async () => {
+                const response = await exchange(generateCodeVerifier(codeVerifierMaxLength + 1))
+                expect(response.status).toBe(400)
+                expect(response.error?.reason).toBe('ERRORS.INVALID_CODE_VERIFIER')
+            });
+
+            test('should reject a verifier with characters outside of the unreserved charset', async () => {
+                const response = await exchange(generateCodeVerifier(40) + '+/=')
+                expect(response.status).toBe(400)
+                expect(response.error?.reason).toBe('ERRORS.INVALID_CODE_VERIFIER')
+            });
+
+            test('should reject a mismatched verifier', async () => {
+                const response = await exchange(generateCodeVerifier(), generateCodeVerifier())
+                expect(response.status).toBe(403)
+                expect(response.error?.reason).toBe('ERRORS.CODE_CHALLENGE_METHOD_MISMATCH')
+            });
+
+            test('should reject a missing verifier', async () => {
+                const response = await exchange(generateCodeVerifier(), undefined)
+                expect(response.status).toBe(403)
+                expect(response.error?.reason).toBe('ERRORS.CODE_CHALLENGE_METHOD_MISMATCH')
+            });
+
+            test('should reject a different method in the token request', async () => {
+                const verifier = generateCodeVerifier()
+                const response = await exchange(verifier, verifier, method === 'S256' ? 'plain' : 'S256')
+                expect(response.status).toBe(403)
+                expect(response.error?.reason).toBe('ERRORS.CODE_CHALLENGE_METHOD_MISMATCH')
+            });
+        });
+    }
+
+    test.describe('code_challenge_method missing', () => {
+        const clientId = '143A3135-5DE2-46D4-828F-DDCF20C72060'
+
+        test('should issue tokens without a challenge', async () => {
+            const {client, result} = await authorizationCode(clientId, {})
+            expect(result.code).toBeDefined()
+
+            const response = await client.exchangeCode(result.code, {scope: 'access'})
+            expect(response.status).toBe(200)
+            await client.dispose()
+        });
+
+        test('should treat a challenge without a method as plain', async () => {
+            const verifier = generateCodeVerifier()
+            const {client, result} = await authorizationCode(clientId, {code_challenge: verifier})
+            try {
+                expect(result.code).toBeDefined()
+
+                // Without the verifier the code must not be exchanged
+                const response = await client.exchangeCode(result.code, {scope: 'access'})
+                expect(response.status).toBe(403)
+                expect(response.error?.reason).toBe('ERRORS.CODE_CHALLENGE_METHOD_MISMATCH')
+            } finally {
+                await client.dispose()
+            }
+        });
+
+        test('should exchange a challenge without a method with the plain verifier', async () => {
+            const verifier = generateCodeVerifier()
+            const {client, result} = await authorizationCode(clientId, {code_challenge: verifier})
+            try {
+                expect(result.code).toBeDefined()
+
+                const response = await client.exchangeCode(result.code, {scope: 'access', code_verifier: verifier})
+                expect(response.status).toBe(200)
+            } finally {
+                await client.dispose()
+            }
+        });
+
+        test('should reject an unknown method', async () => {
+            const client = new UitsmijterClient({issuer, clientId})
+            const context = await client.requestContext()
+            const response = await context.get('/authorize?' + client.authorizeQuery({
+                redirect_uri: redirectUri,
+                scope: 'access',
+                state: 'pkce',
+                code_challenge: generateCodeVerifier(),
+            }) + '&code_challenge_method=S512')
+
+            expect(response.status()).toBe(501)
+            expect(await response.text()).toContain('CODE_CHALLENGE_METHOD_NOT_IMPLEMENTED')
+            await client.dispose()
+        });
+    });
+
+    test.describe('PKCE only client', () => {
+        const clientId = 'b88d44ed-4e8f-4f50-817b-58b86297ccab'
+
+        test('should be forced into PKCE', async () => {
+            const {client, result} = await authorizationCode(clientId, {})
+
+            expect(result.code).toBeUndefined()
+            expect(await result.response.text()).toContain('CLIENT_ONLY_SUPPORTS_PKCE')
+            await client.dispose()
+        });
+
+        for (const method of methods) {
+            test(`should issue a code for ${method}`, async () => {
+                const {client, result} = await authorizationCode(clientId, {
+                    code_challenge: createCodeChallenge(generateCodeVerifier(), method),
+                    code_challenge_method: method,
+                })
+
+                expect(result.state).toBe('pkce')
+                expect(result.code).toBeDefined()
+                await client.dispose()
+            });
+        }
+    });
+})
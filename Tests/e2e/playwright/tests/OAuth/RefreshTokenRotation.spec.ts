@@ -0,0 +1,138 @@
+import {test, expect} from '@playwright/test';
+import {UitsmijterClient} from "./UitsmijterClient";
+import {decodeJwt} from "./AuthorizeRequests";
+import {verifyJwt} from "./JwtVerification";
+import {TokenResponseData} from "../types/TokenResponseData";
+
+// https://datatracker.ietf.org/doc/html/rfc6749#section-6
+// https://datatracker.ietf.org/doc/html/draft-ietf-oauth-security-topics#section-4.14.2
+// ------------------------------------------------------
+// 143A3135-5DE2-46D4-828F-DDCF20C72060 = cheese-api-insecure (public)
+//
+// Refresh tokens are single use: every refresh removes the session of the used token from the AuthCodeStorage and
+// stores a new one. The cluster runs with Redis, the local test stack keeps the sessions in memory unless REDIS_HOST
+// is set (`yarn start:local:redis`), so running both covers both storage implementations.
+const storage = process.env.UITSMIJTER_E2E_LOCAL === 'true' && process.env.REDIS_HOST === undefined
+    ? 'memory'
+    : 'redis'
+
+const refreshCount = 5
+
+test.describe(`Refresh token rotation (${storage} storage)`, () => {
+    // All tests in this describe must be executed in series
+    test.describe.configure({mode: 'serial'});
+
+    const client = new UitsmijterClient({
+        issuer: 'https://id.example.com',
+        clientId: '143A3135-5DE2-46D4-828F-DDCF20C72060',
+    })
+
+    // Token pairs of the chain, the first one from the password grant
+    const chain: TokenResponseData[] = []
+
+    test.beforeEach(async () => {
+        test.info().annotations.push({type: 'storage', description: storage})
+    });
+
+    test.afterAll(async () => {
+        await client.dispose()
+    });
+
+    test('should issue a refresh token with the password grant', async () => {
+        const result = await client.token({
+            grant_type: 'password',
+            username: 'refresh-rotation@example.com',
+            password: 'secretPassword',
+            scope: 'access',
+        })
+
+        expect(result.status).toBe(200)
+        expect(result.data.refresh_token).toBeDefined()
+        chain.push(result.data)
+    });
+
+    test(`should rotate the refresh token ${refreshCount} times`, async () => {
+        for (let i = 0; i < refreshCount; i++) {
+            const previous = chain[chain.length - 1]
+            const result = await client.refresh(previous.refresh_token)
+
+            expect(result.status, `refresh ${i + 1}`).toBe(200)
+            expect(result.data.refresh_token).toBeDefined()
+            chain.push(result.data)
+        }
+        expect(chain).toHaveLength(refreshCount + 1)
+    });
+
+    test('should issue a new token pair on every refresh', async () => {
+        const refreshTokens = chain.map((tokens) => tokens.refresh_token)
+        const accessTokens = chain.map((tokens) => tokens.access_token)
+
+        expect(new Set(refreshTokens).size).toBe(chain.length)
+        expect(new Set(accessTokens).size).toBe(chain.length)
+    });
+
+    test('should keep the user and scopes along the chain', async () => {
+        const first = decodeJwt(chain[0].access_token).payload
+
+        for (const tokens of chain.slice(1)) {
+            const payload = decodeJwt(tokens.access_token).payload
+            expect(payload.sub).toBe(first.sub)
+            expect(payload.user).toBe(first.user)
+            expect(payload.tenant).toBe(first.tenant)
+            expect(payload.scope).toBe(first.scope)
+            expect(tokens.scope).toBe(chain[0].scope)
+
+            const verified = await verifyJwt(tokens.access_token, 'https://id.example.com', {
+                audience: '143A3135-5DE2-46D4-828F-DDCF20C72060',
+                secret: 'forTestingPurposesOnly',
+            })
+            expect(verified.errors).toEqual([])
+        }
+    });
+
+    test('should reject every replaced refresh token', async () => {
+        for (const [index, tokens] of chain.slice(0, -1).entries()) {
+            const result = await client.refresh(tokens.refresh_token)
+
+            expect(result.status, `replay of refresh token ${index}`).toBe(403)
+            expect(result.error?.reason).toBe('ERRORS.INVALID_TOKEN')
+            expect(result.data).toBeUndefined()
+        }
+    });
+
+    test('should still refresh with the latest refresh token', async () => {
+        const latest = chain[chain.length - 1]
+        const result = await client.refresh(latest.refresh_token)
+
+        expect(result.status).toBe(200)
+        chain.push(result.data)
+    });
+
+    test('should reject the refresh token that was used last', async () => {
+        const used = chain[chain.length - 2]
+        const result = await client.refresh(used.refresh_token)
+
+        expect(result.status).toBe(403)
+        expect(result.error?.reason).toBe('ERRORS.INVALID_TOKEN')
+    });
+
+    test('should rotate independent chains separately', async () => {
+        const other = await client.token({
+            grant_type: 'password',
+            username: 'refresh-rotation-other@example.com',
+            password: 'secretPassword',
+            scope: 'access',
+        })
+        expect(other.status).toBe(200)
+
+        const refreshed = await client.refresh(other.data.refresh_token)
+        expect(refreshed.status).toBe(200)
+        expect(decodeJwt(refreshed.data.access_token).payload.user).toBe('refresh-rotation-other@example.com')
+
+        // The other chain does not touch this one
+        const replay = await client.refresh(other.data.refresh_token)
+        expect(replay.status).toBe(403)
+        const latest = await client.refresh(chain[chain.length - 1].refresh_token)
+        expect(latest.status).toBe(200)
+    });
+});
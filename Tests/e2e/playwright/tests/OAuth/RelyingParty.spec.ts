@@ -0,0 +1,84 @@
+import {test, expect, RelyingParty, relyingPartyClient} from '../Fixtures/relyingParty';
+import {Application} from '../Fixtures/app';
+import {verifyJwt} from './JwtVerification';
+
+const username = 'relying-party@example.com'
+
+test.describe('OAuth relying party', () => {
+
+    test.beforeEach(async ({page, relyingParty}) => {
+        const app = new Application(page)
+        test.setTimeout(app.timeout);
+
+        await app.goto(relyingParty.url + '/protected')
+        await expect(page).toHaveURL(/^https:\/\/id\.example\.com\/authorize/)
+        await app.auth.login(username, 'secretPassword')
+    });
+
+    test('should receive the code and state of its own request', async ({page, relyingParty}) => {
+        await expect(page).toHaveURL(relyingParty.url + '/protected')
+        await expect(page).toHaveTitle('Protected')
+
+        const callback = relyingParty.lastCallback
+        expect(relyingParty.callbacks).toHaveLength(1)
+        expect(callback.query.state).toBe(relyingParty.authorizations[0].state)
+        expect(callback.query.code).toBeDefined()
+        expect(callback.authorization).toBe(relyingParty.authorizations[0])
+    });
+
+    test('should exchange the code with the verifier of its request', async ({page, relyingParty}) => {
+        const token = relyingParty.lastCallback.token
+        expect(token?.status).toBe(200)
+        expect(token?.data?.refresh_token).toBeDefined()
+
+        const verified = await verifyJwt(token.data.access_token, relyingPartyClient.issuer, {
+            audience: relyingPartyClient.clientId,
+            secret: 'forTestingPurposesOnly',
+        })
+        expect(verified.errors).toEqual([])
+
+        const payload = verified.token.payload
+        expect(payload.user).toBe(username)
+        expect(payload.tenant).toBe('cheese/cheese')
+        expect(payload.scope).toBe('access')
+        await expect(page.locator('#user')).toHaveText(username)
+    });
+
+    test('should login silently into a second application', async ({page}) => {
+        const app = new Application(page)
+        const second = await new RelyingParty(relyingPartyClient).start()
+        try {
+            await app.goto(second.url + '/protected')
+            await expect(page).toHaveURL(second.url + '/protected')
+            await expect(page.locator('#user')).toHaveText(username)
+            expect(second.lastCallback.token?.status).toBe(200)
+        } finally {
+            await second.stop()
+        }
+    });
+
+    test('should logout at the issuer', async ({page, relyingParty}) => {
+        const app = new Application(page)
+        await page.click('button#logout')
+        await page.waitForURL(relyingParty.url + '/?state=' + relyingParty.endSessions[0].state, {timeout: 10 * 1000})
+        await app.waitForPage()
+
+        expect(relyingParty.logouts).toHaveLength(1)
+        await expect(page.locator('#login')).toBeVisible()
+        const cookies = await page.context().cookies();
+        expect(cookies.map(cookie => cookie.name)).not.toContain("uitsmijter-sso");
+
+        // A new login needs the credentials again
+        await app.goto(relyingParty.url + '/protected')
+        await expect(page).toHaveURL(/^https:\/\/id\.example\.com\/authorize/)
+    });
+
+    test('should not exchange a code of a foreign request', async ({page, relyingParty}) => {
+        const code = relyingParty.lastCallback.query.code
+        const response = await page.goto(relyingParty.url + '/callback?' + new URLSearchParams({state: 'forged', code}))
+
+        expect(response?.status()).toBe(400)
+        expect(relyingParty.lastCallback.authorization).toBeUndefined()
+        expect(relyingParty.lastCallback.token).toBeUndefined()
+    });
+});
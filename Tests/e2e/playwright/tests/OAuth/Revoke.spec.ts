@@ -0,0 +1,206 @@
+import {test, expect, Page} from '@playwright/test';
+import {Application} from "../Fixtures/app";
+import {revokeToken} from "./AuthorizeRequests";
+import {UitsmijterClient} from "./UitsmijterClient";
+import {TokenResponseData} from "../types/TokenResponseData";
+
+const authUrl = 'https://id.example.com';
+
+// https://datatracker.ietf.org/doc/html/rfc7009
+// ------------------------------------------------------
+// 143A3135-5DE2-46D4-828F-DDCF20C72060 = cheese-api-insecure (public)
+// d9c48a1b-46bd-49d8-9305-08b8e380a69e = cheese-api (confidential)
+// e92b4a0b-d1d7-4d55-b2e3-dc570faca745 = cheese-website (confidential)
+const publicClientId = '143A3135-5DE2-46D4-828F-DDCF20C72060';
+const confidentialClientId = 'd9c48a1b-46bd-49d8-9305-08b8e380a69e';
+const otherClientId = 'e92b4a0b-d1d7-4d55-b2e3-dc570faca745';
+// use only test secrets: https://docs.uitsmijter.io/contribution/guidelines/#using-test-secrets-for-development
+const clientSecret = 'luaTha1qu019ohc13qu3ze1yuo5MumEl0hQuoE9bon';
+
+async function getTokenPair(page: Page): Promise<TokenResponseData> {
+    const myState = '' + Math.floor(Math.random() * 999999999);
+    const client = new UitsmijterClient({issuer: authUrl, clientId: publicClientId, context: page.request})
+    const login = await client.login('cee8Esh5@example.com', 'secretPassword', {
+        redirect_uri: 'https://api.example.com/',
+        scope: 'access',
+        state: myState,
+    });
+    expect(login.code).toBeDefined()
+
+    const result = await client.exchangeCode(login.code, {scope: 'access'});
+    expect(result.status).toBe(200)
+    return result.data
+}
+
+test.describe('OAuth token revocation', () => {
+
+    const client = new UitsmijterClient({issuer: authUrl, clientId: publicClientId})
+
+    test.afterAll(async () => {
+        await client.dispose()
+    });
+
+    test.beforeEach(async ({page}) => {
+        const app = new Application(page)
+        test.setTimeout(app.timeout)
+    });
+
+    test.describe('refresh token', () => {
+        // All tests in this describe must be executed in series
+        test.describe.configure({mode: 'serial'});
+
+        let tokens: TokenResponseData = null
+
+        test('should be revoked', async ({page}) => {
+            tokens = await getTokenPair(page)
+
+            const response = await revokeToken(authUrl, {
+                token: tokens.refresh_token,
+                token_type_hint: 'refresh_token',
+                client_id: publicClientId,
+            })
+            expect(response.status()).toBe(200)
+        });
+
+        test('should not be exchanged after revocation', async () => {
+            const result = await client.refresh(tokens.refresh_token, tokens.access_token);
+
+            expect(result.status).toBe(403)
+            expect(result.error.reason).toBe('ERRORS.INVALID_TOKEN')
+        });
+
+        test('should respond with ok when revoked a second time', async () => {
+            const response = await revokeToken(authUrl, {
+                token: tokens.refresh_token,
+                token_type_hint: 'refresh_token',
+                client_id: publicClientId,
+            })
+            expect(response.status()).toBe(200)
+        });
+    });
+
+    test.describe('refresh token without a hint', () => {
+        // All tests in this describe must be executed in series
+        test.describe.configure({mode: 'serial'});
+
+        let tokens: TokenResponseData = null
+
+        test('should be revoked', async ({page}) => {
+            tokens = await getTokenPair(page)
+
+            const response = await revokeToken(authUrl, {
+                token: tokens.refresh_token,
+                client_id: publicClientId,
+            })
+            expect(response.status()).toBe(200)
+        });
+
+        test('should not be exchanged after revocation', async () => {
+            const result = await client.refresh(tokens.refresh_token);
+
+            expect(result.status).toBe(403)
+        });
+    });
+
+    test.describe('access token', () => {
+        // All tests in this describe must be executed in series
+        test.describe.configure({mode: 'serial'});
+
+        let tokens: TokenResponseData = null
+
+        test('should be accepted by token info before revocation', async ({page}) => {
+            tokens = await getTokenPair(page)
+
+            const tokenInfo = await client.userInfo(tokens.access_token)
+            expect(tokenInfo.status).toBe(200)
+        });
+
+        test('should be revoked', async () => {
+            const response = await revokeToken(authUrl, {
+                token: tokens.access_token,
+                token_type_hint: 'access_token',
+                client_id: publicClientId,
+            })
+            expect(response.status()).toBe(200)
+        });
+
+        test('should be rejected by token info after revocation', async () => {
+            const tokenInfo = await client.userInfo(tokens.access_token)
+            expect(tokenInfo.status).toBe(401)
+        });
+    });
+
+    test.describe('unknown tokens', () => {
+
+        test('should respond with ok for an unknown token', async () => {
+            const response = await revokeToken(authUrl, {
+                token: 'unknown-' + Math.floor(Math.random() * 999999999),
+                client_id: publicClientId,
+            })
+            expect(response.status()).toBe(200)
+        });
+
+        test('should respond with ok for an unknown token with a hint', async () => {
+            const response = await revokeToken(authUrl, {
+                token: 'unknown-' + Math.floor(Math.random() * 999999999),
+                token_type_hint: 'access_token',
+                client_id: publicClientId,
+            })
+            expect(response.status()).toBe(200)
+        });
+
+        test('should respond with ok for a token that belongs to another client', async ({page}) => {
+            const tokens = await getTokenPair(page)
+
+            const response = await revokeToken(authUrl, {
+                token: tokens.refresh_token,
+                token_type_hint: 'refresh_token',
+                client_id: otherClientId,
+                client_secret: clientSecret,
+            })
+            expect(response.status()).toBe(200)
+
+            // The token is not revoked
+            const result = await client.refresh(tokens.refresh_token);
+            expect(result.status).toBe(200)
+        });
+    });
+
+    test.describe('client authentication', () => {
+
+        test('should be unauthorized for an unknown client', async () => {
+            const response = await revokeToken(authUrl, {
+                token: 'any-token',
+                client_id: '596de0f2-6b47-4c0e-9460-f7402f4a136d',
+            })
+            expect(response.status()).toBe(401)
+        });
+
+        test('should be unauthorized for a confidential client with a wrong secret', async () => {
+            const response = await revokeToken(authUrl, {
+                token: 'any-token',
+                client_id: confidentialClientId,
+                client_secret: 'wrong-secret',
+            })
+            expect(response.status()).toBe(401)
+        });
+
+        test('should be unauthorized for a public client that sends a secret', async () => {
+            const response = await revokeToken(authUrl, {
+                token: 'any-token',
+                client_id: publicClientId,
+                client_secret: clientSecret,
+            })
+            expect(response.status()).toBe(401)
+        });
+
+        test('should respond with ok for a confidential client with the right secret', async () => {
+            const response = await revokeToken(authUrl, {
+                token: 'any-token',
+                client_id: confidentialClientId,
+                client_secret: clientSecret,
+            })
+            expect(response.status()).toBe(200)
+        });
+    });
+})
@@ -1,10 +1,7 @@
 import {test, expect} from '@playwright/test';
 import {Application} from "../Fixtures/app";
-import {
-    decodeJwt,
-    getTokenForAuthorisationCode,
-    loginAuthorizeFormRequest
-} from "./AuthorizeRequests";
+import {decodeJwt} from "./AuthorizeRequests";
+import {UitsmijterClient} from "./UitsmijterClient";
 import {request} from "@playwright/test";
 import jwt from 'jsonwebtoken';
 
@@ -28,41 +25,30 @@ test.describe('RS256 Scope Enrichment with JWKS Verification', () => {
     test.describe('Scope Enrichment Flow', () => {
         test.describe.configure({mode: 'serial'});
 
-        const myState = Math.floor(Math.random() * 999999999);
-        let code: string = null;
+        const myState = '' + Math.floor(Math.random() * 999999999);
         let accessToken: string = null;
 
         test('should complete OAuth flow with scope enrichment', async ({page}) => {
+            const client = new UitsmijterClient({
+                issuer: 'https://id-rs256.example.com',
+                clientId: '9F8E7D6C-5B4A-3210-FEDC-BA9876543210',
+                context: page.request,
+            })
+
             // 1. Login and get authorization code with "access" scope
-            const response = await loginAuthorizeFormRequest(
-                page,
-                'https://id-rs256.example.com',
-                {
-                    client_id: "9F8E7D6C-5B4A-3210-FEDC-BA9876543210",
-                    redirect_uri: "https://api-rs256.example.com/",
-                    response_type: "code",
-                    scope: "access",  // Client requests "access" scope
-                    state: "" + myState,
-                    username: "testuser@example.com"
-                }
-            );
+            const login = await client.login('testuser@example.com', 'secretPassword', {
+                redirect_uri: 'https://api-rs256.example.com/',
+                scope: 'access',  // Client requests "access" scope
+                state: myState,
+            });
 
-            expect(response.url()).toContain("state=" + myState);
-            expect(response.url()).toContain("code=");
-            code = response.url().match(/code=(.+)&/)[1];
+            expect(login.state).toBe(myState);
+            expect(login.code).toBeDefined();
 
             // 2. Exchange authorization code for access token
-            const tokenResponse = await getTokenForAuthorisationCode(
-                'https://id-rs256.example.com',
-                {
-                    "grant_type": "authorization_code",
-                    "client_id": "9F8E7D6C-5B4A-3210-FEDC-BA9876543210",
-                    "scope": "access",
-                    "code": "" + code
-                }
-            );
+            const result = await client.exchangeCode(login.code, {scope: 'access'});
 
-            const jsonResponse = await tokenResponse.json();
+            const jsonResponse = result.data;
             accessToken = jsonResponse.access_token;
 
             // 3. Verify TokenResponse contains both scopes
@@ -1,9 +1,9 @@
 import {test, expect, Cookie} from '@playwright/test'
 import {Application} from "../Fixtures/app"
-import {
-    authorizeApiRequestOnPage,
-    loginAuthorizeFormRequest
-} from "./AuthorizeRequests"
+import {UitsmijterClient} from "./UitsmijterClient"
+
+const issuer = 'https://id.example.com'
+const clientId = 'cd7a444a-7aa9-4f27-9305-9e2a9c4d47ee'
 
 test.describe('OAuth flow - Silent login disabled', () => {
     let app: Application
@@ -33,26 +33,21 @@ test.describe('OAuth flow - Silent login disabled', () => {
         })
 
         // Flow context
-        const myState = Math.floor(Math.random() * 999999999)
+        const myState = '' + Math.floor(Math.random() * 999999999)
         let code: string = null
 
         // General Auth 2 Flow - Step 1 - 2
         test('should respond with a login page to the request for an authorization code', async ({page}) => {
-            const response = await authorizeApiRequestOnPage(
-                page,
-                'https://id.example.com',
-                {
-                    response_type: 'code',
-                    client_id: 'cd7a444a-7aa9-4f27-9305-9e2a9c4d47ee',
-                    client_secret: null,
-                    redirect_uri: 'https://api1.ham.test/',
-                    scope: '',
-                    state: '' + myState
-                }
-            )
+            const client = new UitsmijterClient({issuer, clientId, context: page.request})
+            const result = await client.authorize({
+                redirect_uri: 'https://api1.ham.test/',
+                scope: '',
+                state: myState
+            })
+            const response = result.response
 
             await expect(response.headers()['server']).toContain('Uitsmijter')
-            await expect(response.status()).toBe(401)
+            await expect(result.status).toBe(401)
 
             const content = await response.text()
             await expect(content).toContain('form action="/login"')
@@ -60,45 +55,32 @@ test.describe('OAuth flow - Silent login disabled', () => {
 
         // General Auth 2 Flow - Step 3 - 5
         test('should respond after login with a code for authorization', async ({page}) => {
-            const response = await loginAuthorizeFormRequest(
-                page,
-                'https://id.example.com',
-                {
-                    client_id: "cd7a444a-7aa9-4f27-9305-9e2a9c4d47ee",
-                    redirect_uri: "https://api1.ham.test/",
-                    client_secret: null,
-                    response_type: "code",
-                    scope: "access",
-                    state: "" + myState,
-                    username: "cee8Esh5@example.com"
-                }
-            )
-
-            expect(response.url()).toMatch(/^https:\/\/api1\.ham\.test/)
-            expect(response.url()).toContain("state=" + myState)
-            expect(response.url()).toContain("code=")
-            code = response.url().match(/code=(.+)&/)[1]
-            expect(code.length).toBeGreaterThan(0)
+            const client = new UitsmijterClient({issuer, clientId, context: page.request})
+            const result = await client.login('cee8Esh5@example.com', 'secretPassword', {
+                redirect_uri: 'https://api1.ham.test/',
+                scope: 'access',
+                state: myState
+            })
+
+            expect(result.response.url()).toMatch(/^https:\/\/api1\.ham\.test/)
+            expect(result.state).toBe(myState)
+            expect(result.code.length).toBeGreaterThan(0)
+            code = result.code
         })
 
         // General Auth 2 Flow - Step 1 - 2 - no silent redirect
         test('should respond without a redirect back to the login page', async ({page}) => {
-            const response = await authorizeApiRequestOnPage(
-                page,
-                'https://id.example.com',
-                {
-                    response_type: 'code',
-                    client_id: 'cd7a444a-7aa9-4f27-9305-9e2a9c4d47ee',
-                    client_secret: null,
-                    redirect_uri: 'https://api2.ham.test/',
-                    scope: '',
-                    state: '' + myState
-                }
-            )
+            const client = new UitsmijterClient({issuer, clientId, context: page.request})
+            const result = await client.authorize({
+                redirect_uri: 'https://api2.ham.test/',
+                scope: '',
+                state: myState
+            })
+            const response = result.response
 
             // Show login page as no auto login should happen
             await expect(response.headers()['server']).toContain('Uitsmijter')
-            await expect(response.status()).toBe(401)
+            await expect(result.status).toBe(401)
 
             const content = await response.text()
             await expect(content).toContain('form action="/login"')
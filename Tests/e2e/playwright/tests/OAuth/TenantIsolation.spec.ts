@@ -0,0 +1,168 @@
+import {test, expect, TenantFixture, ClientFixture} from '../Fixtures/entities';
+import {UitsmijterClient} from "./UitsmijterClient";
+import {decodeJwt} from "./AuthorizeRequests";
+
+// Requests of one tenant that are replayed at another tenant. Every attempt has to be rejected.
+//
+// The Egg tenant serves its pages through the interceptor only, none of its hosts reaches the OAuth endpoints.
+// Generated tenants stand in for Cheese and Egg, see `Tests/e2e/readme.md#tenant-and-client-fixtures`.
+// Cheese and Pepper share the cookie domain `.example.com` of `COOKIE_DOMAINS` and the JWT secret.
+
+const password = 'secretPassword'
+
+const cheese = {issuer: 'https://id.example.com', clientId: '143A3135-5DE2-46D4-828F-DDCF20C72060'}
+const pepper = {issuer: 'https://pepper.example.com', clientId: '16FB010F-F2BC-4AEE-88FC-27D52BD82F1A'}
+
+test.describe('Tenant isolation', () => {
+    test.use({
+        clientConfig: {
+            grant_types: ['authorization_code', 'refresh_token', 'password'],
+        },
+    })
+
+    let egg: TenantFixture
+    let eggClient: ClientFixture
+
+    // The tenant of the fixture is the home of the `client`, `egg` is the tenant under attack
+    test.beforeEach(async ({entities}) => {
+        egg = await entities.tenant()
+        eggClient = await entities.client(egg, {grant_types: ['authorization_code', 'refresh_token', 'password']})
+    });
+
+    test.describe('a client on the host of another tenant', () => {
+        test('should not render a login for the client', async ({tenant, client}) => {
+            const oauth = new UitsmijterClient({issuer: egg.issuer, clientId: client.ident})
+
+            const result = await oauth.authorize({redirect_uri: `${tenant.issuer}/callback`})
+            expect(result.status).toBe(403)
+            expect(result.code).toBeUndefined()
+            await oauth.dispose()
+        });
+
+        test('should not issue tokens for the client', async ({tenant, client}) => {
+            const home = new UitsmijterClient({issuer: tenant.issuer, clientId: client.ident})
+            const abroad = new UitsmijterClient({issuer: egg.issuer, clientId: client.ident})
+            const grant = {
+                grant_type: 'password' as const,
+                username: 'isolation@example.com',
+                password,
+                scope: 'access',
+            }
+
+            expect((await home.token(grant)).status).toBe(200)
+
+            const result = await abroad.token(grant)
+            expect(result.status).toBe(403)
+            expect(result.error?.reason).toBe('ERRORS.TENANT_MISMATCH')
+            await home.dispose()
+            await abroad.dispose()
+        });
+
+        // Like the clients `cheese-website` and `egg`, that share an ident
+        test('should serve the client of the host tenant for a shared client id', async ({tenant, client, entities}) => {
+            const twin = await entities.client(egg, {ident: client.ident, grant_types: ['password']})
+            const oauth = new UitsmijterClient({issuer: egg.issuer, clientId: twin.ident})
+            const grant = {grant_type: 'password' as const, username: 'twin@example.com', password}
+
+            // The ident is known before the twin is loaded, the client of the fixture tenant answers until then
+            await expect.poll(async () => (await oauth.token(grant)).status).toBe(200)
+
+            const result = await oauth.token(grant)
+            expect(decodeJwt(result.data.access_token).payload.tenant).toBe(egg.name)
+            expect(decodeJwt(result.data.access_token).payload.tenant).not.toBe(tenant.name)
+            await oauth.dispose()
+        });
+    });
+
+    test.describe('an authorization code of another tenant', () => {
+        let code: string
+
+        test.beforeEach(async ({tenant, client}) => {
+            const oauth = new UitsmijterClient({issuer: tenant.issuer, clientId: client.ident})
+            const login = await oauth.login('isolation@example.com', password, {
+                redirect_uri: `${tenant.issuer}/callback`,
+                scope: 'access',
+            })
+            expect(login.code).toBeDefined()
+            code = login.code
+            await oauth.dispose()
+        });
+
+        test('should not be exchanged by a client of the other tenant', async () => {
+            const oauth = new UitsmijterClient({issuer: egg.issuer, clientId: eggClient.ident})
+
+            const result = await oauth.exchangeCode(code)
+            expect(result.status).toBe(403)
+            expect(result.error?.reason).toBe('ERRORS.TENANT_MISMATCH')
+            await oauth.dispose()
+        });
+
+        test('should not be exchanged on the host of the other tenant', async ({client}) => {
+            const oauth = new UitsmijterClient({issuer: egg.issuer, clientId: client.ident})
+
+            const result = await oauth.exchangeCode(code)
+            expect(result.status).toBe(403)
+            expect(result.error?.reason).toBe('ERRORS.TENANT_MISMATCH')
+            await oauth.dispose()
+        });
+    });
+
+    test.describe('a refresh token of another tenant', () => {
+        test('should not be refreshed by a client of the other tenant', async ({tenant, client}) => {
+            const home = new UitsmijterClient({issuer: tenant.issuer, clientId: client.ident})
+            const tokens = await home.token({grant_type: 'password', username: 'isolation@example.com', password})
+            expect(tokens.data?.refresh_token).toBeDefined()
+
+            const abroad = new UitsmijterClient({issuer: egg.issuer, clientId: eggClient.ident})
+            const result = await abroad.refresh(tokens.data.refresh_token)
+            expect(result.status).toBe(403)
+            expect(result.error?.reason).toBe('ERRORS.TENANT_MISMATCH')
+            await home.dispose()
+            await abroad.dispose()
+        });
+    });
+});
+
+test.describe('Tenant isolation of Cheese and Pepper', () => {
+
+    test.describe('a token of another tenant', () => {
+        test('should not be accepted by the token info of Cheese', async () => {
+            const oauth = new UitsmijterClient(pepper)
+            const tokens = await oauth.token({
+                grant_type: 'password',
+                username: 'isolation@example.com',
+                password,
+                scope: 'profile:read',
+            })
+            expect(tokens.status).toBe(200)
+            expect((await oauth.userInfo(tokens.data.access_token)).status).toBe(200)
+
+            const foreign = new UitsmijterClient(cheese)
+            expect((await foreign.userInfo(tokens.data.access_token)).status).toBe(401)
+            await oauth.dispose()
+            await foreign.dispose()
+        });
+    });
+
+    test.describe('the SSO cookie of another tenant', () => {
+        test('should be shared by the cookie domain but not log in at Pepper', async () => {
+            const oauth = new UitsmijterClient(cheese)
+            const login = await oauth.login('isolation@example.com', password, {
+                redirect_uri: 'https://api.example.com/',
+                scope: 'access',
+            })
+            expect(login.code).toBeDefined()
+
+            // The same cookie jar, like a browser that visits Pepper after Cheese
+            const context = await oauth.requestContext()
+            const cookies = await context.storageState().then((state) => state.cookies)
+            expect(cookies.find((cookie) => cookie.domain === '.example.com')).toBeDefined()
+
+            const foreign = new UitsmijterClient({...pepper, context})
+            const result = await foreign.authorize({redirect_uri: 'https://pepper.example.com/'})
+            expect(result.status).toBe(403)
+            expect(result.code).toBeUndefined()
+            await oauth.dispose()
+        });
+    });
+});
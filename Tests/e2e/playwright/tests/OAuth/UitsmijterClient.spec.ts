@@ -0,0 +1,145 @@
+import {test, expect} from '@playwright/test';
+import {Application} from "../Fixtures/app";
+import {UitsmijterClient} from "./UitsmijterClient";
+import {decodeJwt} from "./AuthorizeRequests";
+
+test.describe('Uitsmijter OAuth client', () => {
+
+    test.beforeEach(async ({page}) => {
+        const app = new Application(page)
+        test.setTimeout(app.timeout)
+    });
+
+    // https://docs.uitsmijter.io/oauth/flow/
+    // ------------------------------------------------------
+    // "forTestingPurposesOnly"
+    // 143A3135-5DE2-46D4-828F-DDCF20C72060 = cheese-api-insecure
+
+    test.describe('complete lifecycle', () => {
+        // All tests in this describe must be executed in series
+        test.describe.configure({mode: 'serial'});
+
+        const client = new UitsmijterClient({
+            issuer: 'https://id.example.com',
+            clientId: '143A3135-5DE2-46D4-828F-DDCF20C72060',
+        })
+        const redirectUri = 'https://api.example.com/'
+
+        // Flow context
+        const myState = '' + Math.floor(Math.random() * 999999999);
+        let code: string = null
+        let accessToken: string = null
+        let refreshToken: string = null
+
+        test.afterAll(async () => {
+            await client.dispose()
+        });
+
+        test('should respond with a login page without a session', async () => {
+            const result = await client.authorize({redirect_uri: redirectUri, scope: 'access', state: myState})
+
+            expect(result.status).toBe(401)
+            expect(result.code).toBeUndefined()
+            expect(await result.response.text()).toContain('form action="/login"')
+        });
+
+        test('should return a code after login', async () => {
+            const result = await client.login('cee8Esh5@example.com', 'secretPassword', {
+                redirect_uri: redirectUri,
+                scope: 'access',
+                state: myState,
+            })
+
+            expect(result.state).toBe(myState)
+            expect(result.code.length).toBeGreaterThan(0)
+            code = result.code
+        });
+
+        test('should keep the session in the cookie jar', async () => {
+            const result = await client.authorize({redirect_uri: redirectUri, scope: 'access', state: myState})
+
+            expect(result.state).toBe(myState)
+            expect(result.code.length).toBeGreaterThan(0)
+            expect(result.code).not.toBe(code)
+        });
+
+        test('should exchange the code for a token pair', async () => {
+            const result = await client.exchangeCode(code, {scope: 'access'})
+
+            expect(result.status).toBe(200)
+            expect(result.data.token_type).toBe('Bearer')
+            expect(result.data.scope).toContain('access')
+            expect(result.data.access_token.length).toBeGreaterThan(0)
+            expect(result.data.refresh_token.length).toBeGreaterThan(0)
+
+            accessToken = result.data.access_token
+            refreshToken = result.data.refresh_token
+        });
+
+        test('should not exchange the same code twice', async () => {
+            const result = await client.exchangeCode(code, {scope: 'access'})
+
+            expect(result.status).toBe(403)
+            expect(result.data).toBeUndefined()
+            expect(result.error.reason).toBe('ERRORS.INVALID_CODE')
+        });
+
+        test('should return the user info', async () => {
+            const result = await client.userInfo(accessToken)
+
+            expect(result.status).toBe(200)
+            expect(result.data.name).toBe('Test User')
+        });
+
+        test('should refresh the token pair', async () => {
+            const result = await client.refresh(refreshToken, accessToken)
+
+            expect(result.status).toBe(200)
+            expect(result.data.access_token).not.toBe(accessToken)
+            expect(result.data.refresh_token).not.toBe(refreshToken)
+            expect(decodeJwt(result.data.access_token).payload.sub)
+                .toBe(decodeJwt(accessToken).payload.sub)
+
+            accessToken = result.data.access_token
+            refreshToken = result.data.refresh_token
+        });
+
+        test('should revoke the refresh token', async () => {
+            const response = await client.revoke(refreshToken, 'refresh_token')
+            expect(response.status()).toBe(200)
+
+            const result = await client.refresh(refreshToken)
+            expect(result.status).toBe(403)
+        });
+    });
+
+    test.describe('error case', () => {
+
+        test('should report the reason of a wrong login', async () => {
+            const client = new UitsmijterClient({
+                issuer: 'https://id.example.com',
+                clientId: '143A3135-5DE2-46D4-828F-DDCF20C72060',
+            })
+            const result = await client.login('not-existing-user', 'secretPassword', {
+                redirect_uri: 'https://api.example.com/',
+                state: 'wrong-login',
+            })
+            await client.dispose()
+
+            expect(result.status).toBe(403)
+            expect(result.code).toBeUndefined()
+        });
+
+        test('should reject an unknown client', async () => {
+            const client = new UitsmijterClient({
+                issuer: 'https://id.example.com',
+                clientId: '596de0f2-6b47-4c0e-9460-f7402f4a136d',
+            })
+            const result = await client.exchangeCode('invalid')
+            await client.dispose()
+
+            expect(result.status).toBeGreaterThanOrEqual(400)
+            expect(result.error.error).toBe(true)
+        });
+    });
+})
@@ -0,0 +1,355 @@
+import {APIRequestContext, APIResponse, request} from "@playwright/test";
+import {TokenRequestData} from "../types/TokenRequestData";
+import {ErrorResponseData, TokenResponseData} from "../types/TokenResponseData";
+import {DeviceAuthorizationResponseData} from "../types/DeviceAuthorizationData";
+import {IntrospectionResponseData} from "../types/IntrospectionData";
+
+export interface UitsmijterClientOptions {
+    /** Base url of the tenant, e.g. `https://id.example.com` */
+    issuer: string
+    clientId: string
+    clientSecret?: string
+    /** Reuse an existing request context (e.g. `page.request`) to share its cookie jar */
+    context?: APIRequestContext
+}
+
+export interface AuthorizeParameters {
+    response_type?: "code"
+    redirect_uri: string
+    scope?: string
+    state?: string
+    /** OpenID Connect nonce, the server passes it into the `id_token` */
+    nonce?: string
+    code_challenge?: string
+    code_challenge_method?: "S256" | "plain"
+    response_mode?: "query"
+}
+
+/**
+ * A parsed response of the server. `data` is set for 2xx responses, `error` carries the `ResponseError` otherwise.
+ */
+export interface ClientResponse<T> {
+    response: APIResponse
+    status: number
+    data?: T
+    error?: ErrorResponseData
+}
+
+/**
+ * The result of a login or authorize request, with the `code` and `state` taken from the final redirect location.
+ */
+export interface AuthorizationResult {
+    response: APIResponse
+    status: number
+    code?: string
+    state?: string
+}
+
+export type UserInfoData = Record<string, unknown>
+
+/**
+ * Typed client for the OAuth endpoints of one Uitsmijter tenant.
+ *
+ * All requests of one instance share a single request context and therefore one cookie jar, so a `login()`
+ * followed by an `authorize()` behaves like a browser that already has the SSO cookie.
+ */
+export class UitsmijterClient {
+    readonly issuer: string
+    readonly clientId: string
+    readonly clientSecret?: string
+
+    private context?: APIRequestContext
+    private readonly ownsContext: boolean
+
+    constructor(options: UitsmijterClientOptions) {
+        this.issuer = options.issuer.replace(/\/+$/, '')
+        this.clientId = options.clientId
+        this.clientSecret = options.clientSecret
+        this.context = options.context
+        this.ownsContext = typeof options.context === "undefined"
+    }
+
+    /**
+     * Returns the request context of this client and creates it on first use.
+     */
+    async requestContext(): Promise<APIRequestContext> {
+        if (!this.context) {
+            this.context = await request.newContext({
+                baseURL: this.issuer,
+                ignoreHTTPSErrors: true,
+            });
+        }
+        return this.context
+    }
+
+    /**
+     * Releases the request context, if it was created by this client.
+     */
+    async dispose() {
+        if (this.ownsContext && this.context) {
+            await this.context.dispose()
+            this.context = undefined
+        }
+    }
+
+    /**
+     * Builds the query of an authorization request for this client.
+     */
+    authorizeQuery(params: AuthorizeParameters): string {
+        const queryParams: Record<string, string> = {
+            response_type: params.response_type ?? 'code',
+            client_id: this.clientId,
+            redirect_uri: params.redirect_uri,
+            scope: params.scope ?? '',
+            state: params.state ?? '',
+        }
+        if (this.clientSecret) {
+            queryParams.client_secret = this.clientSecret
+        }
+        if (params.nonce) {
+            queryParams.nonce = params.nonce
+        }
+        if (params.code_challenge) {
+            queryParams.code_challenge = params.code_challenge
+        }
+        if (params.code_challenge_method) {
+            queryParams.code_challenge_method = params.code_challenge_method
+        }
+        if (params.response_mode) {
+            queryParams.response_mode = params.response_mode
+        }
+        return new URLSearchParams(queryParams).toString()
+    }
+
+    /**
+     * GET /authorize
+     *
+     * Without a valid SSO cookie the server responds with the login page (401), otherwise it redirects to the
+     * `redirect_uri` with a `code`.
+     */
+    async authorize(params: AuthorizeParameters): Promise<AuthorizationResult> {
+        const context = await this.requestContext()
+        const response = await context.get(this.url('/authorize?' + this.authorizeQuery(params)), {
+            headers: {
+                'Accept': 'text/html',
+            },
+        });
+        return UitsmijterClient.authorizationResult(response)
+    }
+
+    /**
+     * POST /login with the authorize request as `location`
+     *
+     * Submits the login form the way the default login page does and follows the redirects back to the
+     * `redirect_uri`.
+     */
+    async login(username: string, password: string, params: AuthorizeParameters): Promise<AuthorizationResult> {
+        const context = await this.requestContext()
+        const response = await context.post(this.url('/login'), {
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+            },
+            form: {
+                location: '/authorize?' + this.authorizeQuery(params),
+                mode: '',
+                username: username,
+                password: password,
+            },
+        });
+        return UitsmijterClient.authorizationResult(response)
+    }
+
+    /**
+     * POST /token
+     *
+     * Sends a token request for any grant type. `client_id` and `client_secret` of this client are added.
+     */
+    async token(data: Omit<TokenRequestData, "client_id"> & Record<string, unknown>, accessToken?: string): Promise<ClientResponse<TokenResponseData>> {
+        const context = await this.requestContext()
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json',
+            'Accept': 'application/json',
+        }
+        if (accessToken) {
+            headers['Authorization'] = 'Bearer ' + accessToken
+        }
+        const body: Record<string, unknown> = {
+            client_id: this.clientId,
+            ...data,
+        }
+        if (this.clientSecret && typeof body.client_secret === "undefined") {
+            body.client_secret = this.clientSecret
+        }
+        const response = await context.post(this.url('/token'), {
+            headers: headers,
+            data: body,
+        });
+        return UitsmijterClient.clientResponse<TokenResponseData>(response)
+    }
+
+    /**
+     * Exchanges an authorization code for a token pair.
+     */
+    async exchangeCode(code: string, options?: { scope?: string, code_verifier?: string }): Promise<ClientResponse<TokenResponseData>> {
+        return await this.token({
+            grant_type: 'authorization_code',
+            code: code,
+            ...(options?.scope !== undefined ? {scope: options.scope} : {}),
+            ...(options?.code_verifier !== undefined ? {code_verifier: options.code_verifier} : {}),
+        })
+    }
+
+    /**
+     * Exchanges a refresh token for a new token pair.
+     */
+    async refresh(refreshToken: string, accessToken?: string): Promise<ClientResponse<TokenResponseData>> {
+        return await this.token({
+            grant_type: 'refresh_token',
+            refresh_token: refreshToken,
+        }, accessToken)
+    }
+
+    /**
+     * POST /revoke (RFC 7009)
+     *
+     * The server answers with 200 for every authenticated client, even if the token is unknown.
+     */
+    async revoke(token: string, tokenTypeHint?: "access_token" | "refresh_token"): Promise<APIResponse> {
+        const context = await this.requestContext()
+        const form: Record<string, string> = {
+            token: token,
+            client_id: this.clientId,
+        }
+        if (tokenTypeHint) {
+            form.token_type_hint = tokenTypeHint
+        }
+        if (this.clientSecret) {
+            form.client_secret = this.clientSecret
+        }
+        return await context.post(this.url('/revoke'), {
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+            },
+            form: form,
+        });
+    }
+
+    /**
+     * POST /introspect (RFC 7662)
+     *
+     * Only confidential clients can introspect tokens. Unknown, expired and revoked tokens are `{active: false}`.
+     */
+    async introspect(token: string, tokenTypeHint?: "access_token" | "refresh_token"): Promise<ClientResponse<IntrospectionResponseData>> {
+        const context = await this.requestContext()
+        const form: Record<string, string> = {
+            token: token,
+            client_id: this.clientId,
+        }
+        if (tokenTypeHint) {
+            form.token_type_hint = tokenTypeHint
+        }
+        if (this.clientSecret) {
+            form.client_secret = this.clientSecret
+        }
+        const response = await context.post(this.url('/introspect'), {
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+                'Accept': 'application/json',
+            },
+            form: form,
+        });
+        return UitsmijterClient.clientResponse<IntrospectionResponseData>(response)
+    }
+
+    /**
+     * POST /oauth/device_authorization (RFC 8628)
+     */
+    async deviceAuthorization(scope?: string): Promise<ClientResponse<DeviceAuthorizationResponseData>> {
+        const context = await this.requestContext()
+        const form: Record<string, string> = {
+            client_id: this.clientId,
+        }
+        if (scope) {
+            form.scope = scope
+        }
+        const response = await context.post(this.url('/oauth/device_authorization'), {
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+                'Accept': 'application/json',
+            },
+            form: form,
+        });
+        return UitsmijterClient.clientResponse<DeviceAuthorizationResponseData>(response)
+    }
+
+    /**
+     * Polls the token endpoint once with a `device_code`.
+     */
+    async deviceToken(deviceCode: string): Promise<ClientResponse<TokenResponseData>> {
+        return await this.token({
+            grant_type: 'device_code',
+            device_code: deviceCode,
+        })
+    }
+
+    /**
+     * GET /token/info
+     *
+     * Returns the profile of the user that owns the access token.
+     */
+    async userInfo(accessToken: string): Promise<ClientResponse<UserInfoData>> {
+        const context = await this.requestContext()
+        const response = await context.get(this.url('/token/info'), {
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': 'Bearer ' + accessToken,
+                'Accept': 'application/json',
+            },
+        });
+        return UitsmijterClient.clientResponse<UserInfoData>(response)
+    }
+
+    /**
+     * GET /userinfo (OpenID Connect Core 1.0, Section 5.3)
+     *
+     * Returns the `sub` and the standard claims of the granted scopes, the access token needs the `openid` scope.
+     */
+    async openIdUserInfo(accessToken: string): Promise<ClientResponse<UserInfoData>> {
+        const context = await this.requestContext()
+        const response = await context.get(this.url('/userinfo'), {
+            headers: {
+                'Authorization': 'Bearer ' + accessToken,
+                'Accept': 'application/json',
+            },
+        });
+        return UitsmijterClient.clientResponse<UserInfoData>(response)
+    }
+
+    private url(path: string): string {
+        return this.issuer + path
+    }
+
+    private static authorizationResult(response: APIResponse): AuthorizationResult {
+        const location = new URL(response.url())
+        return {
+            response: response,
+            status: response.status(),
+            code: location.searchParams.get('code') ?? undefined,
+            state: location.searchParams.get('state') ?? undefined,
+        }
+    }
+
+    private static async clientResponse<T>(response: APIResponse): Promise<ClientResponse<T>> {
+        const result: ClientResponse<T> = {
+            response: response,
+            status: response.status(),
+        }
+        const body = await response.json().catch(() => undefined)
+        if (response.ok()) {
+            result.data = body as T
+        } else {
+            result.error = body as ErrorResponseData
+        }
+        return result
+    }
+}
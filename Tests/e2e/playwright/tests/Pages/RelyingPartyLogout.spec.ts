@@ -0,0 +1,87 @@
+import {randomUUID} from 'crypto';
+import {test, expect, relyingPartyClient} from '../Fixtures/relyingParty';
+import {Application} from '../Fixtures/app';
+
+// OpenID Connect RP-Initiated Logout: the relying party sends the browser to the end_session_endpoint with its
+// client_id, the id_token_hint, a post_logout_redirect_uri and a state
+
+test.describe('OAuth - relying party initiated logout', () => {
+    test.use({relyingPartyConfig: {...relyingPartyClient, scope: 'openid access'}})
+
+    test.beforeEach(async ({page, relyingParty}) => {
+        const app = new Application(page)
+        test.setTimeout(app.timeout);
+
+        await app.goto(relyingParty.url + '/protected')
+        await app.auth.login('rp-logout@example.com', 'secretPassword')
+        await expect(page).toHaveURL(relyingParty.url + '/protected')
+    });
+
+    test('succeeds and returns the state', async ({page, relyingParty}) => {
+        await page.click('button#logout')
+        await page.waitForURL(/.*\?state=.*/, {timeout: 10 * 1000});
+
+        const logout = relyingParty.endSessions[0]
+        expect(logout.idTokenHint).toBeDefined()
+        await expect(page).toHaveURL(`${relyingParty.url}/?state=${logout.state}`)
+        expect(relyingParty.postLogoutCallbacks).toEqual([{state: logout.state}])
+
+        // check that cookie got removed
+        const cookies = await page.context().cookies();
+        expect(cookies.map(cookie => cookie.name)).not.toContain("uitsmijter-sso");
+    });
+
+    test('identifies the client by the id_token_hint', async ({page, relyingParty}) => {
+        const app = new Application(page)
+        await app.goto(`${relyingPartyClient.issuer}/logout?` + new URLSearchParams({
+            id_token_hint: relyingParty.lastCallback.token.data.id_token,
+            post_logout_redirect_uri: `${relyingParty.url}/`,
+            state: 'hinted',
+        }))
+        await page.waitForURL(`${relyingParty.url}/?state=hinted`, {timeout: 10 * 1000});
+
+        const cookies = await page.context().cookies();
+        expect(cookies.map(cookie => cookie.name)).not.toContain("uitsmijter-sso");
+    });
+
+    test.describe('is refused', () => {
+        test('for a post_logout_redirect_uri that is not registered', async ({page, relyingParty}) => {
+            const app = new Application(page)
+            const response = await app.goto(`${relyingPartyClient.issuer}/logout?` + new URLSearchParams({
+                client_id: relyingPartyClient.clientId,
+                post_logout_redirect_uri: 'https://id.example.com/',
+                state: 'foreign',
+            }))
+            expect(response?.status()).toBe(403)
+
+            // the user is still logged in
+            const cookies = await page.context().cookies();
+            expect(cookies.map(cookie => cookie.name)).toContain("uitsmijter-sso");
+        });
+
+        test('for an invalid id_token_hint', async ({page, relyingParty}) => {
+            const app = new Application(page)
+            const response = await app.goto(`${relyingPartyClient.issuer}/logout?` + new URLSearchParams({
+                id_token_hint: 'invalid',
+                post_logout_redirect_uri: `${relyingParty.url}/`,
+            }))
+            expect(response?.status()).toBe(400)
+        });
+
+        test('for an id_token_hint of another client', async ({page, relyingParty}) => {
+            const app = new Application(page)
+            const response = await app.goto(`${relyingPartyClient.issuer}/logout?` + new URLSearchParams({
+                id_token_hint: relyingParty.lastCallback.token.data.id_token,
+                client_id: randomUUID(),
+                post_logout_redirect_uri: `${relyingParty.url}/`,
+            }))
+            expect(response?.status()).toBe(400)
+        });
+    });
+
+    test('is advertised as end_session_endpoint', async ({page}) => {
+        const response = await page.request.get(`${relyingPartyClient.issuer}/.well-known/openid-configuration`)
+        expect(response.status()).toBe(200)
+        expect((await response.json()).end_session_endpoint).toBe(`${relyingPartyClient.issuer}/logout`)
+    });
+});
@@ -0,0 +1,34 @@
+import {expect, templateBundles, test} from '../Fixtures/templateContract';
+
+// Contract of the tenant templates that `TenantTemplateLoader` loads from S3: every bundle is served by the S3
+// stand-in and rendered for a tenant of its own. Validate another bundle with
+// `UITSMIJTER_E2E_TEMPLATES=<directory> npm run validate:templates`.
+
+for (const bundle of Object.keys(templateBundles)) {
+    test.describe(`Template contract of ${bundle}`, () => {
+        test.use({templateBundle: bundle})
+
+        test('login page should have the form fields', async ({templateContract}) => {
+            const violations = [...await templateContract.openLogin(), ...await templateContract.login()]
+            expect(violations).toEqual([])
+        });
+
+        test('login page should show errors with data-error', async ({templateContract}) => {
+            expect(await templateContract.openLogin()).toEqual([])
+            expect(await templateContract.loginError()).toEqual([])
+        });
+
+        test('login page should send a valid login back to the client', async ({templateContract}) => {
+            expect(await templateContract.openLogin()).toEqual([])
+            expect(await templateContract.loginSuccess()).toEqual([])
+        });
+
+        test('logout page should finalize the logout', async ({templateContract}) => {
+            expect(await templateContract.logout()).toEqual([])
+        });
+
+        test('error page should render with its assets', async ({templateContract}) => {
+            expect(await templateContract.error()).toEqual([])
+        });
+    });
+}
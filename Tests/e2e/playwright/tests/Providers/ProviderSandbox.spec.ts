@@ -0,0 +1,234 @@
+import {test, expect} from '@playwright/test';
+import {ProviderSandbox, ProviderStubServer} from './ProviderSandbox';
+import {tenantProviders} from '../Fixtures/inventory';
+
+// Provider that commits its input and `values`, without properties
+function committing(values: string) {
+    return new ProviderSandbox([`class UserLoginProvider { constructor(input) { commit(input, ${values}); } }`])
+}
+
+test.describe('Provider sandbox', () => {
+
+    test.describe('globals', () => {
+        test('should construct the provider with the credentials as JSON', async () => {
+            const result = await committing('typeof input')
+                .userLogin({username: 'ada@example.com', password: 'secret', grant_type: 'interceptor'})
+
+            expect(JSON.parse(result.committed[0])).toEqual({
+                username: 'ada@example.com',
+                password: 'secret',
+                grant_type: 'interceptor',
+            })
+            expect(result.committed[1]).toBe('"object"')
+        });
+
+        test('should default to the grant of the login page', async () => {
+            const result = await committing('input.grant_type').userLogin({username: 'ada@example.com', password: 'secret'})
+            expect(result.committed[1]).toBe('"authorization_code"')
+        });
+
+        test('should hash like the server', async () => {
+            const result = await committing(`md5("abc"), sha256("abc"), md5()`).userLogin({username: 'a', password: 'b'})
+            expect(result.committed.slice(1)).toEqual([
+                '"900150983cd24fb0d6963f7d28e17f72"',
+                '"ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"',
+                'null',
+            ])
+        });
+
+        test('should commit values without JSON representation as null', async () => {
+            const result = await committing('undefined, () => true').userLogin({username: 'a', password: 'b'})
+            expect(result.committed.slice(1)).toEqual([null, null])
+        });
+
+        test('should log say, console.log and console.error', async () => {
+            const sandbox = new ProviderSandbox([`class UserLoginProvider {
+                constructor() { say("said", 1); console.log("logged", true); console.error("failed"); commit(); }
+            }`])
+            const result = await sandbox.userLogin({username: 'a', password: 'b'})
+            expect(result.logs).toEqual([
+                {level: 'info', message: 'said 1'},
+                {level: 'info', message: 'logged true'},
+                {level: 'error', message: 'failed'},
+            ])
+        });
+
+        test('should report commits after the first', async () => {
+            const result = await committing('1); commit(2').userLogin({username: 'a', password: 'b'})
+            expect(result.commits.map((values) => values.slice(-1))).toEqual([['1'], ['2']])
+        });
+    });
+
+    test.describe('fetch', () => {
+        let stub: ProviderStubServer
+
+        test.beforeAll(async () => {
+            stub = await new ProviderStubServer({
+                'POST /login': (request) => ({body: {received: JSON.parse(request.body)}}),
+                'GET /forbidden': () => ({status: 403, body: 'no'}),
+            }).start()
+        });
+
+        test.afterAll(async () => {
+            await stub.stop()
+        });
+
+        test('should resolve with the code and body of the response', async () => {
+            const sandbox = new ProviderSandbox([`class UserLoginProvider {
+                constructor(credentials) {
+                    fetch("http://backend.test/login", {
+                        method: "post",
+                        headers: {"Content-Type": "application/json", "X-Attempt": 1},
+                        body: JSON.stringify({user: credentials.username})
+                    }).then((result) => commit(result.code, JSON.parse(result.body)));
+                }
+            }`], {origins: {'http://backend.test': stub.url}})
+
+            const result = await sandbox.userLogin({username: 'ada@example.com', password: 'secret'})
+            expect(result.committed).toEqual(['200', '{"received":{"user":"ada@example.com"}}'])
+            expect(result.fetches).toEqual([{
+                method: 'POST',
+                url: 'http://backend.test/login',
+                headers: {'Content-Type': 'application/json', 'X-Attempt': '1'},
+                body: '{"user":"ada@example.com"}',
+                status: 200,
+            }])
+            expect(stub.requests.at(-1)?.headers['x-attempt']).toBe('1')
+        });
+
+        test('should reject responses with an error status', async () => {
+            const sandbox = new ProviderSandbox([`class UserLoginProvider {
+                constructor() { fetch("${stub.url}/forbidden").catch((error) => commit(error.message)); }
+            }`])
+
+            const result = await sandbox.userLogin({username: 'a', password: 'b'})
+            expect(JSON.parse(result.committed[0])).toBe(`Call to ${stub.url}/forbidden failed. Error status code 403.`)
+        });
+
+        test('should reject without url', async () => {
+            const result = await committing('0); fetch().catch((error) => commit(error.message)')
+                .userLogin({username: 'a', password: 'b'})
+            expect(result.commits[1]).toEqual(['"Can not fetch without url"'])
+        });
+
+        test('should only log unhandled rejections', async () => {
+            const sandbox = new ProviderSandbox([`class UserLoginProvider {
+                constructor() {
+                    Promise.reject(new Error("lost"));
+                    fetch("${stub.url}/forbidden").catch(() => commit("done"));
+                }
+            }`])
+            const result = await sandbox.userLogin({username: 'a', password: 'b'})
+            expect(result.committed).toEqual(['"done"'])
+            expect(result.logs).toContainEqual({level: 'error', message: 'lost'})
+        });
+    });
+
+    test.describe('failures', () => {
+        test('should fail on syntax errors', async () => {
+            const sandbox = new ProviderSandbox(['class UserLoginProvider {'])
+            await expect(sandbox.userLogin({username: 'a', password: 'b'})).rejects.toMatchObject({reason: 'syntaxError'})
+        });
+
+        test('should fail if the constructor throws', async () => {
+            const sandbox = new ProviderSandbox(['class UserLoginProvider { constructor() { throw new Error("boom"); } }'])
+            await expect(sandbox.userLogin({username: 'a', password: 'b'})).rejects.toMatchObject({reason: 'parserError'})
+        });
+
+        test('should fail if the class is missing', async () => {
+            const sandbox = new ProviderSandbox(['class UserLoginProvider { constructor() { commit(true); } }'])
+            await expect(sandbox.userValidation('a')).rejects.toMatchObject({reason: 'parserError'})
+        });
+
+        test('should time out without a commit', async () => {
+            const sandbox = new ProviderSandbox(['class UserLoginProvider { constructor() { } }'], {timeout: 1})
+            await expect(sandbox.userLogin({username: 'a', password: 'b'})).rejects.toMatchObject({reason: 'timeout'})
+        });
+
+        test('should time out a blocking provider', async () => {
+            const sandbox = new ProviderSandbox(['class UserLoginProvider { constructor() { while (true) {} } }'], {timeout: 1})
+            await expect(sandbox.userLogin({username: 'a', password: 'b'})).rejects.toMatchObject({reason: 'timeout'})
+        });
+    });
+
+    test.describe('properties', () => {
+        test('should fall back to the defaults of the server', async () => {
+            const result = await committing('true').userLogin({username: 'a', password: 'b'})
+            expect(result.canLogin).toBe(false)
+            expect(result.userProfile).toBeUndefined()
+            expect(result.role).toBe('default')
+            expect(result.scopes).toEqual([])
+            expect(result.subject).toBeUndefined()
+        });
+
+        test('should read the properties after the commit', async () => {
+            const sandbox = new ProviderSandbox([`class UserLoginProvider {
+                constructor() { commit({subject: "ada-1"}); this.done = true; }
+                get canLogin() { return this.done; }
+                get userProfile() { return {name: "Ada", nested: {level: 1}}; }
+                get role() { return "admin"; }
+                get scopes() { return ["user:list"]; }
+            }`])
+
+            const result = await sandbox.userLogin({username: 'ada@example.com', password: 'secret'})
+            expect(result).toMatchObject({
+                canLogin: true,
+                userProfile: {name: 'Ada', nested: {level: 1}},
+                role: 'admin',
+                scopes: ['user:list'],
+                subject: 'ada-1',
+            })
+        });
+    });
+
+    test.describe('tenants of Deployment/e2e', () => {
+        test('cheese should only login @example.com users', async () => {
+            const sandbox = new ProviderSandbox(tenantProviders('cheese/cheese'))
+
+            const login = await sandbox.userLogin({username: 'ada@example.com', password: 'secret'})
+            expect(login).toMatchObject({canLogin: true, role: 'user', userProfile: {name: 'Test User'}})
+            expect((await sandbox.userLogin({username: 'ada@example.net', password: 'secret'})).canLogin).toBe(false)
+        });
+
+        test('cheese should invalidate users on the second validation', async () => {
+            const sandbox = new ProviderSandbox(tenantProviders('cheese/cheese'))
+
+            expect((await sandbox.userValidation('ada@example.com')).isValid).toBe(true)
+            expect((await sandbox.userValidation('nosecondtime@example.com')).isValid).toBe(false)
+        });
+
+        test('cheese-rs256 should grant provider scopes', async () => {
+            const sandbox = new ProviderSandbox(tenantProviders('cheese/cheese-rs256'))
+
+            const login = await sandbox.userLogin({username: 'ada@example.com', password: 'secret'})
+            expect(login.scopes).toEqual(['user:list'])
+        });
+
+        test('ham should only allow one user in interceptor mode', async () => {
+            const sandbox = new ProviderSandbox(tenantProviders('ham/ham'))
+
+            const interceptor = {password: 'secret', grant_type: 'interceptor'}
+            expect((await sandbox.userLogin({username: 'ada@example.com', ...interceptor})).canLogin).toBe(false)
+            expect((await sandbox.userLogin({username: 'allow@example.com', ...interceptor})).canLogin).toBe(true)
+            expect((await sandbox.userLogin({username: 'ada@example.com', password: 'secret'})).canLogin).toBe(true)
+        });
+
+        test('uitsmijter/ham should login with the backend', async () => {
+            test.fail() // assigns the undeclared `profile` in strict class code and sends the body as `[object Object]`
+            const stub = await new ProviderStubServer({
+                'POST /validate-login': () => ({body: {userId: 'ada-1', role: 'admin'}}),
+            }).start()
+            const sandbox = new ProviderSandbox(tenantProviders('uitsmijter/ham'), {
+                origins: {'http://checkcredentials.checkcredentials.svc.cluster.local': stub.url},
+                timeout: 2,
+            })
+
+            try {
+                const login = await sandbox.userLogin({username: 'ada@example.com', password: 'secret'})
+                expect(login).toMatchObject({canLogin: true, role: 'admin', subject: 'ada-1'})
+            } finally {
+                await stub.stop()
+            }
+        });
+    });
+});
@@ -0,0 +1,270 @@
+import * as http from 'http';
+import * as path from 'path';
+import {AddressInfo} from 'net';
+import {Worker} from 'worker_threads';
+
+/** Seconds a provider has to `commit`, `Constants.PROVIDER.SCRIPT_TIMEOUT` of the server */
+export const scriptTimeout = 30
+
+export interface ProviderSandboxOptions {
+    /**
+     * Replaces the origin of urls that the scripts fetch, e.g. a service of the cluster with a `ProviderStubServer`:
+     * `{'http://checkcredentials.checkcredentials.svc.cluster.local': stub.url}`
+     */
+    origins?: Record<string, string>
+    /** Seconds until a provider that does not commit fails, defaults to `scriptTimeout` */
+    timeout?: number
+}
+
+/** Input of the `UserLoginProvider`, mirrors `JSInputCredentials.swift` */
+export interface ProviderCredentials {
+    username: string
+    password: string
+    /**
+     * `authorization_code` for the login page (default), `interceptor` for the interceptor mode, `password` for the
+     * token endpoint and `device_code` for device activations, see `Uitsmijter.GrantType` of `Public/types/provider.d.ts`
+     */
+    grant_type?: string
+}
+
+export interface ProviderLog {
+    level: 'info' | 'error'
+    message: string
+}
+
+export interface ProviderFetch {
+    method: string
+    /** The url as the script requested it, before `origins` are applied */
+    url: string
+    headers: Record<string, string>
+    body?: string
+    status?: number
+    error?: string
+}
+
+interface ProviderResult {
+    /** The JSON values of the first `commit`, `null` for values without a JSON representation */
+    committed: (string | null)[]
+    /** All commits of the run, including the ones after the first */
+    commits: (string | null)[][]
+    /** The `subject` of the first committed object that has one, the server falls back to the username */
+    subject?: string
+    logs: ProviderLog[]
+    fetches: ProviderFetch[]
+}
+
+export interface UserLoginResult extends ProviderResult {
+    canLogin: boolean
+    userProfile?: object
+    /** `default` if the provider has no string role */
+    role: string
+    scopes: string[]
+}
+
+export interface UserValidationResult extends ProviderResult {
+    isValid: boolean
+}
+
+export type ProviderScriptErrorReason = 'syntaxError' | 'parserError' | 'timeout'
+
+/**
+ * The provider failed like `JavaScriptProvider.JavaScriptError`: the script does not compile, the class can not be
+ * constructed or it does not commit in time.
+ */
+export class ProviderScriptError extends Error {
+    constructor(readonly reason: ProviderScriptErrorReason, message: string, readonly logs: ProviderLog[]) {
+        super(`${reason}: ${message}`)
+        this.name = 'ProviderScriptError'
+    }
+}
+
+type PropertyType = 'boolean' | 'string' | 'string[]' | 'object'
+
+interface WorkerMessage {
+    type: 'log' | 'fetch' | 'commit' | 'result' | 'error'
+    [key: string]: any
+}
+
+/**
+ * Runs the provider scripts of a tenant outside of the server, to unit-test `UserLoginProvider` and
+ * `UserValidationProvider` classes before they are deployed.
+ *
+ * The scripts get the globals of `JSFunctions.swift` with the same semantics: `say`, `console.log`,
+ * `console.error`, `fetch`, `commit`, `md5` and `sha256`. Like the server, every run evaluates all scripts in a
+ * fresh context, constructs the class with the JSON input, waits for the first `commit` and then reads the
+ * properties. Each run has a worker thread of its own, so blocking scripts and unhandled rejections do not affect
+ * the test.
+ *
+ * @example
+ *     const sandbox = new ProviderSandbox(tenantProviders('cheese/cheese'))
+ *     const login = await sandbox.userLogin({username: 'ada@example.com', password: 'secret'})
+ *     expect(login.canLogin).toBe(true)
+ */
+export class ProviderSandbox {
+    /** The providers joined like the server loads them */
+    readonly script: string
+
+    constructor(scripts: string[], readonly options: ProviderSandboxOptions = {}) {
+        this.script = scripts.join('\n')
+    }
+
+    /**
+     * Runs the `UserLoginProvider`, like the login page, the token endpoint and the device activation do.
+     */
+    async userLogin(credentials: ProviderCredentials): Promise<UserLoginResult> {
+        const input = {grant_type: 'authorization_code', ...credentials}
+        const {properties, ...result} = await this.run('UserLoginProvider', input, {
+            canLogin: 'boolean',
+            userProfile: 'object',
+            role: 'string',
+            scopes: 'string[]',
+        })
+        return {
+            ...result,
+            canLogin: properties.canLogin,
+            userProfile: properties.userProfile,
+            role: properties.role ?? 'default',
+            scopes: properties.scopes ?? [],
+        }
+    }
+
+    /**
+     * Runs the `UserValidationProvider`, like a refresh of a token does.
+     */
+    async userValidation(username: string): Promise<UserValidationResult> {
+        const {properties, ...result} = await this.run('UserValidationProvider', {username}, {isValid: 'boolean'})
+        return {...result, isValid: properties.isValid}
+    }
+
+    private run(className: string, input: object, properties: Record<string, PropertyType>): Promise<ProviderResult & { properties: Record<string, any> }> {
+        const logs: ProviderLog[] = []
+        const fetches: ProviderFetch[] = []
+        const commits: (string | null)[][] = []
+
+        const worker = new Worker(path.join(__dirname, 'ProviderSandboxWorker.js'), {
+            workerData: {
+                script: this.script,
+                className,
+                input,
+                properties: Object.entries(properties).map(([name, type]) => ({name, type})),
+                origins: this.options.origins ?? {},
+            },
+        })
+
+        return new Promise((resolve, reject) => {
+            const fail = (reason: ProviderScriptErrorReason, message: string) => {
+                clearTimeout(timer)
+                reject(new ProviderScriptError(reason, message, logs))
+                worker.terminate()
+            }
+            const timer = setTimeout(
+                () => fail('timeout', `${className} did not commit within ${this.options.timeout ?? scriptTimeout}s`),
+                (this.options.timeout ?? scriptTimeout) * 1000
+            )
+
+            worker.on('message', ({type, ...message}: WorkerMessage) => {
+                switch (type) {
+                    case 'log':
+                        logs.push(message as ProviderLog)
+                        return
+                    case 'fetch':
+                        fetches.push(message as ProviderFetch)
+                        return
+                    case 'commit':
+                        commits.push(message.values)
+                        return
+                    case 'error':
+                        fail(message.reason, message.message)
+                        return
+                    case 'result':
+                        clearTimeout(timer)
+                        resolve({
+                            committed: commits[0],
+                            commits,
+                            subject: subjectOf(commits[0]),
+                            logs,
+                            fetches,
+                            properties: message.properties,
+                        })
+                        worker.terminate()
+                }
+            })
+            worker.on('error', (error) => fail('parserError', error.message))
+        })
+    }
+}
+
+// `Subject.decode(from:)`: the first committed JSON object with a string `subject`
+function subjectOf(values: (string | null)[]): string | undefined {
+    for (const value of values) {
+        const data = value !== null ? JSON.parse(value) : null
+        if (typeof data?.subject === 'string') {
+            return data.subject
+        }
+    }
+    return undefined
+}
+
+export interface StubRequest {
+    method: string
+    path: string
+    headers: http.IncomingHttpHeaders
+    body: string
+}
+
+export interface StubResponse {
+    status?: number
+    /** Objects are sent as JSON */
+    body?: string | object
+}
+
+export type StubHandler = (request: StubRequest) => StubResponse | Promise<StubResponse>
+
+/**
+ * A local HTTP server for the `fetch` calls of provider scripts, routes are `METHOD /path`. Unknown routes answer
+ * with 404, every request is recorded.
+ *
+ * @example
+ *     const stub = await new ProviderStubServer({
+ *         'POST /validate-login': () => ({body: {userId: 'ada', role: 'admin'}}),
+ *     }).start()
+ */
+export class ProviderStubServer {
+    readonly requests: StubRequest[] = []
+    private readonly server: http.Server
+
+    constructor(private readonly routes: Record<string, StubHandler>) {
+        this.server = http.createServer((request, response) => {
+            const chunks: Buffer[] = []
+            request.on('data', (chunk) => chunks.push(chunk))
+            request.on('end', async () => {
+                const stubRequest: StubRequest = {
+                    method: request.method ?? 'GET',
+                    path: request.url ?? '/',
+                    headers: request.headers,
+                    body: Buffer.concat(chunks).toString('utf8'),
+                }
+                this.requests.push(stubRequest)
+
+                const handler = this.routes[`${stubRequest.method} ${stubRequest.path.split('?')[0]}`]
+                const {status, body} = handler ? await handler(stubRequest) : {status: 404, body: 'Not Found'}
+                response.writeHead(status ?? 200, {'Content-Type': typeof body === 'string' ? 'text/plain' : 'application/json'})
+                response.end(typeof body === 'string' ? body : JSON.stringify(body ?? {}))
+            })
+        })
+    }
+
+    async start(): Promise<this> {
+        await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', () => resolve()))
+        return this
+    }
+
+    async stop() {
+        this.server.closeAllConnections()
+        await new Promise<void>((resolve) => this.server.close(() => resolve()))
+    }
+
+    get url(): string {
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`
+    }
+}
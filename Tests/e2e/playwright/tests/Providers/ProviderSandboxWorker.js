@@ -0,0 +1,153 @@
+// Runs one provider class of a tenant like `JavaScriptProvider` does, see `ProviderSandbox.ts`.
+//
+// Every run has a thread of its own: the script can block it, leave promises unhandled or never commit, and the
+// sandbox still ends it after the timeout. Messages to the parent are `{type: 'log' | 'fetch' | 'commit' | 'result' |
+// 'error', ...}`.
+
+const crypto = require('crypto');
+const http = require('http');
+const https = require('https');
+const vm = require('vm');
+const {parentPort, workerData} = require('worker_threads');
+
+const {script, className, input, properties, origins} = workerData;
+
+const context = vm.createContext({});
+const JsPromise = vm.runInContext('Promise', context);
+const JsError = vm.runInContext('Error', context);
+
+// `console.log` and `say` of `JSFunctions+Logging.swift`: all arguments as strings, separated by a space
+function say(level) {
+    return (...args) => {
+        parentPort.postMessage({type: 'log', level, message: args.map((arg) => String(arg)).join(' ')});
+        return null;
+    };
+}
+
+// `md5` and `sha256` of `JSFunctions+Hashing.swift`: the hex digest of the string value, null without an argument
+function hash(algorithm) {
+    return (value) => value === undefined
+        ? null
+        : crypto.createHash(algorithm).update(String(value), 'utf8').digest('hex');
+}
+
+function request(url, method, headers, body, redirects = 0) {
+    return new Promise((resolve, reject) => {
+        const transport = url.protocol === 'https:' ? https : http;
+        const outgoing = transport.request(url, {method, headers}, (response) => {
+            const location = response.headers.location;
+            if (response.statusCode >= 300 && response.statusCode < 400 && location && redirects < 100) {
+                response.resume();
+                resolve(request(new URL(location, url), method, headers, body, redirects + 1));
+                return;
+            }
+            const chunks = [];
+            response.on('data', (chunk) => chunks.push(chunk));
+            response.on('end', () => resolve({code: response.statusCode, body: Buffer.concat(chunks).toString('utf8')}));
+        });
+        outgoing.on('error', reject);
+        outgoing.end(body);
+    });
+}
+
+// `fetch` of `JSFunctions+Networking.swift`: resolves `{code, body}` for 2xx responses and rejects everything else,
+// redirects are followed. The body is sent as its string value, objects become `[object Object]`.
+function fetch(urlArgument, settings) {
+    return new JsPromise((resolve, reject) => {
+        if (typeof urlArgument !== 'string') {
+            reject(new JsError('Can not fetch without url'));
+            return;
+        }
+        let url;
+        try {
+            url = new URL(urlArgument);
+        } catch {
+            reject(new JsError('Can not fetch, because url is not valid'));
+            return;
+        }
+        const target = origins[url.origin] ? new URL(url.pathname + url.search, origins[url.origin]) : url;
+
+        const method = String(settings?.method ?? 'get').toUpperCase();
+        const headers = Object.fromEntries(Object.entries(settings?.headers ?? {}).map(([name, value]) => [name, String(value)]));
+        const body = settings?.body !== undefined ? String(settings.body) : undefined;
+        const record = {type: 'fetch', method, url: urlArgument, headers, body};
+
+        request(target, method, headers, body).then((response) => {
+            parentPort.postMessage({...record, status: response.code});
+            if (response.code >= 200 && response.code <= 299) {
+                resolve(vm.runInContext(`(${JSON.stringify(response)})`, context));
+            } else {
+                reject(new JsError(`Call to ${urlArgument} failed. Error status code ${response.code}.`));
+            }
+        }, (error) => {
+            parentPort.postMessage({...record, error: error.message});
+            reject(new JsError(error.message));
+        });
+    });
+}
+
+// Reads a property like the getters of `JavaScriptProvider+GetProperties.swift`, with their fallbacks
+function readProperty(instance, {name, type}) {
+    let value;
+    try {
+        value = instance[name];
+    } catch {
+        value = undefined;
+    }
+    switch (type) {
+        case 'boolean':
+            return Boolean(value);
+        case 'string':
+            return typeof value === 'string' ? value : undefined;
+        case 'string[]':
+            return Array.isArray(value) && value.every((entry) => typeof entry === 'string') ? [...value] : undefined;
+        case 'object':
+            return value === undefined || value === null ? undefined : JSON.parse(JSON.stringify(value) ?? 'null');
+    }
+}
+
+let committed = false;
+context.say = say('info');
+context.console = {log: say('info'), error: say('error')};
+context.fetch = fetch;
+context.md5 = hash('md5');
+context.sha256 = hash('sha256');
+// Only the first commit ends the run, later ones are reported as well
+context.commit = (...args) => {
+    parentPort.postMessage({type: 'commit', values: args.map((arg) => JSON.stringify(arg) ?? null)});
+    if (!committed) {
+        committed = true;
+        // The server reads the properties after the commit
+        setImmediate(() => parentPort.postMessage({
+            type: 'result',
+            properties: Object.fromEntries(properties.map((property) => [
+                property.name, readProperty(context[`r_${className}`], property),
+            ])),
+        }));
+    }
+    return null;
+};
+
+// The exception handler of the server only logs errors of the script
+process.on('unhandledRejection', (reason) => {
+    parentPort.postMessage({type: 'log', level: 'error', message: String(reason?.message ?? reason)});
+});
+
+function run() {
+    let compiled;
+    try {
+        compiled = new vm.Script(script, {filename: 'providers.js'});
+    } catch (error) {
+        parentPort.postMessage({type: 'error', reason: 'syntaxError', message: error.message});
+        return;
+    }
+
+    try {
+        compiled.runInContext(context);
+        vm.runInContext(`var r_${className} = new ${className}(${JSON.stringify(input)});`, context);
+    } catch (error) {
+        parentPort.postMessage({type: 'error', reason: 'parserError', message: String(error?.message ?? error)});
+    }
+}
+
+run();
@@ -0,0 +1,98 @@
+import {test, expect} from '@playwright/test';
+import {checkProviderTypes} from './ProviderTypings';
+import {tenantNames, tenantProviders} from '../Fixtures/inventory';
+
+// Providers that do not compile against the typings, with the reason
+const knownIssues: Record<string, string> = {
+    'uitsmijter/ham': 'assigns the undeclared `profile`, sends an object as body and overrides the field `role`',
+}
+
+test.describe('Provider typings', () => {
+
+    test.describe('tenants of Deployment/e2e', () => {
+        for (const tenant of tenantNames()) {
+            test(`${tenant} should compile against the typings`, () => {
+                if (knownIssues[tenant]) {
+                    test.fail(true, knownIssues[tenant])
+                }
+                expect(checkProviderTypes(tenantProviders(tenant))).toEqual([])
+            });
+        }
+    });
+
+    test.describe('contract', () => {
+        test('should accept a typed provider', () => {
+            expect(checkProviderTypes([`
+                /** @implements {Uitsmijter.UserLoginProvider} */
+                class UserLoginProvider {
+                    auth = false;
+                    /** @param {Uitsmijter.Credentials} credentials */
+                    constructor(credentials) {
+                        fetch("http://backend.test/login", {
+                            method: "post",
+                            headers: {"X-Attempt": 1},
+                            body: JSON.stringify({hash: sha256(credentials.password), grant: credentials.grant_type})
+                        }).then((result) => {
+                            this.auth = result.code === 200;
+                            say("login of", credentials.username, md5(result.body));
+                            commit({subject: credentials.username});
+                        }).catch((error) => {
+                            console.error(error.message);
+                            commit(false);
+                        });
+                    }
+                    get canLogin() { return this.auth; }
+                    get userProfile() { return {name: "Ada"}; }
+                    get role() { return "user"; }
+                    get scopes() { return ["user:list"]; }
+                }`,
+                `class UserValidationProvider {
+                    /** @param {Uitsmijter.Username} args */
+                    constructor(args) { this.valid = args.username.endsWith("@example.com"); commit(true); }
+                    get isValid() { return this.valid; }
+                }`,
+            ])).toEqual([])
+        });
+
+        test('should reject unknown inputs', () => {
+            const problems = checkProviderTypes([`class UserLoginProvider {
+                /** @param {Uitsmijter.Credentials} credentials */
+                constructor(credentials) { commit(credentials.usrname, credentials.grant_type === "login"); }
+                get canLogin() { return true; }
+            }`])
+            expect(problems).toHaveLength(2)
+            expect(problems[0]).toContain("Property 'usrname' does not exist")
+            expect(problems[1]).toContain('"login"')
+        });
+
+        test('should reject fetch settings of the wrong type', () => {
+            const problems = checkProviderTypes([`class UserLoginProvider {
+                constructor() { fetch("http://backend.test", {body: {user: "ada"}}).then((result) => commit(result.status)); }
+                get canLogin() { return true; }
+            }`])
+            expect(problems).toHaveLength(2)
+            expect(problems[0]).toContain("not assignable to type 'string'")
+            expect(problems[1]).toContain("Property 'status' does not exist")
+        });
+
+        test('should reject globals the server does not provide', () => {
+            const problems = checkProviderTypes([`class UserLoginProvider {
+                constructor() { console.warn("late"); setTimeout(() => commit(true), 10); }
+                get canLogin() { return true; }
+            }`])
+            expect(problems).toHaveLength(2)
+            expect(problems[0]).toContain("Property 'warn' does not exist")
+            expect(problems[1]).toContain("Cannot find name 'setTimeout'")
+        });
+
+        test('should reject providers without the required properties', () => {
+            const problems = checkProviderTypes([
+                'class UserLoginProvider { constructor() { commit(true); } get canLogin() { return "yes"; } }',
+                'class UserValidationProvider { constructor() { commit(true); } }',
+            ])
+            expect(problems).toHaveLength(2)
+            expect(problems[0]).toContain('UserLoginProviderConstructor')
+            expect(problems[1]).toContain("Property 'isValid' is missing")
+        });
+    });
+});
@@ -0,0 +1,62 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import * as localStack from '../../local/config';
+
+/** The published type definitions of the provider globals and classes */
+export const providerTypings = path.join(localStack.projectDir, 'Public', 'types', 'provider.d.ts')
+
+const compilerOptions: ts.CompilerOptions = {
+    allowJs: true,
+    checkJs: true,
+    noEmit: true,
+    // Provider scripts run in a bare JavaScript context, without the DOM or Node.js
+    lib: ['lib.es2022.d.ts'],
+    types: [],
+    target: ts.ScriptTarget.ES2022,
+}
+
+// The providers of a tenant have to fulfill the contracts of the classes they define
+const contracts = [
+    {className: 'UserLoginProvider', type: 'Uitsmijter.UserLoginProviderConstructor'},
+    {className: 'UserValidationProvider', type: 'Uitsmijter.UserValidationProviderConstructor'},
+]
+
+// Parsed once, the lib files are the same for every check
+const sourceFiles = new Map<string, ts.SourceFile>()
+
+/**
+ * Type-checks the providers of a tenant against `providerTypings`, like the server loads them: joined into one script.
+ *
+ * Returns the diagnostics as `line: message`, an empty list for valid providers.
+ */
+export function checkProviderTypes(scripts: string[]): string[] {
+    const script = scripts.join('\n')
+    const fileName = path.join(path.dirname(providerTypings), 'providers.js')
+    const checks = contracts
+        .filter(({className}) => new RegExp(`\\bclass\\s+${className}\\b`).test(script))
+        .map(({className, type}) => `/** @type {${type}} */\nconst contract${className} = ${className};`)
+    const source = ['// @ts-check', script, ...checks].join('\n')
+
+    const host = ts.createCompilerHost(compilerOptions)
+    const getSourceFile = host.getSourceFile
+    host.getSourceFile = (name, languageVersion, ...rest) => {
+        if (name === fileName) {
+            return ts.createSourceFile(name, source, languageVersion, true, ts.ScriptKind.JS)
+        }
+        if (!sourceFiles.has(name)) {
+            sourceFiles.set(name, getSourceFile.call(host, name, languageVersion, ...rest))
+        }
+        return sourceFiles.get(name)
+    }
+
+    const program = ts.createProgram([providerTypings, fileName], compilerOptions, host)
+    return ts.getPreEmitDiagnostics(program).map((diagnostic) => {
+        const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')
+        if (!diagnostic.file || diagnostic.start === undefined) {
+            return message
+        }
+        // Line 1 is the `@ts-check` comment
+        const {line} = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+        return `${path.basename(diagnostic.file.fileName)}:${line}: ${message}`
+    })
+}
@@ -0,0 +1,91 @@
+import {test, expect, Page} from '@playwright/test';
+import {Application} from "../Fixtures/app";
+import {missingKeys, rawKeyPattern, sourceKeys, translations, untranslatedKeys, viewKeys} from "./TranslationKeys";
+
+const locales = [...translations().keys()]
+
+test.describe('Translations completeness', () => {
+
+    test.describe('of the files', () => {
+        for (const [locale, missing] of Object.entries(missingKeys())) {
+            test(`${locale} should have the keys of all locales`, async () => {
+                expect(missing).toEqual([])
+            });
+        }
+
+        for (const locale of locales) {
+            test(`${locale} should translate the keys of the views`, async () => {
+                expect(untranslatedKeys(viewKeys(), locale)).toEqual([])
+            });
+
+            test(`${locale} should translate the errors of the server`, async () => {
+                expect(untranslatedKeys(sourceKeys(), locale)).toEqual([])
+            });
+        }
+    });
+
+    // Untranslated keys are rendered as they are, e.g. `LOGIN.ERRORS.WRONG_CREDENTIALS`
+    for (const locale of locales) {
+        test.describe(`of the pages in ${locale}`, () => {
+            let app: Application
+
+            test.use({
+                locale: locale.replace('_', '-'),
+            });
+
+            test.beforeEach(async ({page}) => {
+                app = new Application(page)
+                test.setTimeout(app.timeout)
+            });
+
+            test('login page', async ({page}) => {
+                await app.goto('https://login.example.com/login?for=http://cookbooks.example.com')
+                await expectNoRawKeys(page)
+            });
+
+            test('login page with wrong credentials', async ({page}) => {
+                await app.goto('https://login.example.com/login?for=http://cookbooks.example.com')
+                await app.auth.login('test', 'testing')
+                await expect(page.locator('div[data-error="LOGIN.ERRORS.WRONG_CREDENTIALS"]')).toBeVisible()
+                await expectNoRawKeys(page)
+            });
+
+            test('logout page', async ({page}) => {
+                await app.goto('https://login.example.com/login?for=http://cookbooks.example.com')
+                await app.auth.login('test@example.com', 'test')
+                await app.goto('https://login.example.com/logout?for=http://cookbooks.example.com')
+                await expectNoRawKeys(page)
+            });
+
+            test('error page', async ({page}) => {
+                await app.goto('https://login.example.com/pageNotFound')
+                await expectNoRawKeys(page)
+            });
+
+            test('unknown tenant page', async ({page}) => {
+                await app.goto('https://missing-tenant.example.com')
+                await expectNoRawKeys(page)
+            });
+
+            test('activate page', async ({page}) => {
+                await app.goto('https://id.example.com/activate')
+                await expectNoRawKeys(page)
+            });
+
+            test('login page from S3', async ({page}) => {
+                await app.goto('https://page.ham.test')
+                await expectNoRawKeys(page)
+            });
+        });
+    }
+});
+
+/** Fails if the visible text or a placeholder of the page contains a translation key */
+async function expectNoRawKeys(page: Page) {
+    const text = await page.locator('body').innerText()
+    const placeholders = await page.locator('[placeholder]').evaluateAll(
+        (elements) => elements.map((element) => element.getAttribute('placeholder'))
+    )
+    const found = [text, ...placeholders].flatMap((value) => value?.match(rawKeyPattern) ?? [])
+    expect(found, `untranslated keys on ${page.url()}`).toEqual([])
+}
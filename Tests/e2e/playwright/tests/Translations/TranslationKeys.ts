@@ -0,0 +1,116 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as localStack from '../../local/config';
+
+// Completeness of `Resources/Translations`: every locale has the same keys, and every key that the views or the
+// server hand to the `#t` tag of Leaf has a translation.
+
+const translationsDir = path.join(localStack.projectDir, 'Resources', 'Translations')
+
+/** Folders with Leaf views, the default views and the S3 templates of the e2e tenants */
+const viewDirs = [
+    path.join(localStack.projectDir, 'Resources', 'Views'),
+    path.join(localStack.projectDir, 'Deployment', 'e2e'),
+]
+
+const sourcesDir = path.join(localStack.projectDir, 'Sources')
+
+/** A key that is handed to `#t`, found in `file` */
+export type TranslationKey = {
+    key: string
+    file: string
+    /** `#t("ERROR.STATUS", status)` appends the value of `status`, so the key has to be an object of keys */
+    prefix: boolean
+}
+
+type Translation = { [key: string]: string | Translation }
+
+/**
+ * Keys that are rendered untranslated when a translation is missing, like `LOGIN.ERRORS.WRONG_CREDENTIALS`
+ */
+export const rawKeyPattern = /\b[A-Z][A-Z0-9_]*(\.[A-Z0-9_]+)+\b/g
+
+/** The translation files by locale, e.g. `de_DE` */
+export function translations(): Map<string, Translation> {
+    return new Map(fs.readdirSync(translationsDir)
+        .filter((file) => file.endsWith('.json'))
+        .sort()
+        .map((file) => [
+            path.basename(file, '.json'),
+            JSON.parse(fs.readFileSync(path.join(translationsDir, file), 'utf-8'))
+        ]))
+}
+
+/** All keys of a translation that lead to a string, e.g. `LOGIN.UI.NAME` */
+export function flattenKeys(translation: Translation, parent?: string): string[] {
+    return Object.entries(translation).flatMap(([name, value]) => {
+        const key = parent ? `${parent}.${name}` : name
+        return typeof value === 'string' ? [key] : flattenKeys(value, key)
+    })
+}
+
+/**
+ * Keys that at least one locale has, but others are missing, by locale
+ */
+export function missingKeys(): { [locale: string]: string[] } {
+    const keys = new Map([...translations()].map(([locale, translation]) => [locale, flattenKeys(translation)]))
+    const all = new Set([...keys.values()].flat())
+
+    return Object.fromEntries([...keys].map(([locale, own]) => [
+        locale,
+        [...all].filter((key) => !own.includes(key)).sort()
+    ]))
+}
+
+function filesWithExtension(dir: string, extension: string): string[] {
+    return fs.readdirSync(dir, {withFileTypes: true}).flatMap((entry) => {
+        const file = path.join(dir, entry.name)
+        if (entry.isDirectory()) {
+            return filesWithExtension(file, extension)
+        }
+        return entry.name.endsWith(extension) ? [file] : []
+    })
+}
+
+/**
+ * The keys of `#t("...")` in all Leaf views. Keys from variables like `#t(error)` are not known before rendering.
+ */
+export function viewKeys(): TranslationKey[] {
+    return viewDirs.flatMap((dir) => filesWithExtension(dir, '.leaf')).flatMap((file) => {
+        const content = fs.readFileSync(file, 'utf-8')
+        return [...content.matchAll(/#t\("([^"]+)"\s*(,)?/g)].map((match) => ({
+            key: match[1],
+            file: path.relative(localStack.projectDir, file),
+            prefix: match[2] !== undefined
+        }))
+    })
+}
+
+/**
+ * The error keys of the server that views render with `#t(error)` and `#t(reason)`, e.g. `LOGIN.ERRORS.NO_CLIENT`
+ */
+export function sourceKeys(): TranslationKey[] {
+    return filesWithExtension(sourcesDir, '.swift').flatMap((file) => {
+        const content = fs.readFileSync(file, 'utf-8')
+        return [...content.matchAll(/"((?:(?:LOGIN|LOGOUT|ACTIVATE)\.)?ERRORS\.[A-Z0-9_]+)"/g)].map((match) => ({
+            key: match[1],
+            file: path.relative(localStack.projectDir, file),
+            prefix: false
+        }))
+    })
+}
+
+/**
+ * Keys that have no translation in the locale, as `file: key`
+ */
+export function untranslatedKeys(keys: TranslationKey[], locale: string): string[] {
+    const translation = translations().get(locale)
+    const untranslated = keys.filter(({key, prefix}) => {
+        const value = key.split('.').reduce<string | Translation | undefined>(
+            (node, name) => typeof node === 'object' ? node[name] : undefined,
+            translation
+        )
+        return prefix ? typeof value !== 'object' : typeof value !== 'string'
+    })
+    return [...new Set(untranslated.map(({key, file}) => `${file}: ${key}`))].sort()
+}
@@ -0,0 +1,25 @@
+import {test, expect} from '@playwright/test';
+import {assertDiscoveryConformance} from "./DiscoveryConformance";
+import {tenantInventory} from "../Fixtures/inventory";
+
+// `grant_types_supported` of every tenant, see `OpenidConfigurationBuilder.defaultGrantTypes`
+const defaultGrantTypes = ['authorization_code', 'refresh_token']
+
+/**
+ * Runs `assertDiscoveryConformance` for every issuer host of the tenants in `Deployment/e2e`.
+ *
+ * @see https://openid.net/specs/openid-connect-discovery-1_0.html
+ */
+test.describe('OpenID Connect Discovery conformance', () => {
+
+    for (const tenant of tenantInventory()) {
+        for (const host of tenant.issuerHosts) {
+            test(`should conform for ${host} (${tenant.name})`, async () => {
+                const config = await assertDiscoveryConformance(`https://${host}`, {
+                    grantTypes: [...defaultGrantTypes, ...tenant.clientGrantTypes],
+                })
+                expect(config.issuer).toBe(`https://${host}`)
+            });
+        }
+    }
+});
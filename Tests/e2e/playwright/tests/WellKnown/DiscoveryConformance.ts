@@ -0,0 +1,121 @@
+import {randomUUID} from "crypto";
+import {APIRequestContext, expect, request} from "@playwright/test";
+import {OpenidConfigurationData, validateOpenidConfiguration} from "../types/OpenidConfigurationData";
+
+export interface DiscoveryConformanceOptions {
+    /** Expected `grant_types_supported`, e.g. the defaults and the grant types of all clients of the tenant */
+    grantTypes?: string[]
+}
+
+// Endpoints of the metadata and the method that reaches them, every other method may answer 404 / 405
+const endpoints: { field: keyof OpenidConfigurationData, method: 'GET' | 'POST' }[] = [
+    {field: 'authorization_endpoint', method: 'GET'},
+    {field: 'token_endpoint', method: 'POST'},
+    {field: 'userinfo_endpoint', method: 'GET'},
+    {field: 'jwks_uri', method: 'GET'},
+    {field: 'registration_endpoint', method: 'POST'},
+    {field: 'end_session_endpoint', method: 'GET'},
+    {field: 'revocation_endpoint', method: 'POST'},
+    {field: 'device_authorization_endpoint', method: 'POST'},
+    {field: 'introspection_endpoint', method: 'POST'},
+]
+
+/**
+ * Checks that an advertised endpoint exists: anything but 404 and server errors, a request without parameters is
+ * expected to fail with a client error.
+ */
+async function endpointProblems(context: APIRequestContext, config: OpenidConfigurationData, issuer: string): Promise<string[]> {
+    const problems: string[] = []
+    for (const {field, method} of endpoints) {
+        const url = config[field] as string | undefined
+        if (url === undefined) {
+            continue
+        }
+        if (new URL(url).origin !== new URL(issuer).origin) {
+            problems.push(`${field} ${url} is not served by the issuer ${issuer}`)
+            continue
+        }
+        const response = await context.fetch(url, {method, maxRedirects: 0, data: method === 'POST' ? {} : undefined})
+        if (response.status() === 404 || response.status() >= 500) {
+            problems.push(`${field} ${method} ${url} responds with ${response.status()}`)
+        }
+    }
+
+    const jwks = await context.get(config.jwks_uri)
+    const keys = jwks.ok() ? (await jwks.json().catch(() => ({}))).keys : undefined
+    if (!Array.isArray(keys)) {
+        problems.push(`jwks_uri ${config.jwks_uri} does not respond with a JSON Web Key Set`)
+    }
+    return problems
+}
+
+/**
+ * True if `/token` parses the grant type: it answers an unknown client with `NO_CLIENT` instead of rejecting the
+ * request body.
+ */
+async function tokenAcceptsGrantType(context: APIRequestContext, tokenEndpoint: string, grantType: string): Promise<boolean> {
+    const response = await context.post(tokenEndpoint, {
+        headers: {'Accept': 'application/json'},
+        data: {grant_type: grantType, client_id: randomUUID()},
+    })
+    const body = await response.json().catch(() => ({}))
+    return String(body.reason ?? '').includes('NO_CLIENT')
+}
+
+async function grantTypeProblems(context: APIRequestContext, config: OpenidConfigurationData, options?: DiscoveryConformanceOptions): Promise<string[]> {
+    const problems: string[] = []
+    const advertised = config.grant_types_supported ?? []
+
+    for (const grantType of advertised) {
+        if (!await tokenAcceptsGrantType(context, config.token_endpoint, grantType)) {
+            problems.push(`grant_types_supported contains ${grantType}, but the token_endpoint does not accept it`)
+        }
+    }
+    // The probe itself has to tell accepted and unknown grant types apart
+    if (await tokenAcceptsGrantType(context, config.token_endpoint, 'urn:uitsmijter:e2e:unknown')) {
+        problems.push('the token_endpoint accepts an unknown grant type')
+    }
+
+    if (options?.grantTypes) {
+        const expected = [...new Set(options.grantTypes)].sort()
+        if (JSON.stringify([...advertised].sort()) !== JSON.stringify(expected)) {
+            problems.push(`grant_types_supported should be ${expected.join(', ')}, got ${advertised.join(', ')}`)
+        }
+    }
+    return problems
+}
+
+/**
+ * Asserts that the discovery document of an issuer conforms to OpenID Connect Discovery 1.0.
+ *
+ * Validates the document against `openidConfigurationSchema`, checks that the `issuer` is the requested one, that
+ * every advertised endpoint responds and that the `token_endpoint` accepts all of `grant_types_supported`. All
+ * problems are reported at once. Returns the document for further checks.
+ *
+ * @see https://openid.net/specs/openid-connect-discovery-1_0.html
+ */
+export async function assertDiscoveryConformance(issuer: string, options?: DiscoveryConformanceOptions): Promise<OpenidConfigurationData> {
+    issuer = issuer.replace(/\/+$/, '')
+    const context = await request.newContext({ignoreHTTPSErrors: true})
+    try {
+        const response = await context.get(issuer + '/.well-known/openid-configuration')
+        expect(response.status(), `openid configuration of ${issuer}`).toBe(200)
+        expect(response.headers()['content-type']).toContain('application/json')
+
+        const config: OpenidConfigurationData = await response.json()
+        const problems = validateOpenidConfiguration(config)
+        if (config.issuer !== issuer) {
+            // Discovery 1.0, Section 4.3
+            problems.push(`issuer should be ${issuer}, got ${config.issuer}`)
+        }
+        if (problems.length === 0) {
+            problems.push(...await endpointProblems(context, config, issuer))
+            problems.push(...await grantTypeProblems(context, config, options))
+        }
+
+        expect(problems, `OpenID Connect Discovery conformance of ${issuer}`).toEqual([])
+        return config
+    } finally {
+        await context.dispose()
+    }
+}
@@ -115,7 +115,7 @@ test.describe('OpenID Connect Discovery', () => {
             expect(config.authorization_endpoint).toContain('/authorize');
             expect(config.token_endpoint).toContain('/token');
             expect(config.jwks_uri).toContain('/.well-known/jwks.json');
-            expect(config.userinfo_endpoint).toContain('/token/info');
+            expect(config.userinfo_endpoint).toContain('/userinfo');
         });
 
         test('should include "code" in response_types_supported for authorization code flow', async ({page}) => {
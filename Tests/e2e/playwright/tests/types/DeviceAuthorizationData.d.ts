@@ -0,0 +1,12 @@
+export interface DeviceAuthorizationRequestData {
+    client_id: string
+    scope?: string
+}
+
+export interface DeviceAuthorizationResponseData {
+    device_code: string
+    user_code: string
+    verification_uri: string
+    expires_in: number
+    interval: number
+}
@@ -0,0 +1,53 @@
+/**
+ * The `config` of a tenant file for the EntityFileLoader, see `TenantSpec` in
+ * `Sources/Uitsmijter-AuthServer/Entities/Tenant/Tenant.swift`.
+ */
+export interface TenantSpecData {
+    hosts: string[]
+    informations?: {
+        imprint_url?: string
+        privacy_url?: string
+        register_url?: string
+    }
+    interceptor?: {
+        enabled: boolean
+        domain?: string
+        cookie?: string
+    }
+    /** Sources of the JavaScript providers */
+    providers?: string[]
+    templates?: {
+        access_key_id: string
+        secret_access_key: string
+        bucket: string
+        host?: string
+        path?: string
+        region?: string
+    }
+    silent_login?: boolean
+    jwt_algorithm?: 'HS256' | 'RS256'
+}
+
+/**
+ * The `config` of a client file for the EntityFileLoader, see `ClientSpec` in
+ * `Sources/Uitsmijter-AuthServer/Entities/Client/Client.swift`.
+ */
+export interface ClientSpecData {
+    ident: string
+    tenantname: string
+    /** Regular expressions of the allowed redirect uris */
+    redirect_urls: string[]
+    grant_types?: string[]
+    scopes?: string[]
+    allowedProviderScopes?: string[]
+    referrers?: string[]
+    secret?: string
+    isPkceOnly?: boolean
+    device_grant_config?: {
+        expires_in?: number
+        interval?: number
+        verification_uri?: string
+    }
+    /** Receives the `logout_token` of a logout */
+    backchannel_logout_uri?: string
+}
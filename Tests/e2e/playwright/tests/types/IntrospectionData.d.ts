@@ -0,0 +1,13 @@
+/**
+ * Response of `/introspect` (RFC 7662), inactive tokens are described by `active` only
+ */
+export interface IntrospectionResponseData {
+    active: boolean
+    scope?: string
+    client_id?: string
+    sub?: string
+    exp?: number
+    iat?: number
+    tenant?: string
+    token_type?: "Bearer"
+}
@@ -4,17 +4,235 @@ export interface JwtToken {
     signature: string,
 }
 
+export interface IdToken {
+    header: JwtHeader,
+    payload: IdTokenData,
+    signature: string,
+}
+
+export interface LogoutToken {
+    header: JwtHeader,
+    payload: LogoutTokenData,
+    signature: string,
+}
+
 export interface JwtHeader {
     typ: 'JWT',
-    alg: string,
+    alg: 'HS256' | 'RS256',
+    /** Key id of the signing key, only set for RS256 */
+    kid?: string,
 }
 
+/**
+ * Claims of an access token, mirrors `Sources/Uitsmijter-AuthServer/JWT/Payload.swift`.
+ *
+ * Keep in sync with `jwtPayloadSchema`.
+ */
 export interface JwtData {
-    sub?: string,
-    exp?: number,
+    // RFC 7519 registered claims
+    iss: string,
+    sub: string,
+    aud: string | string[],
+    exp: number,
+    iat: number,
+    /** Not issued by Uitsmijter, allowed for tokens of other issuers */
+    nbf?: number,
 
+    // OpenID Connect Core 1.0, Section 2
+    auth_time: number,
+
+    // Uitsmijter claims
+    tenant: string,
+    responsibility?: string,
+    role: string,
+    user: string,
+    /** Space separated list of granted scopes, may be empty */
+    scope: string,
     profile?: object,
-    role?: string,
-    tenant?: string
-    user?: string
+}
+
+/**
+ * Claims of an OpenID Connect ID Token, mirrors `Sources/Uitsmijter-AuthServer/JWT/IdTokenPayload.swift`.
+ *
+ * The standard claims of the granted scopes are taken from the profile of the provider. Keep in sync with
+ * `idTokenPayloadSchema`.
+ */
+export interface IdTokenData {
+    iss: string,
+    sub: string,
+    aud: string | string[],
+    exp: number,
+    iat: number,
+    auth_time: number,
+    /** The `nonce` of the authorization request */
+    nonce?: string,
+    /** Hash of the access token that is issued together with the ID Token */
+    at_hash?: string,
+
+    // Standard claims of the `profile` and `email` scopes used by the specs
+    name?: string,
+    given_name?: string,
+    family_name?: string,
+    email?: string,
+    email_verified?: boolean,
+}
+
+/** The event of the `events` claim of a logout token */
+export const backchannelLogoutEvent = 'http://schemas.openid.net/event/backchannel-logout'
+
+/**
+ * Claims of an OpenID Connect Back-Channel Logout token, mirrors
+ * `Sources/Uitsmijter-AuthServer/JWT/LogoutTokenPayload.swift`.
+ *
+ * Keep in sync with `logoutTokenPayloadSchema`.
+ */
+export interface LogoutTokenData {
+    iss: string,
+    sub: string,
+    aud: string | string[],
+    exp: number,
+    iat: number,
+    jti: string,
+    /** Has the single member `backchannelLogoutEvent` with an empty object */
+    events: Record<string, object>,
+}
+
+type ClaimType = 'string' | 'number' | 'boolean' | 'object' | 'string|string[]'
+
+interface ClaimSchema {
+    type: ClaimType,
+    required: boolean,
+    values?: string[],
+}
+
+type Schema<T> = { [K in keyof Required<T>]: ClaimSchema }
+
+export const jwtHeaderSchema: Schema<JwtHeader> = {
+    typ: {type: 'string', required: true, values: ['JWT']},
+    alg: {type: 'string', required: true, values: ['HS256', 'RS256']},
+    kid: {type: 'string', required: false},
+}
+
+export const jwtPayloadSchema: Schema<JwtData> = {
+    iss: {type: 'string', required: true},
+    sub: {type: 'string', required: true},
+    aud: {type: 'string|string[]', required: true},
+    exp: {type: 'number', required: true},
+    iat: {type: 'number', required: true},
+    nbf: {type: 'number', required: false},
+    auth_time: {type: 'number', required: true},
+    tenant: {type: 'string', required: true},
+    responsibility: {type: 'string', required: false},
+    role: {type: 'string', required: true},
+    user: {type: 'string', required: true},
+    scope: {type: 'string', required: true},
+    profile: {type: 'object', required: false},
+}
+
+export const idTokenPayloadSchema: Schema<IdTokenData> = {
+    iss: {type: 'string', required: true},
+    sub: {type: 'string', required: true},
+    aud: {type: 'string|string[]', required: true},
+    exp: {type: 'number', required: true},
+    iat: {type: 'number', required: true},
+    auth_time: {type: 'number', required: true},
+    nonce: {type: 'string', required: false},
+    at_hash: {type: 'string', required: false},
+    name: {type: 'string', required: false},
+    given_name: {type: 'string', required: false},
+    family_name: {type: 'string', required: false},
+    email: {type: 'string', required: false},
+    email_verified: {type: 'boolean', required: false},
+}
+
+export const logoutTokenPayloadSchema: Schema<LogoutTokenData> = {
+    iss: {type: 'string', required: true},
+    sub: {type: 'string', required: true},
+    aud: {type: 'string|string[]', required: true},
+    exp: {type: 'number', required: true},
+    iat: {type: 'number', required: true},
+    jti: {type: 'string', required: true},
+    events: {type: 'object', required: true},
+}
+
+function hasType(value: unknown, type: ClaimType): boolean {
+    switch (type) {
+        case 'string':
+            return typeof value === 'string'
+        case 'number':
+            return typeof value === 'number' && Number.isFinite(value)
+        case 'boolean':
+            return typeof value === 'boolean'
+        case 'object':
+            return typeof value === 'object' && value !== null
+        case 'string|string[]':
+            return typeof value === 'string'
+                || (Array.isArray(value) && value.every((entry) => typeof entry === 'string'))
+    }
+}
+
+function validateAgainst(part: string, data: object, schema: Record<string, ClaimSchema>): string[] {
+    if (typeof data !== 'object' || data === null) {
+        return [`${part} is not an object`]
+    }
+
+    const errors: string[] = []
+    for (const [claim, claimSchema] of Object.entries(schema)) {
+        const value = data[claim]
+        if (value === undefined) {
+            if (claimSchema.required) {
+                errors.push(`${part}.${claim} is missing`)
+            }
+            continue
+        }
+        if (!hasType(value, claimSchema.type)) {
+            errors.push(`${part}.${claim} should be of type ${claimSchema.type}, got ${JSON.stringify(value)}`)
+            continue
+        }
+        if (claimSchema.values && !claimSchema.values.includes(value)) {
+            errors.push(`${part}.${claim} should be one of ${claimSchema.values.join(', ')}, got ${value}`)
+        }
+    }
+    for (const claim of Object.keys(data)) {
+        if (!(claim in schema)) {
+            errors.push(`${part}.${claim} is unknown`)
+        }
+    }
+    return errors
+}
+
+/**
+ * Validates a decoded token against `jwtHeaderSchema` and `jwtPayloadSchema`.
+ *
+ * Reports missing, retyped and unknown claims, so a changed server payload shows up in every spec that decodes a
+ * token. Returns an empty list for a valid token.
+ */
+export function validateJwtToken(token: { header: object, payload: object }): string[] {
+    return [
+        ...validateAgainst('header', token.header, jwtHeaderSchema),
+        ...validateAgainst('payload', token.payload, jwtPayloadSchema),
+    ]
+}
+
+/**
+ * Validates a decoded ID Token against `jwtHeaderSchema` and `idTokenPayloadSchema`.
+ */
+export function validateIdToken(token: { header: object, payload: object }): string[] {
+    return [
+        ...validateAgainst('header', token.header, jwtHeaderSchema),
+        ...validateAgainst('payload', token.payload, idTokenPayloadSchema),
+    ]
+}
+
+/**
+ * Validates a decoded logout token against `jwtHeaderSchema` and `logoutTokenPayloadSchema`.
+ *
+ * A logout token must not carry a `nonce` (OpenID Connect Back-Channel Logout 1.0, Section 2.4), it is reported as
+ * an unknown claim.
+ */
+export function validateLogoutToken(token: { header: object, payload: object }): string[] {
+    return [
+        ...validateAgainst('header', token.header, jwtHeaderSchema),
+        ...validateAgainst('payload', token.payload, logoutTokenPayloadSchema),
+    ]
 }
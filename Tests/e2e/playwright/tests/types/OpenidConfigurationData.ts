@@ -0,0 +1,194 @@
+/**
+ * OpenID Provider Metadata, mirrors `Sources/Uitsmijter-AuthServer/WellKnown/OpenidConfiguration.swift`.
+ *
+ * Keep in sync with `openidConfigurationSchema`.
+ *
+ * @see https://openid.net/specs/openid-connect-discovery-1_0.html#ProviderMetadata
+ */
+export interface OpenidConfigurationData {
+    // OpenID Connect Discovery 1.0, Section 3
+    issuer: string,
+    authorization_endpoint: string,
+    token_endpoint: string,
+    userinfo_endpoint?: string,
+    jwks_uri: string,
+    registration_endpoint?: string,
+    scopes_supported?: string[],
+    response_types_supported: string[],
+    response_modes_supported?: string[],
+    grant_types_supported?: string[],
+    acr_values_supported?: string[],
+    subject_types_supported: string[],
+    id_token_signing_alg_values_supported: string[],
+    id_token_encryption_alg_values_supported?: string[],
+    id_token_encryption_enc_values_supported?: string[],
+    userinfo_signing_alg_values_supported?: string[],
+    userinfo_encryption_alg_values_supported?: string[],
+    userinfo_encryption_enc_values_supported?: string[],
+    request_object_signing_alg_values_supported?: string[],
+    request_object_encryption_alg_values_supported?: string[],
+    request_object_encryption_enc_values_supported?: string[],
+    token_endpoint_auth_methods_supported?: string[],
+    token_endpoint_auth_signing_alg_values_supported?: string[],
+    display_values_supported?: string[],
+    claim_types_supported?: string[],
+    claims_supported?: string[],
+    service_documentation?: string,
+    claims_locales_supported?: string[],
+    ui_locales_supported?: string[],
+    claims_parameter_supported?: boolean,
+    request_parameter_supported?: boolean,
+    request_uri_parameter_supported?: boolean,
+    require_request_uri_registration?: boolean,
+    op_policy_uri?: string,
+    op_tos_uri?: string,
+
+    // OpenID Connect RP-Initiated Logout 1.0
+    end_session_endpoint?: string,
+    // RFC 8414 / RFC 7009
+    revocation_endpoint?: string,
+    // RFC 7636
+    code_challenge_methods_supported?: string[],
+    // RFC 8628
+    device_authorization_endpoint?: string,
+    // RFC 7662
+    introspection_endpoint?: string,
+    // OpenID Connect Back-Channel Logout 1.0
+    backchannel_logout_supported?: boolean,
+}
+
+type FieldType = 'url' | 'string[]' | 'boolean'
+
+interface FieldSchema {
+    type: FieldType,
+    required: boolean,
+    /** Allowed entries of a `string[]` field */
+    values?: string[],
+}
+
+type Schema<T> = { [K in keyof Required<T>]: FieldSchema }
+
+const optionalList: FieldSchema = {type: 'string[]', required: false}
+
+export const openidConfigurationSchema: Schema<OpenidConfigurationData> = {
+    issuer: {type: 'url', required: true},
+    authorization_endpoint: {type: 'url', required: true},
+    token_endpoint: {type: 'url', required: true},
+    userinfo_endpoint: {type: 'url', required: false},
+    jwks_uri: {type: 'url', required: true},
+    registration_endpoint: {type: 'url', required: false},
+    scopes_supported: optionalList,
+    response_types_supported: {
+        type: 'string[]', required: true,
+        values: ['code', 'id_token', 'token', 'code id_token', 'code token', 'id_token token', 'code id_token token', 'none'],
+    },
+    response_modes_supported: {type: 'string[]', required: false, values: ['query', 'fragment', 'form_post']},
+    grant_types_supported: optionalList,
+    acr_values_supported: optionalList,
+    subject_types_supported: {type: 'string[]', required: true, values: ['public', 'pairwise']},
+    id_token_signing_alg_values_supported: {type: 'string[]', required: true},
+    id_token_encryption_alg_values_supported: optionalList,
+    id_token_encryption_enc_values_supported: optionalList,
+    userinfo_signing_alg_values_supported: optionalList,
+    userinfo_encryption_alg_values_supported: optionalList,
+    userinfo_encryption_enc_values_supported: optionalList,
+    request_object_signing_alg_values_supported: optionalList,
+    request_object_encryption_alg_values_supported: optionalList,
+    request_object_encryption_enc_values_supported: optionalList,
+    token_endpoint_auth_methods_supported: {
+        type: 'string[]', required: false,
+        values: ['client_secret_post', 'client_secret_basic', 'client_secret_jwt', 'private_key_jwt', 'none'],
+    },
+    token_endpoint_auth_signing_alg_values_supported: optionalList,
+    display_values_supported: {type: 'string[]', required: false, values: ['page', 'popup', 'touch', 'wap']},
+    claim_types_supported: {type: 'string[]', required: false, values: ['normal', 'aggregated', 'distributed']},
+    claims_supported: optionalList,
+    service_documentation: {type: 'url', required: false},
+    claims_locales_supported: optionalList,
+    ui_locales_supported: optionalList,
+    claims_parameter_supported: {type: 'boolean', required: false},
+    request_parameter_supported: {type: 'boolean', required: false},
+    request_uri_parameter_supported: {type: 'boolean', required: false},
+    require_request_uri_registration: {type: 'boolean', required: false},
+    op_policy_uri: {type: 'url', required: false},
+    op_tos_uri: {type: 'url', required: false},
+    end_session_endpoint: {type: 'url', required: false},
+    revocation_endpoint: {type: 'url', required: false},
+    code_challenge_methods_supported: {type: 'string[]', required: false, values: ['plain', 'S256']},
+    device_authorization_endpoint: {type: 'url', required: false},
+    introspection_endpoint: {type: 'url', required: false},
+    backchannel_logout_supported: {type: 'boolean', required: false},
+}
+
+function parseUrl(value: string): URL | undefined {
+    try {
+        return new URL(value)
+    } catch {
+        return undefined
+    }
+}
+
+function hasType(value: unknown, type: FieldType): boolean {
+    switch (type) {
+        case 'url':
+            return typeof value === 'string' && parseUrl(value) !== undefined
+        case 'string[]':
+            return Array.isArray(value) && value.every((entry) => typeof entry === 'string')
+        case 'boolean':
+            return typeof value === 'boolean'
+    }
+}
+
+/**
+ * Validates a discovery document against `openidConfigurationSchema` and the rules of OpenID Connect Discovery 1.0
+ * that can be checked without the server.
+ *
+ * Unknown fields are allowed, the metadata is extensible. Returns an empty list for a valid document.
+ */
+export function validateOpenidConfiguration(config: object): string[] {
+    if (typeof config !== 'object' || config === null) {
+        return ['configuration is not an object']
+    }
+
+    const errors: string[] = []
+    for (const [field, fieldSchema] of Object.entries(openidConfigurationSchema)) {
+        const value = config[field]
+        if (value === undefined) {
+            if (fieldSchema.required) {
+                errors.push(`${field} is missing`)
+            }
+            continue
+        }
+        if (!hasType(value, fieldSchema.type)) {
+            errors.push(`${field} should be of type ${fieldSchema.type}, got ${JSON.stringify(value)}`)
+            continue
+        }
+        if (fieldSchema.values) {
+            const unknown = (value as string[]).filter((entry) => !fieldSchema.values.includes(entry))
+            if (unknown.length > 0) {
+                errors.push(`${field} should only contain ${fieldSchema.values.join(', ')}, got ${unknown.join(', ')}`)
+            }
+        }
+        if (fieldSchema.type === 'url' && new URL(value).hash !== '') {
+            errors.push(`${field} must not contain a fragment, got ${value}`)
+        }
+    }
+
+    const data = config as Partial<OpenidConfigurationData>
+    const issuer = typeof data.issuer === 'string' ? parseUrl(data.issuer) : undefined
+    if (issuer) {
+        if (issuer.protocol !== 'https:') {
+            errors.push(`issuer must use the https scheme, got ${data.issuer}`)
+        }
+        if (issuer.search !== '') {
+            errors.push(`issuer must not contain a query, got ${data.issuer}`)
+        }
+    }
+    if (Array.isArray(data.scopes_supported) && !data.scopes_supported.includes('openid')) {
+        errors.push('scopes_supported must contain openid')
+    }
+    if (Array.isArray(data.response_types_supported) && data.response_types_supported.length === 0) {
+        errors.push('response_types_supported must not be empty')
+    }
+    return errors
+}
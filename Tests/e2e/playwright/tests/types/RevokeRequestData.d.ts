@@ -0,0 +1,6 @@
+export interface RevokeRequestData {
+    token: string
+    token_type_hint?: "access_token" | "refresh_token"
+    client_id: string
+    client_secret?: string
+}
@@ -1,5 +1,5 @@
 export interface TokenRequestData {
-    grant_type: "authorization_code" | "refresh_token" | "password"
+    grant_type: "authorization_code" | "refresh_token" | "password" | "device_code" | "client_credentials"
     client_id: string
     scope?: string,
     code?: string,
@@ -19,3 +19,14 @@ export interface TokenRequestDataVerified extends TokenRequestData {
     code_verifier: string,
     code?: string,
 }
+
+export interface TokenRequestDataDevice extends TokenRequestData {
+    grant_type: "device_code",
+    client_secret?: string,
+    device_code: string,
+}
+
+export interface TokenRequestDataClientCredentials extends TokenRequestData {
+    grant_type: "client_credentials",
+    client_secret: string,
+}
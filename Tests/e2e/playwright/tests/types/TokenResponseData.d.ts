@@ -0,0 +1,19 @@
+export interface TokenResponseData {
+    access_token: string
+    token_type: "Bearer"
+    expires_in?: number
+    refresh_token?: string
+    scope?: string
+    /** OpenID Connect ID Token, issued for the `openid` scope */
+    id_token?: string
+}
+
+export interface ErrorResponseData {
+    status?: number
+    error: boolean
+    reason: string
+    requestInfo?: {
+        description: string
+    }
+    baseurl?: string
+}